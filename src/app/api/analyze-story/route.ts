@@ -1,35 +1,137 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { type NextRequest, NextResponse } from "next/server";
-import { getGoogleAiApiKey } from "@/lib/api-keys";
-import { type ApiResponse, callGeminiWithRetry } from "@/lib/gemini-helper";
-import { parseGeminiJSON } from "@/lib/json-parser";
+import { MAX_LONG_STORY_WORDS, MAX_STORY_WORDS } from "@/lib/chapters";
+import { createEventStreamResponse } from "@/lib/event-stream";
+import { IncrementalJSONParser } from "@/lib/json-parser";
 import {
 	logApiRequest,
 	logApiResponse,
 	logError,
 	storyAnalysisLogger,
 } from "@/lib/logger";
+import {
+	ContentBlockedError,
+	getContentBlockedBody,
+	screenContent,
+} from "@/lib/moderation";
+import { renderPrompt } from "@/lib/prompts";
+import { normalizeComicStyle } from "@/lib/prompts/fragments";
+import { detectInstructionLikeContent } from "@/lib/prompts/safety";
+import { generateText, streamText } from "@/lib/providers/registry";
+import type { ApiResponse, TextGenerationRequest } from "@/lib/providers/types";
+import { validateStoryAnalysis } from "@/lib/schemas";
+import {
+	generateValidated,
+	OutputValidationError,
+	type ValidatedResponse,
+} from "@/lib/structured-output";
+import type {
+	PromptInjectionWarning,
+	PromptTemplateRef,
+	StoryAnalysis,
+} from "@/types";
 
-interface Character {
-	name: string;
-	physicalDescription: string;
-	personality: string;
-	role: string;
-}
+type AnalysisData = Omit<StoryAnalysis, "promptTemplate">;
 
-interface Setting {
-	timePeriod: string;
-	location: string;
-	mood: string;
-}
+/**
+ * Runs the analysis call with validation and repairs, and logs the outcome.
+ * Shared by the JSON and the streaming (SSE) variants of the endpoint.
+ */
+async function completeAnalysis(
+	generate: (
+		request: TextGenerationRequest,
+		attempt: number,
+		isValid: (text: string) => boolean,
+	) => Promise<ApiResponse<string>>,
+	generationRequest: TextGenerationRequest,
+	startTime: number,
+	wordCount: number,
+	promptTemplate: PromptTemplateRef,
+	warnings: PromptInjectionWarning[],
+	longStory: boolean,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+	const endpoint = "/api/analyze-story";
 
-interface AnalysisData {
-	characters: Character[];
-	setting: Setting;
-}
+	let response: ValidatedResponse<AnalysisData>;
+	try {
+		response = await generateValidated(
+			generationRequest,
+			generate,
+			(value) => validateStoryAnalysis(value, longStory),
+			storyAnalysisLogger,
+		);
+
+		storyAnalysisLogger.info(
+			{
+				source: response.source,
+				cached: response.cached,
+				characters_count: response.result.characters.length,
+				locations_count: response.result.locations?.length ?? 0,
+				props_count: response.result.props?.length ?? 0,
+			},
+			`Story analysis completed using ${response.source}`,
+		);
+	} catch (error) {
+		if (error instanceof ContentBlockedError) {
+			logApiResponse(
+				storyAnalysisLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{
+					error: "Blocked by safety filters",
+				},
+			);
+			return { status: 422, body: getContentBlockedBody(error) };
+		}
+		if (error instanceof OutputValidationError) {
+			logApiResponse(
+				storyAnalysisLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{ error: "Invalid model output", attempts: error.attempts },
+			);
+			return {
+				status: 502,
+				body: {
+					error: "The model's story analysis didn't match the expected format",
+					code: error.code,
+					issues: error.issues,
+				},
+			};
+		}
+
+		logError(storyAnalysisLogger, error, "story analysis");
+		logApiResponse(
+			storyAnalysisLogger,
+			endpoint,
+			false,
+			Date.now() - startTime,
+			{ error: "Text generation failed" },
+		);
+		return { status: 500, body: { error: "Failed to analyze story" } };
+	}
 
-const genAI = new GoogleGenAI({ apiKey: getGoogleAiApiKey(true) });
-// Model will be determined dynamically by callGeminiWithRetry
+	const { result: analysisData, usage, repairs } = response;
+	logApiResponse(storyAnalysisLogger, endpoint, true, Date.now() - startTime, {
+		characters_count: analysisData.characters.length,
+		word_count: wordCount,
+		estimated_cost_usd: usage.estimatedCostUsd,
+	});
+
+	return {
+		status: 200,
+		body: {
+			success: true,
+			analysis: { ...analysisData, promptTemplate },
+			wordCount,
+			usage,
+			warnings,
+			repairs,
+		},
+	};
+}
 
 export async function POST(request: NextRequest) {
 	const startTime = Date.now();
@@ -38,12 +140,17 @@ export async function POST(request: NextRequest) {
 	logApiRequest(storyAnalysisLogger, endpoint);
 
 	try {
-		const { story, style } = await request.json();
+		const { story, style, longStory, stream, bypassCache } =
+			await request.json();
+		// Set by the re-run buttons, which ask for a fresh analysis
+		const options = { bypassCache: !!bypassCache };
 
 		storyAnalysisLogger.debug(
 			{
 				story_length: story?.length || 0,
 				style,
+				long_story: !!longStory,
+				stream: !!stream,
 			},
 			"Received story analysis request",
 		);
@@ -66,13 +173,14 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		// Validate story length (500 words max)
+		// Long stories are analyzed whole, so the cast is shared by every chapter
+		const wordLimit = longStory ? MAX_LONG_STORY_WORDS : MAX_STORY_WORDS;
 		const wordCount = story.trim().split(/\s+/).length;
 		storyAnalysisLogger.debug({ wordCount }, "Calculated word count");
 
-		if (wordCount > 500) {
+		if (wordCount > wordLimit) {
 			storyAnalysisLogger.warn(
-				{ wordCount, limit: 500 },
+				{ wordCount, limit: wordLimit },
 				"Story exceeds word limit",
 			);
 			logApiResponse(
@@ -83,195 +191,199 @@ export async function POST(request: NextRequest) {
 				{ error: "Word limit exceeded" },
 			);
 			return NextResponse.json(
-				{ error: `Story too long. Maximum 500 words, got ${wordCount} words.` },
+				{
+					error: `Story too long. Maximum ${wordLimit} words, got ${wordCount} words.`,
+				},
 				{ status: 400 },
 			);
 		}
 
-		const prompt = `
-Analyze this story and extract the main characters with their detailed characteristics:
-
-Story: "${story}"
-
-Style: ${style}
-
-Please provide:
-1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
-
-2. A list of main characters (1-4 maximum, choose based on story complexity) with:
-   - Name
-   - Physical description (age, build, hair, clothing, distinctive features)
-   - Personality traits
-   - Role in the story
+		// Screened up front so a story the image models would refuse fails
+		// before anything is generated
+		try {
+			screenContent({ story }, storyAnalysisLogger);
+		} catch (error) {
+			if (!(error instanceof ContentBlockedError)) throw error;
+			logApiResponse(
+				storyAnalysisLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{ error: "Blocked by moderation" },
+			);
+			return NextResponse.json(getContentBlockedBody(error), { status: 422 });
+		}
 
-3. Setting description (time period, location, mood)
-`;
+		// Stories can come from anywhere (e.g. a Reddit post), so content that
+		// tries to steer the model is flagged back to the user
+		const warnings = detectInstructionLikeContent({ story });
+		if (warnings.length > 0) {
+			storyAnalysisLogger.warn(
+				{ warnings },
+				"Story contains instruction-like content",
+			);
+		}
 
-		let text: string;
-		try {
-			// Prepare Bedrock fallback parameters
+		// Long stories get a larger cast, shared by every chapter
+		const prompt = renderPrompt(
+			longStory ? "long-story-analysis" : "story-analysis",
+			{ story, style: normalizeComicStyle(style) },
+		);
 
-			const response = await callGeminiWithRetry(
-				genAI,
-				prompt,
-				{
-					responseMimeType: "application/json",
-					responseSchema: {
+		const generationRequest: TextGenerationRequest = {
+			prompt: prompt.text,
+			task: { kind: "story-analysis", story },
+			responseSchema: {
+				type: Type.OBJECT,
+				properties: {
+					title: {
+						type: Type.STRING,
+					},
+					characters: {
+						type: Type.ARRAY,
+						items: {
+							type: Type.OBJECT,
+							properties: {
+								name: {
+									type: Type.STRING,
+								},
+								physicalDescription: {
+									type: Type.STRING,
+								},
+								personality: {
+									type: Type.STRING,
+								},
+								role: {
+									type: Type.STRING,
+								},
+							},
+							propertyOrdering: [
+								"name",
+								"physicalDescription",
+								"personality",
+								"role",
+							],
+						},
+					},
+					setting: {
 						type: Type.OBJECT,
 						properties: {
-							title: {
+							timePeriod: {
 								type: Type.STRING,
 							},
-							characters: {
-								type: Type.ARRAY,
-								items: {
-									type: Type.OBJECT,
-									properties: {
-										name: {
-											type: Type.STRING,
-										},
-										physicalDescription: {
-											type: Type.STRING,
-										},
-										personality: {
-											type: Type.STRING,
-										},
-										role: {
-											type: Type.STRING,
-										},
-									},
-									propertyOrdering: [
-										"name",
-										"physicalDescription",
-										"personality",
-										"role",
-									],
-								},
+							location: {
+								type: Type.STRING,
 							},
-							setting: {
-								type: Type.OBJECT,
-								properties: {
-									timePeriod: {
-										type: Type.STRING,
-									},
-									location: {
-										type: Type.STRING,
-									},
-									mood: {
-										type: Type.STRING,
-									},
+							mood: {
+								type: Type.STRING,
+							},
+						},
+						propertyOrdering: ["timePeriod", "location", "mood"],
+					},
+					locations: {
+						type: Type.ARRAY,
+						items: {
+							type: Type.OBJECT,
+							properties: {
+								id: {
+									type: Type.STRING,
+								},
+								name: {
+									type: Type.STRING,
+								},
+								description: {
+									type: Type.STRING,
 								},
-								propertyOrdering: ["timePeriod", "location", "mood"],
 							},
+							propertyOrdering: ["id", "name", "description"],
 						},
-						propertyOrdering: ["title", "characters", "setting"],
 					},
-				},
-				(result) => {
-					storyAnalysisLogger.debug(
-						{
-							response_length: (result as { text?: string })?.text?.length || 0,
+					props: {
+						type: Type.ARRAY,
+						items: {
+							type: Type.OBJECT,
+							properties: {
+								name: {
+									type: Type.STRING,
+								},
+								description: {
+									type: Type.STRING,
+								},
+							},
+							propertyOrdering: ["name", "description"],
 						},
-						"Received response from Gemini API",
-					);
-					return (result as { text?: string })?.text || "";
-				},
-				storyAnalysisLogger,
-				"text",
-				{
-					prompt_length: prompt.length,
-				},
-				// Bedrock fallback parameters
-				{
-					prompt: prompt,
-					maxTokens: 4096,
-					temperature: 0.7,
+					},
 				},
-			);
+				propertyOrdering: [
+					"title",
+					"characters",
+					"setting",
+					"locations",
+					"props",
+				],
+			},
+		};
+		const context = {
+			prompt_length: prompt.text.length,
+			prompt_template: prompt.template.id,
+			prompt_version: prompt.template.version,
+		};
 
-			// Handle response based on source
-			if (typeof response === "object" && "source" in response) {
-				// Response from Bedrock or Gemini with source info
-				const apiResponse = response as ApiResponse<string>;
-				storyAnalysisLogger.info(
-					{
-						source: apiResponse.source,
+		if (stream) {
+			return createEventStreamResponse(async (send) => {
+				const parser = new IncrementalJSONParser<AnalysisData>();
+				let lastPartial = "";
+
+				const handlers = {
+					onText: (delta: string) => {
+						const partial = parser.push(delta);
+						const serialized = JSON.stringify(partial);
+						if (partial && serialized !== lastPartial) {
+							lastPartial = serialized;
+							send("partial", { analysis: partial });
+						}
 					},
-					`Story analysis completed using ${apiResponse.source}`,
-				);
-				text = apiResponse.result;
-			} else {
-				// Direct response from Gemini (backward compatibility)
-				text = response as string;
-				storyAnalysisLogger.info(
-					{
-						source: "gemini",
+					onRestart: () => {
+						parser.reset();
+						lastPartial = "";
+						send("restart", {});
 					},
-					"Story analysis completed using gemini",
-				);
-			}
-		} catch (error) {
-			logError(storyAnalysisLogger, error, "story analysis");
-			logApiResponse(
-				storyAnalysisLogger,
-				endpoint,
-				false,
-				Date.now() - startTime,
-				{ error: "Gemini API call failed" },
-			);
-			return NextResponse.json(
-				{ error: "Failed to analyze story" },
-				{ status: 500 },
-			);
-		}
+				};
 
-		// Parse JSON response
-		let analysisData: AnalysisData;
-		try {
-			analysisData = parseGeminiJSON<AnalysisData>(text);
-			storyAnalysisLogger.info(
-				{
-					characters_count: analysisData.characters.length,
-					has_setting: !!analysisData.setting,
-				},
-				"Successfully parsed story analysis",
-			);
-		} catch (parseError) {
-			logError(storyAnalysisLogger, parseError, "JSON parsing", {
-				response_text: text?.substring(0, 1000),
+				const { status, body } = await completeAnalysis(
+					(request, attempt, isValid) => {
+						// A repair is streamed from scratch
+						if (attempt > 1) handlers.onRestart();
+						return streamText(request, storyAnalysisLogger, context, handlers, {
+							...options,
+							cacheIf: isValid,
+						});
+					},
+					generationRequest,
+					startTime,
+					wordCount,
+					prompt.template,
+					warnings,
+					!!longStory,
+				);
+				send(status === 200 ? "complete" : "error", body);
 			});
-			logApiResponse(
-				storyAnalysisLogger,
-				endpoint,
-				false,
-				Date.now() - startTime,
-				{
-					error: "JSON parsing failed",
-					response_preview: text?.substring(0, 200),
-				},
-			);
-			return NextResponse.json(
-				{ error: "Failed to parse story analysis" },
-				{ status: 500 },
-			);
 		}
 
-		logApiResponse(
-			storyAnalysisLogger,
-			endpoint,
-			true,
-			Date.now() - startTime,
-			{
-				characters_count: analysisData.characters.length,
-				word_count: wordCount,
-			},
-		);
-
-		return NextResponse.json({
-			success: true,
-			analysis: analysisData,
+		const { status, body } = await completeAnalysis(
+			(request, _attempt, isValid) =>
+				generateText(request, storyAnalysisLogger, context, {
+					...options,
+					cacheIf: isValid,
+				}),
+			generationRequest,
+			startTime,
 			wordCount,
-		});
+			prompt.template,
+			warnings,
+			!!longStory,
+		);
+		return NextResponse.json(body, { status });
 	} catch (error) {
 		logError(storyAnalysisLogger, error, "story analysis");
 		logApiResponse(
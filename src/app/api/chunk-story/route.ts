@@ -1,30 +1,239 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { type NextRequest, NextResponse } from "next/server";
-import { getGoogleAiApiKey } from "@/lib/api-keys";
-import { type ApiResponse, callGeminiWithRetry } from "@/lib/gemini-helper";
-import { parseGeminiJSON } from "@/lib/json-parser";
+import { PANEL_ASPECT_RATIOS } from "@/lib/aspect-ratio";
+import { createEventStreamResponse } from "@/lib/event-stream";
+import { parseFountain, type ScriptPanel } from "@/lib/fountain";
+import { IncrementalJSONParser, type PartialJSON } from "@/lib/json-parser";
+import type { StoryLocation } from "@/lib/locations";
 import {
 	logApiRequest,
 	logApiResponse,
 	logError,
 	storyChunkingLogger,
 } from "@/lib/logger";
+import { ContentBlockedError, getContentBlockedBody } from "@/lib/moderation";
+import { renderPrompt } from "@/lib/prompts";
+import { normalizeComicStyle } from "@/lib/prompts/fragments";
+import { detectInstructionLikeContent } from "@/lib/prompts/safety";
+import { generateText, streamText } from "@/lib/providers/registry";
+import type { ApiResponse, TextGenerationRequest } from "@/lib/providers/types";
+import {
+	type ValidationResult,
+	validatePanelDirections,
+	validateStoryBreakdown,
+} from "@/lib/schemas";
+import type { StoryProp } from "@/lib/story-props";
+import {
+	generateValidated,
+	OutputValidationError,
+	type ValidatedResponse,
+} from "@/lib/structured-output";
+import type {
+	PromptInjectionWarning,
+	PromptTemplateRef,
+	StoryBreakdown,
+} from "@/types";
+
+type BreakdownData = Omit<StoryBreakdown, "promptTemplate">;
 
-interface Panel {
-	panelNumber: number;
-	characters: string[];
-	sceneDescription: string;
-	dialogue: string;
-	cameraAngle: string;
-	visualMood: string;
+// Panels a single screenplay layout may have; longer scripts are laid out
+// chapter by chapter in long story mode
+const MAX_SCREENPLAY_PANELS = 60;
+
+/**
+ * The panel property naming the panel's location, limited to the story's
+ * location ids. Analyses from before stories had several locations have none.
+ */
+function locationIdSchema(locationIds: string[]) {
+	return locationIds.length > 0
+		? { locationId: { type: Type.STRING, enum: locationIds } }
+		: {};
+}
+
+/**
+ * The panel property listing the key props it shows, limited to the story's
+ * prop names. Analyses from before props were tracked have none.
+ */
+function propsSchema(propNames: string[]) {
+	return propNames.length > 0
+		? {
+				props: {
+					type: Type.ARRAY,
+					items: { type: Type.STRING, enum: propNames },
+				},
+			}
+		: {};
+}
+
+/**
+ * Asks for the camera angle, mood and location of each panel taken from a
+ * screenplay
+ */
+function buildDirectionRequest(
+	prompt: string,
+	panels: ScriptPanel[],
+	locationIds: string[],
+): TextGenerationRequest {
+	return {
+		prompt,
+		task: {
+			kind: "panel-direction",
+			sceneDescriptions: panels.map((panel) => panel.sceneDescription),
+			locationIds,
+		},
+		responseSchema: {
+			type: Type.OBJECT,
+			properties: {
+				panels: {
+					type: Type.ARRAY,
+					items: {
+						type: Type.OBJECT,
+						properties: {
+							panelNumber: {
+								type: Type.NUMBER,
+							},
+							cameraAngle: {
+								type: Type.STRING,
+							},
+							visualMood: {
+								type: Type.STRING,
+							},
+							...locationIdSchema(locationIds),
+						},
+						propertyOrdering: [
+							"panelNumber",
+							"cameraAngle",
+							"visualMood",
+							...(locationIds.length > 0 ? ["locationId"] : []),
+						],
+					},
+				},
+			},
+			propertyOrdering: ["panels"],
+		},
+	};
 }
 
-interface StoryBreakdown {
-	panels: Panel[];
+/**
+ * Screenplay panels with whatever directions have streamed in so far
+ */
+function withPartialDirections(
+	panels: ScriptPanel[],
+	partial: PartialJSON<BreakdownData> | undefined,
+) {
+	return {
+		panels: panels.map((panel, index) => ({
+			...panel,
+			...partial?.panels?.[index],
+			panelNumber: panel.panelNumber,
+		})),
+	};
 }
 
-const genAI = new GoogleGenAI({ apiKey: getGoogleAiApiKey(true) });
-// Model will be determined dynamically by callGeminiWithRetry
+/**
+ * Runs the breakdown call with validation and repairs, and logs the outcome.
+ * Shared by the JSON and the streaming (SSE) variants of the endpoint.
+ */
+async function completeBreakdown(
+	generate: (
+		request: TextGenerationRequest,
+		attempt: number,
+		isValid: (text: string) => boolean,
+	) => Promise<ApiResponse<string>>,
+	generationRequest: TextGenerationRequest,
+	validate: (value: unknown) => ValidationResult<BreakdownData>,
+	startTime: number,
+	promptTemplate: PromptTemplateRef,
+	warnings: PromptInjectionWarning[],
+): Promise<{ status: number; body: Record<string, unknown> }> {
+	const endpoint = "/api/chunk-story";
+
+	let response: ValidatedResponse<BreakdownData>;
+	try {
+		response = await generateValidated(
+			generationRequest,
+			generate,
+			validate,
+			storyChunkingLogger,
+		);
+
+		storyChunkingLogger.info(
+			{
+				source: response.source,
+				cached: response.cached,
+				total_panels: response.result.panels.length,
+			},
+			`Story chunking completed using ${response.source}`,
+		);
+	} catch (error) {
+		if (error instanceof ContentBlockedError) {
+			logApiResponse(
+				storyChunkingLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{
+					error: "Blocked by safety filters",
+				},
+			);
+			return { status: 422, body: getContentBlockedBody(error) };
+		}
+		if (error instanceof OutputValidationError) {
+			logApiResponse(
+				storyChunkingLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{ error: "Invalid model output", attempts: error.attempts },
+			);
+			return {
+				status: 502,
+				body: {
+					error: "The model's story breakdown didn't match the expected format",
+					code: error.code,
+					issues: error.issues,
+				},
+			};
+		}
+
+		logError(storyChunkingLogger, error, "story chunking");
+		logApiResponse(
+			storyChunkingLogger,
+			endpoint,
+			false,
+			Date.now() - startTime,
+			{ error: "Text generation failed" },
+		);
+		return { status: 500, body: { error: "Failed to chunk story" } };
+	}
+
+	const { result: storyBreakdown, usage, repairs, truncated } = response;
+	if (truncated) {
+		storyChunkingLogger.warn(
+			{ panels_salvaged: storyBreakdown.panels.length },
+			"Breakdown output was truncated, keeping its complete panels",
+		);
+	}
+	logApiResponse(storyChunkingLogger, endpoint, true, Date.now() - startTime, {
+		panels_generated: storyBreakdown.panels.length,
+		estimated_cost_usd: usage.estimatedCostUsd,
+	});
+
+	return {
+		status: 200,
+		body: {
+			success: true,
+			storyBreakdown: {
+				...storyBreakdown,
+				promptTemplate,
+				...(truncated ? { truncated } : {}),
+			},
+			usage,
+			warnings,
+			repairs,
+		},
+	};
+}
 
 export async function POST(request: NextRequest) {
 	const startTime = Date.now();
@@ -33,8 +242,20 @@ export async function POST(request: NextRequest) {
 	logApiRequest(storyChunkingLogger, endpoint);
 
 	try {
-		const { story, characters, setting, style, noDialogue } =
-			await request.json();
+		const {
+			story,
+			characters,
+			setting,
+			locations,
+			props,
+			style,
+			noDialogue,
+			screenplay,
+			stream,
+			bypassCache,
+		} = await request.json();
+		// Set by the re-run buttons, which ask for a fresh layout
+		const options = { bypassCache: !!bypassCache };
 
 		storyChunkingLogger.debug(
 			{
@@ -42,7 +263,11 @@ export async function POST(request: NextRequest) {
 				characters_count: characters?.length || 0,
 				style,
 				setting: !!setting,
+				locations_count: Array.isArray(locations) ? locations.length : 0,
+				props_count: Array.isArray(props) ? props.length : 0,
 				noDialogue: !!noDialogue,
+				screenplay: !!screenplay,
+				stream: !!stream,
 			},
 			"Received story chunking request",
 		);
@@ -70,78 +295,113 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		const characterNames = characters
-			.map((c: { name: string }) => c.name)
-			.join(", ");
+		const characterNames: string[] = characters.map(
+			(c: { name: string }) => c.name,
+		);
+		// Optional, so layouts can still be made from older analyses
+		const storyLocations: StoryLocation[] = Array.isArray(locations)
+			? locations
+			: [];
+		const locationIds = storyLocations.map((location) => location.id);
+		const storyProps: StoryProp[] = Array.isArray(props) ? props : [];
+		const propNames = storyProps.map((prop) => prop.name);
 
 		storyChunkingLogger.debug(
 			{
-				character_names: characterNames,
+				character_names: characterNames.join(", "),
 				layout_style: style,
 			},
 			"Extracted character names and determined layout style",
 		);
 
-		const layoutGuidance =
-			style === "manga"
-				? `
-Manga panel guidelines:
-- Dynamic panel shapes and sizes
-- Vertical emphasis for dramatic moments
-- Action lines and motion blur for movement
-- Close-ups for emotional beats
-- Wide shots for establishing scenes
-- Dramatic angles and perspectives
-`
-				: `
-American comic panel guidelines:
-- Rectangular panels with consistent borders
-- Wide establishing shots
-- Medium shots for dialogue
-- Close-ups for dramatic moments
-- Clean, structured compositions
-- Bold, clear visual storytelling
-`;
-
-		const prompt = `
-Break down this story into individual comic panels with detailed descriptions.
-
-Story: "${story}"
-Characters: ${characterNames}
-Setting: ${setting.location}, ${setting.timePeriod}, ${setting.mood}
-Style: ${style}
-
-${layoutGuidance}
-
-Create 2-15 panels based on the story's complexity and pacing needs. Choose the optimal number of panels to tell this story effectively - simple stories may need fewer panels (2-6), while complex narratives may require more (8-12).
-
-${
-	noDialogue
-		? `IMPORTANT: This is NO DIALOGUE MODE - do not include any dialogue, speech bubbles, or spoken words. Focus purely on visual storytelling through actions, expressions, and scene composition.`
-		: ""
-}
-
-For each panel, describe:
-- Characters present
-- Action/scene description${noDialogue ? " (emphasize visual storytelling without dialogue)" : ""}${!noDialogue ? "\n- Dialogue (if any)" : ""}
-- Camera angle (close-up, medium shot, wide shot, etc.)
-- Visual mood/atmosphere
+		const warnings = detectInstructionLikeContent({
+			story,
+			"character names": characterNames.join(", "),
+			"setting location": setting.location,
+			"setting time period": setting.timePeriod,
+			"setting mood": setting.mood,
+			locations: storyLocations
+				.map((location) => `${location.name}: ${location.description}`)
+				.join("\n"),
+			props: storyProps
+				.map((prop) => `${prop.name}: ${prop.description}`)
+				.join("\n"),
+		});
+		if (warnings.length > 0) {
+			storyChunkingLogger.warn(
+				{ warnings },
+				"Story contains instruction-like content",
+			);
+		}
 
-Return as a flat array of panels with sequential panel numbers.
-`;
+		// A screenplay already says what happens in each panel, so only the
+		// camera angles and moods are left to the model
+		const scriptPanels: ScriptPanel[] | null = screenplay
+			? parseFountain(story, characterNames).map(({ dialogue, ...panel }) =>
+					dialogue && !noDialogue ? { ...panel, dialogue } : panel,
+				)
+			: null;
+		if (
+			scriptPanels &&
+			(scriptPanels.length === 0 || scriptPanels.length > MAX_SCREENPLAY_PANELS)
+		) {
+			storyChunkingLogger.warn(
+				{ script_panels: scriptPanels.length },
+				"Screenplay has no panels or too many",
+			);
+			logApiResponse(
+				storyChunkingLogger,
+				endpoint,
+				false,
+				Date.now() - startTime,
+				{ error: "Invalid screenplay" },
+			);
+			return NextResponse.json(
+				{
+					error:
+						scriptPanels.length === 0
+							? "No scenes, action or dialogue found in the screenplay"
+							: `The screenplay makes ${scriptPanels.length} panels, at most ${MAX_SCREENPLAY_PANELS} can be laid out at once. Turn on Long Story Mode to lay it out section by section.`,
+				},
+				{ status: 400 },
+			);
+		}
 
-		let text: string;
-		try {
-			// Prepare Bedrock fallback parameters
+		const prompt = scriptPanels
+			? renderPrompt("panel-direction", {
+					panels: scriptPanels,
+					setting,
+					locations: storyLocations,
+					style: normalizeComicStyle(style),
+				})
+			: renderPrompt("story-breakdown", {
+					story,
+					characterNames,
+					setting,
+					locations: storyLocations,
+					props: storyProps,
+					style: normalizeComicStyle(style),
+					noDialogue: !!noDialogue,
+				});
+		const validate = scriptPanels
+			? (value: unknown) =>
+					validatePanelDirections(value, scriptPanels, locationIds)
+			: (value: unknown) =>
+					validateStoryBreakdown(value, characterNames, locationIds, propNames);
 
-			const response = await callGeminiWithRetry(
-				genAI,
-				prompt,
-				{
-					thinkingConfig: {
-						thinkingBudget: 8192, // Give model time to think through panel layout
+		const generationRequest: TextGenerationRequest = scriptPanels
+			? buildDirectionRequest(prompt.text, scriptPanels, locationIds)
+			: {
+					prompt: prompt.text,
+					task: {
+						kind: "story-breakdown",
+						story,
+						characterNames,
+						locationIds,
+						propNames,
+						noDialogue: !!noDialogue,
 					},
-					responseMimeType: "application/json",
+					thinkingBudget: 8192, // Give model time to think through panel layout
 					responseSchema: {
 						type: Type.OBJECT,
 						properties: {
@@ -171,6 +431,12 @@ Return as a flat array of panels with sequential panel numbers.
 										visualMood: {
 											type: Type.STRING,
 										},
+										aspectRatio: {
+											type: Type.STRING,
+											enum: [...PANEL_ASPECT_RATIOS],
+										},
+										...locationIdSchema(locationIds),
+										...propsSchema(propNames),
 									},
 									propertyOrdering: [
 										"panelNumber",
@@ -179,113 +445,79 @@ Return as a flat array of panels with sequential panel numbers.
 										"dialogue",
 										"cameraAngle",
 										"visualMood",
+										"aspectRatio",
+										...(locationIds.length > 0 ? ["locationId"] : []),
+										...(propNames.length > 0 ? ["props"] : []),
 									],
 								},
 							},
 						},
 						propertyOrdering: ["panels"],
 					},
-				},
-				(result) => {
-					storyChunkingLogger.debug(
-						{
-							response_length: (result as { text?: string })?.text?.length || 0,
-						},
-						"Received response from Gemini API",
-					);
-					return (result as { text?: string })?.text || "";
-				},
-				storyChunkingLogger,
-				"text",
-				{
-					prompt_length: prompt.length,
-					layout_guidance_type: style,
-				},
-				// Bedrock fallback parameters
-				{
-					prompt: prompt,
-					maxTokens: 4096,
-					temperature: 0.7,
-				},
-			);
+				};
+		const context = {
+			prompt_length: prompt.text.length,
+			prompt_template: prompt.template.id,
+			prompt_version: prompt.template.version,
+			layout_guidance_type: style,
+			...(scriptPanels ? { screenplay_panels: scriptPanels.length } : {}),
+		};
 
-			// Handle response based on source
-			if (typeof response === "object" && "source" in response) {
-				// Response from Bedrock or Gemini with source info
-				const apiResponse = response as ApiResponse<string>;
-				storyChunkingLogger.info(
-					{
-						source: apiResponse.source,
+		if (stream) {
+			return createEventStreamResponse(async (send) => {
+				const parser = new IncrementalJSONParser<BreakdownData>();
+				let lastPartial = "";
+				const handlers = {
+					onText: (delta: string) => {
+						const parsed = parser.push(delta);
+						const partial = scriptPanels
+							? withPartialDirections(scriptPanels, parsed)
+							: parsed;
+						const serialized = JSON.stringify(partial);
+						if (partial && serialized !== lastPartial) {
+							lastPartial = serialized;
+							send("partial", { storyBreakdown: partial });
+						}
 					},
-					`Story chunking completed using ${apiResponse.source}`,
-				);
-				text = apiResponse.result;
-			} else {
-				// Direct response from Gemini (backward compatibility)
-				text = response as string;
-				storyChunkingLogger.info(
-					{
-						source: "gemini",
+					onRestart: () => {
+						parser.reset();
+						lastPartial = "";
+						send("restart", {});
 					},
-					"Story chunking completed using gemini",
-				);
-			}
-		} catch (error) {
-			logError(storyChunkingLogger, error, "story chunking");
-			logApiResponse(
-				storyChunkingLogger,
-				endpoint,
-				false,
-				Date.now() - startTime,
-				{ error: "Gemini API call failed" },
-			);
-			return NextResponse.json(
-				{ error: "Failed to chunk story" },
-				{ status: 500 },
-			);
-		}
+				};
 
-		// Parse JSON response
-		let storyBreakdown: StoryBreakdown;
-		try {
-			storyBreakdown = parseGeminiJSON<StoryBreakdown>(text);
-			storyChunkingLogger.info(
-				{
-					total_panels: storyBreakdown.panels.length,
-				},
-				"Successfully parsed story breakdown",
-			);
-		} catch (parseError) {
-			logError(storyChunkingLogger, parseError, "JSON parsing", {
-				response_text: text?.substring(0, 1000),
+				const { status, body } = await completeBreakdown(
+					(request, attempt, isValid) => {
+						// A repair is streamed from scratch
+						if (attempt > 1) handlers.onRestart();
+						return streamText(request, storyChunkingLogger, context, handlers, {
+							...options,
+							cacheIf: isValid,
+						});
+					},
+					generationRequest,
+					validate,
+					startTime,
+					prompt.template,
+					warnings,
+				);
+				send(status === 200 ? "complete" : "error", body);
 			});
-			logApiResponse(
-				storyChunkingLogger,
-				endpoint,
-				false,
-				Date.now() - startTime,
-				{ error: "JSON parsing failed" },
-			);
-			return NextResponse.json(
-				{ error: "Failed to parse story breakdown" },
-				{ status: 500 },
-			);
 		}
 
-		logApiResponse(
-			storyChunkingLogger,
-			endpoint,
-			true,
-			Date.now() - startTime,
-			{
-				panels_generated: storyBreakdown.panels.length,
-			},
+		const { status, body } = await completeBreakdown(
+			(request, _attempt, isValid) =>
+				generateText(request, storyChunkingLogger, context, {
+					...options,
+					cacheIf: isValid,
+				}),
+			generationRequest,
+			validate,
+			startTime,
+			prompt.template,
+			warnings,
 		);
-
-		return NextResponse.json({
-			success: true,
-			storyBreakdown,
-		});
+		return NextResponse.json(body, { status });
 	} catch (error) {
 		logError(storyChunkingLogger, error, "story chunking");
 		logApiResponse(
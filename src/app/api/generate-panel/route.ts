@@ -1,29 +1,33 @@
-import { GoogleGenAI } from "@google/genai";
 import { type NextRequest, NextResponse } from "next/server";
-import { getGoogleAiApiKey } from "@/lib/api-keys";
-import { prepareImageForBedrock } from "@/lib/bedrock-helper";
-import { type ApiResponse, callGeminiWithRetry } from "@/lib/gemini-helper";
+import { normalizeAspectRatio } from "@/lib/aspect-ratio";
+import {
+	getImageGenerationMetadata,
+	readCandidateCount,
+	readSeed,
+} from "@/lib/image-metadata";
+import {
+	findPanelLocation,
+	type StoryLocation,
+	selectSettingReferences,
+} from "@/lib/locations";
 import {
 	logApiRequest,
 	logApiResponse,
 	logError,
 	panelLogger,
 } from "@/lib/logger";
-
-const genAI = new GoogleGenAI({ apiKey: getGoogleAiApiKey(false) });
-// Model will be determined dynamically by callGeminiWithRetry
-
-// Helper function to convert base64 to format expected by Gemini
-function prepareImageForGemini(base64Image: string) {
-	// Remove data:image/xxx;base64, prefix if present
-	const base64Data = base64Image.replace(/^data:image\/[^;]+;base64,/, "");
-	return {
-		inlineData: {
-			data: base64Data,
-			mimeType: "image/jpeg",
-		},
-	};
-}
+import {
+	ContentBlockedError,
+	getContentBlockedBody,
+	screenContent,
+} from "@/lib/moderation";
+import { renderPrompt } from "@/lib/prompts";
+import { normalizeComicStyle } from "@/lib/prompts/fragments";
+import { detectInstructionLikeContent } from "@/lib/prompts/safety";
+import { generateImage } from "@/lib/providers/registry";
+import type { ApiResponse, GeneratedImage } from "@/lib/providers/types";
+import { findPanelProps, type StoryProp } from "@/lib/story-props";
+import { addUsage } from "@/lib/usage";
 
 export async function POST(request: NextRequest) {
 	const startTime = Date.now();
@@ -36,9 +40,15 @@ export async function POST(request: NextRequest) {
 			panel,
 			characterReferences,
 			setting,
+			locations,
+			props,
+			propReferences = [],
 			style,
 			noDialogue = false,
-			uploadedSettingReferences = [],
+			uploadedSettingReferences: allSettingReferences = [],
+			seed,
+			candidates,
+			bypassCache,
 		} = await request.json();
 
 		panelLogger.debug(
@@ -46,9 +56,12 @@ export async function POST(request: NextRequest) {
 				panel_number: panel?.panelNumber,
 				characters: panel?.characters,
 				character_refs_count: characterReferences?.length || 0,
-				uploaded_setting_refs_count: uploadedSettingReferences?.length || 0,
+				uploaded_setting_refs_count: allSettingReferences?.length || 0,
+				prop_refs_count: propReferences?.length || 0,
+				location_id: panel?.locationId,
 				style,
 				noDialogue,
+				seed,
 			},
 			"Received panel generation request",
 		);
@@ -74,294 +87,232 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		const stylePrefix =
-			style === "manga"
-				? "Japanese manga visual style (black and white with screentones), but with English text"
-				: "American comic book style, full color, clean line art";
-
 		// Process single panel
 		panelLogger.debug(
 			{
 				panel_number: panel.panelNumber,
 				camera_angle: panel.cameraAngle,
-				style_prefix: `${stylePrefix.substring(0, 50)}...`,
+				aspect_ratio: panel.aspectRatio,
 			},
 			"Processing single panel",
 		);
 
-		const charactersInPanel = panel.characters
-			.map((charName: string) => {
-				const charRef = characterReferences.find(
-					(ref: { name: string; image?: string }) => ref.name === charName,
-				);
-				return charRef
-					? `${charName} (matching the character design shown in reference image)`
-					: charName;
-			})
-			.join(" and ");
-
-		let prompt = `
-Create a single comic panel in ${stylePrefix}.
-
-Setting: ${setting.location}, ${setting.timePeriod}, mood: ${setting.mood}
-
-Panel Details:
-Panel ${panel.panelNumber}: ${panel.cameraAngle} shot of ${charactersInPanel}. Scene: ${panel.sceneDescription}. ${noDialogue ? "NO DIALOGUE MODE - Focus on pure visual storytelling." : panel.dialogue ? `Dialogue: "${panel.dialogue}"` : "No dialogue."}. Mood: ${panel.visualMood}.
-
-IMPORTANT: Use the character reference images provided to maintain visual consistency. Each character should match their appearance from the reference images exactly.
-`;
+		const aspectRatio = normalizeAspectRatio(panel.aspectRatio);
+
+		// Panels are drawn in their own location, with the setting references
+		// bound to it and those bound to no location
+		const storyLocations: StoryLocation[] = Array.isArray(locations)
+			? locations
+			: [];
+		const location = findPanelLocation(storyLocations, panel.locationId);
+		const uploadedSettingReferences: { id: string; image?: string }[] =
+			selectSettingReferences(allSettingReferences, storyLocations, location);
+
+		// Props are drawn from their reference images in the panels that show them
+		const storyProps: StoryProp[] = Array.isArray(props) ? props : [];
+		const panelProps = findPanelProps(storyProps, panel);
+		const propsWithImages: { name: string; image: string }[] = (
+			propReferences as { name: string; image?: string }[]
+		).flatMap(({ name, image }) =>
+			image && panelProps.some((prop) => prop.name === name)
+				? [{ name, image }]
+				: [],
+		);
 
-		// Add setting reference instructions if available
-		if (uploadedSettingReferences.length > 0) {
-			prompt += `
-IMPORTANT: Use the provided setting/environment reference images to guide the visual style, atmosphere, and environmental details of this panel. Incorporate the visual elements, lighting, and mood shown in the setting references while adapting them to the ${stylePrefix} aesthetic.
-`;
+		const warnings = detectInstructionLikeContent({
+			[`panel ${panel.panelNumber} scene`]: [
+				panel.sceneDescription,
+				panel.cameraAngle,
+				panel.visualMood,
+				...panel.characters,
+			].join("\n"),
+			[`panel ${panel.panelNumber} dialogue`]: panel.dialogue,
+			setting: [setting.location, setting.timePeriod, setting.mood].join("\n"),
+			...(location
+				? { location: `${location.name}\n${location.description}` }
+				: {}),
+			...(panelProps.length > 0
+				? {
+						props: panelProps
+							.map((prop) => `${prop.name}\n${prop.description}`)
+							.join("\n"),
+					}
+				: {}),
+		});
+		if (warnings.length > 0) {
+			panelLogger.warn(
+				{ panel_number: panel.panelNumber, warnings },
+				"Panel details contain instruction-like content",
+			);
 		}
 
-		prompt += `
-The panel should include:
-- Clear panel border
-${
-	noDialogue
-		? `- NO speech bubbles or dialogue text - pure visual storytelling only
-- Emphasize character expressions, body language, and visual details
-- Environmental storytelling without any text or speech`
-		: `- Speech bubbles with dialogue text (if any) - IMPORTANT: If dialogue includes character attribution like "Character: 'text'", only put the spoken text in the speech bubble, NOT the character name
-- Thought bubbles if needed`
-}
-- Sound effects where appropriate
-- Consistent character designs matching the references
-
-Generate a single comic panel image with proper framing and composition.
-`;
-
-		// Prepare reference images for input
-		const inputParts: Array<
-			{ text: string } | { inlineData: { data: string; mimeType: string } }
-		> = [{ text: prompt }];
-
-		// Add character reference images
-		characterReferences.forEach((charRef: { name: string; image?: string }) => {
-			if (charRef.image) {
-				inputParts.push(prepareImageForGemini(charRef.image));
-			}
-		});
+		try {
+			screenContent(
+				{
+					[`panel ${panel.panelNumber} scene`]: panel.sceneDescription,
+					[`panel ${panel.panelNumber} dialogue`]: panel.dialogue,
+				},
+				panelLogger,
+				{ panel_number: panel.panelNumber },
+			);
+		} catch (error) {
+			if (!(error instanceof ContentBlockedError)) throw error;
+			logApiResponse(panelLogger, endpoint, false, Date.now() - startTime, {
+				error: "Blocked by moderation",
+				panel_number: panel.panelNumber,
+			});
+			return NextResponse.json(getContentBlockedBody(error), { status: 422 });
+		}
 
-		// Add uploaded setting reference images
-		uploadedSettingReferences.forEach((settingRef: { image?: string }) => {
-			if (settingRef.image) {
-				inputParts.push(prepareImageForGemini(settingRef.image));
-			}
-		});
+		const promptVariables = {
+			style: normalizeComicStyle(style),
+			setting,
+			location,
+			props: panelProps,
+			propsWithReferences: propsWithImages.map((prop) => prop.name),
+			panel,
+			charactersWithReferences: characterReferences.map(
+				(ref: { name: string }) => ref.name,
+			),
+			aspectRatio,
+			noDialogue,
+			hasSettingReferences: uploadedSettingReferences.length > 0,
+		};
+		const prompt = renderPrompt("panel", promptVariables);
+		const shortPrompt = renderPrompt("short-panel", promptVariables);
+
+		// Character references first, then prop references, then uploaded
+		// setting references
+		const charactersWithImages: { name: string; image: string }[] =
+			characterReferences.filter(
+				(charRef: { image?: string }) => charRef.image,
+			);
+		const referenceImages: string[] = [
+			...charactersWithImages.map((charRef) => charRef.image),
+			...propsWithImages.map((propRef) => propRef.image),
+			...uploadedSettingReferences.flatMap((settingRef) =>
+				settingRef.image ? [settingRef.image] : [],
+			),
+		];
+
+		// The first character in the panel that has a reference, used by
+		// providers that start from a single image
+		const primaryReference = (panel.characters as string[])
+			.map((name) =>
+				charactersWithImages.findIndex((charRef) => charRef.name === name),
+			)
+			.find((index) => index !== -1);
+
+		// Reusing a previous seed reproduces the panel (given the same provider)
+		const requestedSeed = readSeed(seed);
+		const candidateCount = readCandidateCount(candidates);
 
 		panelLogger.info(
 			{
 				panel_number: panel.panelNumber,
-				prompt_length: prompt.length,
+				prompt_length: prompt.text.length,
+				prompt_template: prompt.template.id,
+				prompt_version: prompt.template.version,
 				character_refs_attached: characterReferences.length,
 				uploaded_setting_refs_attached: uploadedSettingReferences.length,
-				input_parts_count: inputParts.length,
+				prop_refs_attached: propsWithImages.length,
+				reference_images_count: referenceImages.length,
+				primary_reference: primaryReference,
+				candidates: candidateCount,
 			},
-			"Calling Gemini API for panel generation",
+			"Starting panel generation",
 		);
 
 		try {
-			// Prepare Bedrock fallback parameters
-			const bedrockMessages = [
-				{
-					role: "user",
-					content: [
-						{ type: "text", text: prompt },
-						// Add images for Bedrock
-						...characterReferences
-							.filter((charRef: { image?: string }) => charRef.image)
-							.map((charRef: { image: string }) => ({
-								type: "image",
-								image: prepareImageForBedrock(charRef.image),
-							})),
-						...uploadedSettingReferences
-							.filter((settingRef: { image?: string }) => settingRef.image)
-							.map((settingRef: { image: string }) => ({
-								type: "image",
-								image: prepareImageForBedrock(settingRef.image),
-							})),
-					],
-				},
-			];
-
-			const response = await callGeminiWithRetry(
-				genAI,
-				inputParts,
-				undefined, // No config needed for image generation
-				(result) => {
-					panelLogger.debug(
+			const responses: ApiResponse<GeneratedImage>[] = [];
+			for (let candidate = 0; candidate < candidateCount; candidate++) {
+				try {
+					const response = await generateImage(
+						{
+							prompt: prompt.text,
+							shortPrompt: shortPrompt.text,
+							referenceImages,
+							...(primaryReference !== undefined ? { primaryReference } : {}),
+							task: {
+								kind: "panel",
+								panelNumber: panel.panelNumber,
+								sceneDescription: panel.sceneDescription,
+							},
+							// Only the first candidate reproduces a requested seed
+							...(requestedSeed !== undefined && candidate === 0
+								? { seed: requestedSeed }
+								: {}),
+							aspectRatio,
+						},
+						panelLogger,
 						{
 							panel_number: panel.panelNumber,
+							candidate,
+							prompt_length: prompt.text.length,
+							character_refs_attached: characterReferences.length,
+							uploaded_setting_refs_attached: uploadedSettingReferences.length,
+							prop_refs_attached: propsWithImages.length,
 						},
-						"Received response from Gemini API",
+						{ bypassCache: !!bypassCache, candidate },
 					);
+					responses.push(response);
 
-					// Process the response following the official pattern
-					const candidate = (
-						result as {
-							candidates?: Array<{
-								finishReason?: string;
-								content?: {
-									parts?: Array<{
-										text?: string;
-										inlineData?: { mimeType: string; data: string };
-									}>;
-								};
-							}>;
-						}
-					)?.candidates?.[0];
-
-					// Check for prohibited content finish reason
-					if (candidate?.finishReason === "PROHIBITED_CONTENT") {
-						panelLogger.warn(
-							{
-								panel_number: panel.panelNumber,
-								finish_reason: candidate.finishReason,
-							},
-							"Content blocked by safety filters",
-						);
-						throw new Error(
-							"PROHIBITED_CONTENT: Your content was blocked by Gemini safety filters.",
-							{ cause: result },
-						);
-					}
-
-					if (!candidate?.content?.parts) {
-						throw new Error("No content parts received", { cause: result });
-					}
-
-					for (const part of candidate.content.parts) {
-						if (part.text) {
-							panelLogger.info(
-								{
-									panel_number: panel.panelNumber,
-									text_response: part.text,
-									text_length: part.text.length,
-								},
-								"Received text response from model (full content)",
-							);
-						} else if (part.inlineData) {
-							const imageData = part.inlineData.data;
-							const mimeType = part.inlineData.mimeType || "image/jpeg";
-
-							panelLogger.info(
-								{
-									panel_number: panel.panelNumber,
-									mime_type: mimeType,
-									image_size_kb: imageData
-										? Math.round((imageData.length * 0.75) / 1024)
-										: 0,
-									duration_ms: Date.now() - startTime,
-								},
-								"Successfully generated panel",
-							);
-
-							return {
-								panelNumber: panel.panelNumber,
-								image: `data:${mimeType};base64,${imageData}`,
-								imageData, // For logging
-								mimeType, // For logging
-							};
-						}
-					}
-
-					throw new Error("No image data received in response parts");
-				},
-				panelLogger,
-				"image",
-				{
-					panel_number: panel.panelNumber,
-					prompt_length: prompt.length,
-					character_refs_attached: characterReferences.length,
-					uploaded_setting_refs_attached: uploadedSettingReferences.length,
-					input_parts_count: inputParts.length,
-				},
-				// Bedrock fallback parameters
-				{
-					messages: bedrockMessages,
-					maxTokens: 4096,
-					temperature: 0.7,
-				},
-			);
-
-			// Handle response based on source
-			interface GeneratedPanel {
-				panelNumber: number;
-				image: string;
-				imageData?: string | undefined;
-				mimeType?: string | undefined;
-			}
-
-			let generatedPanel: GeneratedPanel;
-			if (typeof response === "object" && "source" in response) {
-				// Response from Bedrock fallback
-				const apiResponse = response as ApiResponse<GeneratedPanel>;
-				panelLogger.info(
-					{
-						panel_number: panel.panelNumber,
-						source: apiResponse.source,
-						duration_ms: Date.now() - startTime,
-					},
-					`Panel generated using ${apiResponse.source}`,
-				);
-
-				if (apiResponse.source === "bedrock") {
-					// Handle Stability AI response
-					const stabilityResult = apiResponse.result;
-					if (
-						typeof stabilityResult === "object" &&
-						stabilityResult !== null &&
-						"image" in stabilityResult &&
-						typeof stabilityResult.image === "string"
-					) {
-						// Stability AI returned an image
-						generatedPanel = {
-							panelNumber: panel.panelNumber,
-							image: stabilityResult.image,
-						};
-					} else {
-						throw new Error(
-							"Unexpected Bedrock response format for image generation",
-						);
-					}
-				} else {
-					generatedPanel = apiResponse.result;
+					panelLogger.info(
+						{
+							panel_number: panel.panelNumber,
+							candidate,
+							source: response.source,
+							cached: response.cached,
+							model: response.model,
+							seed: response.result.seed,
+							duration_ms: Date.now() - startTime,
+						},
+						`Panel generated using ${response.source}`,
+					);
+				} catch (error) {
+					// Extra candidates are optional, so keep the ones already generated
+					if (responses.length === 0) throw error;
+					panelLogger.warn(
+						{
+							panel_number: panel.panelNumber,
+							candidate,
+							error_message:
+								error instanceof Error ? error.message : "Unknown error",
+						},
+						"Candidate generation failed, returning the candidates so far",
+					);
+					break;
 				}
-			} else {
-				// Direct response from Gemini
-				generatedPanel = response;
-				panelLogger.info(
-					{
-						panel_number: panel.panelNumber,
-						source: "gemini",
-						duration_ms: Date.now() - startTime,
-					},
-					"Panel generated using gemini",
-				);
 			}
 
+			const generated = responses.map((response) => ({
+				image: response.result.image,
+				generation: getImageGenerationMetadata(response, prompt, shortPrompt),
+			}));
+			const usage = addUsage(...responses.map((response) => response.usage));
+
 			logApiResponse(panelLogger, endpoint, true, Date.now() - startTime, {
-				panel_number: generatedPanel.panelNumber,
-				image_size_kb: generatedPanel.imageData
-					? Math.round((generatedPanel.imageData.length * 0.75) / 1024)
-					: 0,
-				source:
-					typeof response === "object" && "source" in response
-						? (response as ApiResponse<GeneratedPanel>).source
-						: "gemini",
+				panel_number: panel.panelNumber,
+				candidates: generated.length,
+				image_size_kb: Math.round(
+					generated.reduce(
+						(sum, candidate) => sum + candidate.image.length * 0.75,
+						0,
+					) / 1024,
+				),
+				sources: responses.map((response) => response.source),
+				estimated_cost_usd: usage.estimatedCostUsd,
 			});
 
 			return NextResponse.json({
 				success: true,
 				generatedPanel: {
-					panelNumber: generatedPanel.panelNumber,
-					image: generatedPanel.image,
+					panelNumber: panel.panelNumber,
+					...generated[0],
+					...(generated.length > 1 ? { candidates: generated } : {}),
 				},
+				usage,
+				warnings,
 			});
 		} catch (error) {
 			logError(panelLogger, error, "panel generation", {
@@ -373,18 +324,11 @@ Generate a single comic panel image with proper framing and composition.
 				panel_number: panel.panelNumber,
 			});
 
-			// Handle prohibited content with appropriate status and message
-			if (
-				error instanceof Error &&
-				error.message.startsWith("PROHIBITED_CONTENT:")
-			) {
-				return NextResponse.json(
-					{
-						error: error.message.replace("PROHIBITED_CONTENT: ", ""),
-						errorType: "PROHIBITED_CONTENT",
-					},
-					{ status: 400 },
-				);
+			// The client offers to edit the scene description and retry
+			if (error instanceof ContentBlockedError) {
+				return NextResponse.json(getContentBlockedBody(error), {
+					status: 422,
+				});
 			}
 
 			return NextResponse.json(
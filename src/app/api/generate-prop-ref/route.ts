@@ -0,0 +1,142 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getImageGenerationMetadata, readSeed } from "@/lib/image-metadata";
+import {
+	logApiRequest,
+	logApiResponse,
+	logError,
+	propGenLogger,
+} from "@/lib/logger";
+import { ContentBlockedError, getContentBlockedBody } from "@/lib/moderation";
+import { renderPrompt } from "@/lib/prompts";
+import { normalizeComicStyle } from "@/lib/prompts/fragments";
+import { detectInstructionLikeContent } from "@/lib/prompts/safety";
+import { generateImage } from "@/lib/providers/registry";
+import type { PropReference } from "@/types";
+
+export async function POST(request: NextRequest) {
+	const startTime = Date.now();
+	const endpoint = "/api/generate-prop-ref";
+
+	logApiRequest(propGenLogger, endpoint);
+
+	try {
+		const { prop, setting, style, seed, bypassCache } = await request.json();
+		const requestedSeed = readSeed(seed);
+
+		propGenLogger.debug(
+			{
+				prop_name: prop?.name,
+				style,
+				setting: !!setting,
+				seed,
+			},
+			"Received prop reference generation request",
+		);
+
+		if (!prop?.name || !setting || !style) {
+			propGenLogger.warn(
+				{
+					prop: !!prop?.name,
+					setting: !!setting,
+					style: !!style,
+				},
+				"Missing required parameters",
+			);
+			logApiResponse(propGenLogger, endpoint, false, Date.now() - startTime, {
+				error: "Missing parameters",
+			});
+			return NextResponse.json(
+				{ error: "Prop, setting, and style are required" },
+				{ status: 400 },
+			);
+		}
+
+		const warnings = detectInstructionLikeContent({
+			[`prop ${prop.name}`]: [prop.name, prop.description].join("\n"),
+			setting: [setting.timePeriod, setting.location].join("\n"),
+		});
+		if (warnings.length > 0) {
+			propGenLogger.warn(
+				{ warnings },
+				"Prop details contain instruction-like content",
+			);
+		}
+
+		const promptVariables = {
+			style: normalizeComicStyle(style),
+			prop,
+			setting,
+		};
+		const prompt = renderPrompt("prop-reference", promptVariables);
+		const shortPrompt = renderPrompt("short-prop-reference", promptVariables);
+
+		try {
+			const response = await generateImage(
+				{
+					prompt: prompt.text,
+					shortPrompt: shortPrompt.text,
+					referenceImages: [],
+					task: { kind: "prop-reference", propName: prop.name },
+					...(requestedSeed !== undefined ? { seed: requestedSeed } : {}),
+				},
+				propGenLogger,
+				{
+					prop_name: prop.name,
+					prompt_length: prompt.text.length,
+					prompt_template: prompt.template.id,
+					prompt_version: prompt.template.version,
+				},
+				{ bypassCache: !!bypassCache },
+			);
+
+			const propReference: PropReference = {
+				name: prop.name,
+				description: prop.description,
+				image: response.result.image,
+				generation: getImageGenerationMetadata(response, prompt, shortPrompt),
+			};
+
+			logApiResponse(propGenLogger, endpoint, true, Date.now() - startTime, {
+				prop_name: prop.name,
+				source: response.source,
+				cached: response.cached,
+				image_size_kb: Math.round((response.result.image.length * 0.75) / 1024),
+				estimated_cost_usd: response.usage.estimatedCostUsd,
+			});
+
+			return NextResponse.json({
+				success: true,
+				propReference,
+				usage: response.usage,
+				warnings,
+			});
+		} catch (error) {
+			logError(propGenLogger, error, "prop reference generation", {
+				prop_name: prop.name,
+				duration_ms: Date.now() - startTime,
+			});
+			logApiResponse(propGenLogger, endpoint, false, Date.now() - startTime, {
+				error: "Prop generation failed",
+				prop_name: prop.name,
+			});
+			if (error instanceof ContentBlockedError) {
+				return NextResponse.json(getContentBlockedBody(error), {
+					status: 422,
+				});
+			}
+			return NextResponse.json(
+				{ error: `Failed to generate reference for ${prop.name}` },
+				{ status: 500 },
+			);
+		}
+	} catch (error) {
+		logError(propGenLogger, error, "prop reference generation");
+		logApiResponse(propGenLogger, endpoint, false, Date.now() - startTime, {
+			error: "Unexpected error",
+		});
+		return NextResponse.json(
+			{ error: "Failed to generate prop reference" },
+			{ status: 500 },
+		);
+	}
+}
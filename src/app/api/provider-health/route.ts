@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getProviderHealth } from "@/lib/providers/registry";
+
+export async function GET() {
+	const health = getProviderHealth();
+
+	// A chain is down when every provider in it has an open circuit. A
+	// half-open circuit accepts a probe, so it only degrades the chain.
+	const chainStatus = (operation: "text" | "image") => {
+		const states = health.providers
+			.filter((provider) =>
+				operation === "text" ? provider.inTextChain : provider.inImageChain,
+			)
+			.map((provider) => provider.circuits[operation]?.state);
+		if (states.length > 0 && states.every((state) => state === "open")) {
+			return "down";
+		}
+		return states.some((state) => state === "open" || state === "half-open")
+			? "degraded"
+			: "ok";
+	};
+
+	const text = chainStatus("text");
+	const image = chainStatus("image");
+	const status =
+		text === "down" || image === "down"
+			? "down"
+			: text === "degraded" || image === "degraded"
+				? "degraded"
+				: "ok";
+
+	return NextResponse.json(
+		{ status, text, image, ...health },
+		{
+			status: status === "down" ? 503 : 200,
+			headers: { "Cache-Control": "no-store" },
+		},
+	);
+}
@@ -1,20 +1,34 @@
 "use client";
 
-import { useCallback, useId, useRef, useState } from "react";
+import { useCallback, useId, useMemo, useRef, useState } from "react";
 import AccordionSection from "@/components/AccordionSection";
+import AnalysisEditor from "@/components/AnalysisEditor";
+import BlockedPanelEditor from "@/components/BlockedPanelEditor";
+import BreakdownEditor from "@/components/BreakdownEditor";
+import ChapterNav from "@/components/ChapterNav";
 import CharacterCard from "@/components/CharacterCard";
 import CollapsibleSection from "@/components/CollapsibleSection";
 import DownloadButton from "@/components/DownloadButton";
 import ImageUpload from "@/components/ImageUpload";
 import PanelCard from "@/components/PanelCard";
+import PromptWarnings from "@/components/PromptWarnings";
+import PropReferences from "@/components/PropReferences";
 import ReportIssueModal from "@/components/ReportIssueModal";
 import RerunButton from "@/components/RerunButton";
 import ShareableComicLayout from "@/components/ShareableComicLayout";
+import StoryImport from "@/components/StoryImport";
+import UsageSummary from "@/components/UsageSummary";
 import { useAppInitialization } from "@/hooks/useAppInitialization";
 import { useAutoSave } from "@/hooks/useAutoSave";
 import { useModalEscape } from "@/hooks/useEscapeKey";
 import { useRedditIntegration } from "@/hooks/useRedditIntegration";
 import { trackEvent } from "@/lib/analytics";
+import {
+	MAX_LONG_STORY_WORDS,
+	MAX_STORY_WORDS,
+	splitIntoChapters,
+} from "@/lib/chapters";
+import { MAX_IMAGE_CANDIDATES } from "@/lib/image-metadata";
 import { clearAllData, getStorageInfo } from "@/lib/storage";
 import { useDownloadStore } from "@/stores/useDownloadStore";
 import { useGenerationStore } from "@/stores/useGenerationStore";
@@ -79,6 +93,10 @@ export default function Home() {
 	const [regeneratingCharacters, setRegeneratingCharacters] = useState<
 		Set<string>
 	>(new Set());
+	// State for tracking which prop references are being generated
+	const [generatingProps, setGeneratingProps] = useState<Set<string>>(
+		new Set(),
+	);
 	const charactersHeadingId = useId();
 	const layoutHeadingId = useId();
 	const panelsHeadingId = useId();
@@ -92,11 +110,21 @@ export default function Home() {
 		story,
 		style,
 		noDialogue,
+		candidateCount,
+		longStoryMode,
+		screenplayMode,
+		pauseAfterAnalysis,
+		pauseAfterLayout,
 		isLoadingReddit,
 		hasLoadedReddit,
 		setStory,
 		setStyle,
 		setNoDialogue,
+		setCandidateCount,
+		setLongStoryMode,
+		setScreenplayMode,
+		setPauseAfterAnalysis,
+		setPauseAfterLayout,
 		setIsLoadingReddit,
 		setHasLoadedReddit,
 	} = useStoryStore();
@@ -104,6 +132,7 @@ export default function Home() {
 	const {
 		storyAnalysis,
 		characterReferences,
+		propReferences,
 		storyBreakdown,
 		generatedPanels,
 		error,
@@ -114,16 +143,36 @@ export default function Home() {
 		isGenerating,
 		currentStepText,
 		openAccordions,
+		usage,
+		promptWarnings,
+		partialStoryAnalysis,
+		partialStoryBreakdown,
 		generateComic,
 		retryFromStep,
 		retryFailedPanel,
+		continueGeneration,
 		regeneratePanel,
 		regenerateCharacter,
+		selectPanelCandidate,
+		selectCharacterCandidate,
 		setError,
 		setCurrentStepText,
 		setStoryAnalysis,
+		updateAnalysisCharacter,
+		updateAnalysisSetting,
+		editCharacters,
+		updateAnalysisLocation,
+		editLocations,
+		updateAnalysisProp,
+		editProps,
+		generatePropReference,
+		uploadPropReference,
+		removePropReference,
 		setCharacterReferences,
+		setPropReferences,
 		setStoryBreakdown,
+		updateBreakdownPanel,
+		editBreakdown,
 		setGeneratedPanels,
 		setFailedStep,
 		setFailedPanel,
@@ -214,6 +263,43 @@ export default function Home() {
 		.trim()
 		.split(/\s+/)
 		.filter((word) => word.length > 0).length;
+	const wordLimit = longStoryMode ? MAX_LONG_STORY_WORDS : MAX_STORY_WORDS;
+	const detectedChapters = useMemo(
+		() => (longStoryMode ? splitIntoChapters(story) : []),
+		[longStoryMode, story],
+	);
+
+	// Long stories are shown one chapter at a time, or all together (null)
+	const [activeChapter, setActiveChapter] = useState<number | null>(null);
+	const chapterFilter =
+		activeChapter !== null &&
+		activeChapter < (storyBreakdown?.chapters?.length ?? 0)
+			? activeChapter
+			: null;
+	const isInActiveChapter = (panel: { chapter?: number }) =>
+		chapterFilter === null || panel.chapter === chapterFilter;
+
+	const [isEditingAnalysis, setIsEditingAnalysis] = useState(false);
+	const locationNames = new Map(
+		(storyAnalysis?.locations ?? []).map(({ id, name }) => [id, name]),
+	);
+	const [isEditingLayout, setIsEditingLayout] = useState(false);
+	// Characters of the analysis that don't have a design yet
+	const pendingCharacters =
+		storyAnalysis?.characters.filter(
+			(character) =>
+				!characterReferences.some(
+					(reference) => reference.name === character.name,
+				),
+		) ?? [];
+	// Panels of the layout that don't have an image yet, in order
+	const pendingPanels =
+		storyBreakdown?.panels.filter(
+			(panel) =>
+				!generatedPanels.some(
+					(generated) => generated.panelNumber === panel.panelNumber,
+				),
+		) ?? [];
 
 	// Handler to populate story with sample text
 	const loadSampleText = () => {
@@ -237,11 +323,11 @@ export default function Home() {
 
 	// Handler for regenerating individual panels
 	const handleRegeneratePanel = useCallback(
-		async (panelNumber: number) => {
+		async (panelNumber: number, reuseSeed: boolean) => {
 			setRegeneratingPanels((prev) => new Set(prev).add(panelNumber));
 
 			try {
-				await regeneratePanel(panelNumber);
+				await regeneratePanel(panelNumber, reuseSeed);
 				trackEvent({
 					action: "panel_regenerated",
 					category: "user_interaction",
@@ -260,13 +346,20 @@ export default function Home() {
 		[regeneratePanel],
 	);
 
+	// Panel refused for its content, whose scene description can be edited
+	const blockedPanel = failedPanel?.contentBlock
+		? storyBreakdown?.panels.find(
+				(panel) => panel.panelNumber === failedPanel.panelNumber,
+			)
+		: undefined;
+
 	// Handler for regenerating individual characters
 	const handleRegenerateCharacter = useCallback(
-		async (characterName: string) => {
+		async (characterName: string, reuseSeed: boolean) => {
 			setRegeneratingCharacters((prev) => new Set(prev).add(characterName));
 
 			try {
-				await regenerateCharacter(characterName);
+				await regenerateCharacter(characterName, reuseSeed);
 				trackEvent({
 					action: "character_regenerated",
 					category: "user_interaction",
@@ -288,6 +381,23 @@ export default function Home() {
 		[regenerateCharacter],
 	);
 
+	// Handler for generating a prop reference image
+	const handleGeneratePropReference = useCallback(
+		async (propName: string) => {
+			setGeneratingProps((prev) => new Set(prev).add(propName));
+			try {
+				await generatePropReference(propName);
+			} finally {
+				setGeneratingProps((prev) => {
+					const newSet = new Set(prev);
+					newSet.delete(propName);
+					return newSet;
+				});
+			}
+		},
+		[generatePropReference],
+	);
+
 	// Enhanced modal handler with tracking
 	const handleOpenImageModal = useCallback(
 		(imageUrl: string, altText: string) => {
@@ -325,6 +435,7 @@ export default function Home() {
 		setNoDialogue,
 		setStoryAnalysis,
 		setCharacterReferences,
+		setPropReferences,
 		setStoryBreakdown,
 		setGeneratedPanels,
 		setUploadedCharacterReferences,
@@ -357,6 +468,7 @@ export default function Home() {
 		generatedPanels,
 		uploadedCharacterReferences,
 		uploadedSettingReferences,
+		propReferences,
 		isLoadingState,
 		setIsSavingState,
 	});
@@ -416,6 +528,8 @@ export default function Home() {
 					characters: panel.characters,
 					cameraAngle: panel.cameraAngle,
 					visualMood: panel.visualMood,
+					location: locationNames.get(panel.locationId ?? ""),
+					props: panel.props,
 				})),
 			},
 			"comic-layout",
@@ -613,9 +727,10 @@ export default function Home() {
 								className="block text-manga-black font-medium mb-2"
 								htmlFor={storyTextareaId}
 							>
-								Your Story{" "}
+								{screenplayMode ? "Your Screenplay" : "Your Story"}{" "}
 								<span className="inline-block bg-manga-medium-gray text-white px-2 py-1 rounded text-xs ml-2">
-									{wordCount}/500 words
+									{wordCount.toLocaleString()}/{wordLimit.toLocaleString()}{" "}
+									words
 								</span>
 							</label>
 							<textarea
@@ -633,7 +748,11 @@ export default function Home() {
 										});
 									}
 								}}
-								placeholder="Enter your story here... (max 500 words)"
+								placeholder={
+									screenplayMode
+										? `Paste your Fountain screenplay here... (max ${wordLimit.toLocaleString()} words)`
+										: `Enter your story here... (max ${wordLimit.toLocaleString()} words)`
+								}
 								disabled={isGenerating || isLoadingReddit}
 							/>
 							{/* Try Sample Button - only show when story is empty or has very few words */}
@@ -649,9 +768,27 @@ export default function Home() {
 									</button>
 								</div>
 							)}
-							{wordCount > 500 && (
+							<div className="mt-2">
+								<StoryImport
+									onImport={(text, screenplay) => {
+										setStory(text);
+										if (screenplay) setScreenplayMode(true);
+									}}
+									disabled={isGenerating || isLoadingReddit}
+								/>
+							</div>
+							{wordCount > wordLimit && (
 								<div className="text-manga-danger text-sm mt-1">
-									Story is too long. Please reduce to 500 words or less.
+									Story is too long. Please reduce to{" "}
+									{wordLimit.toLocaleString()} words or less
+									{!longStoryMode && ", or turn on Long Story Mode"}.
+								</div>
+							)}
+							{detectedChapters.length > 0 && (
+								<div className="text-manga-medium-gray text-sm mt-1">
+									{detectedChapters.length} chapter
+									{detectedChapters.length !== 1 ? "s" : ""}:{" "}
+									{detectedChapters.map((chapter) => chapter.title).join(" · ")}
 								</div>
 							)}
 						</div>
@@ -682,6 +819,147 @@ export default function Home() {
 							</p>
 						</div>
 
+						{/* Candidates per image */}
+						<div className="mb-4">
+							<label className="flex items-center space-x-2">
+								<span className="text-manga-black font-medium">
+									Candidates per image
+								</span>
+								<select
+									className="form-control-manga w-auto"
+									value={candidateCount}
+									onChange={(e) => setCandidateCount(Number(e.target.value))}
+									disabled={isGenerating}
+								>
+									{Array.from(
+										{ length: MAX_IMAGE_CANDIDATES },
+										(_, index) => index + 1,
+									).map((count) => (
+										<option key={count} value={count}>
+											{count}
+										</option>
+									))}
+								</select>
+							</label>
+							<p className="text-sm text-manga-medium-gray mt-1">
+								Generate several options for each character and panel, then pick
+								the one to keep
+							</p>
+						</div>
+
+						{/* Long Story Option */}
+						<div className="mb-4">
+							<label className="flex items-center space-x-2">
+								<input
+									type="checkbox"
+									className="form-checkbox h-4 w-4 text-manga-black"
+									checked={longStoryMode}
+									onChange={(e) => {
+										setLongStoryMode(e.target.checked);
+										trackEvent({
+											action: "toggle_long_story_mode",
+											category: "user_interaction",
+											label: e.target.checked ? "enabled" : "disabled",
+										});
+									}}
+									disabled={isGenerating}
+								/>
+								<span className="text-manga-black font-medium">
+									Long Story Mode
+								</span>
+							</label>
+							<p className="text-sm text-manga-medium-gray mt-1">
+								Up to {MAX_LONG_STORY_WORDS.toLocaleString()} words, split into
+								chapters at headings like &quot;Chapter 2&quot; or &quot;#
+								Title&quot;. The cast is shared by the whole story and each
+								chapter gets its own panels.
+							</p>
+						</div>
+
+						{/* Pause After Analysis Option */}
+						<div className="mb-4">
+							<label className="flex items-center space-x-2">
+								<input
+									type="checkbox"
+									className="form-checkbox h-4 w-4 text-manga-black"
+									checked={pauseAfterAnalysis}
+									onChange={(e) => {
+										setPauseAfterAnalysis(e.target.checked);
+										trackEvent({
+											action: "toggle_pause_after_analysis",
+											category: "user_interaction",
+											label: e.target.checked ? "enabled" : "disabled",
+										});
+									}}
+									disabled={isGenerating}
+								/>
+								<span className="text-manga-black font-medium">
+									Pause After Analysis
+								</span>
+							</label>
+							<p className="text-sm text-manga-medium-gray mt-1">
+								Stop once the characters and setting are found, so you can fix
+								names, merge duplicates or add anyone missed before the
+								character designs are made
+							</p>
+						</div>
+
+						{/* Pause After Layout Option */}
+						<div className="mb-4">
+							<label className="flex items-center space-x-2">
+								<input
+									type="checkbox"
+									className="form-checkbox h-4 w-4 text-manga-black"
+									checked={pauseAfterLayout}
+									onChange={(e) => {
+										setPauseAfterLayout(e.target.checked);
+										trackEvent({
+											action: "toggle_pause_after_layout",
+											category: "user_interaction",
+											label: e.target.checked ? "enabled" : "disabled",
+										});
+									}}
+									disabled={isGenerating}
+								/>
+								<span className="text-manga-black font-medium">
+									Pause After Layout
+								</span>
+							</label>
+							<p className="text-sm text-manga-medium-gray mt-1">
+								Stop once the panels are planned, so you can edit the storyboard
+								before any panel images are generated
+							</p>
+						</div>
+
+						{/* Screenplay Option */}
+						<div className="mb-4">
+							<label className="flex items-center space-x-2">
+								<input
+									type="checkbox"
+									className="form-checkbox h-4 w-4 text-manga-black"
+									checked={screenplayMode}
+									onChange={(e) => {
+										setScreenplayMode(e.target.checked);
+										trackEvent({
+											action: "toggle_screenplay_mode",
+											category: "user_interaction",
+											label: e.target.checked ? "enabled" : "disabled",
+										});
+									}}
+									disabled={isGenerating}
+								/>
+								<span className="text-manga-black font-medium">
+									Screenplay Mode
+								</span>
+							</label>
+							<p className="text-sm text-manga-medium-gray mt-1">
+								For scripts in Fountain format. Panels follow the script as
+								written: scene headings set the location, action lines become
+								scenes and character cues become dialogue. Only camera angles
+								and moods are left to the AI.
+							</p>
+						</div>
+
 						{/* Reference Images Upload - Optional */}
 						<div className="mb-4 space-y-4">
 							{/* Character Reference Images */}
@@ -729,6 +1007,8 @@ export default function Home() {
 							</CollapsibleSection>
 						</div>
 
+						<PromptWarnings warnings={promptWarnings} />
+
 						{/* Error Display */}
 						{error && (
 							<div
@@ -748,7 +1028,37 @@ export default function Home() {
 								)}
 								{(failedStep || failedPanel) && (
 									<div className="mt-2">
-										{failedPanel ? (
+										{failedPanel?.contentBlock && blockedPanel ? (
+											<BlockedPanelEditor
+												key={`${failedPanel.panelNumber}-${failedPanel.contentBlock.message}`}
+												panelNumber={failedPanel.panelNumber}
+												sceneDescription={blockedPanel.sceneDescription}
+												contentBlock={failedPanel.contentBlock}
+												onRetry={(sceneDescription) => {
+													updateBreakdownPanel(failedPanel.panelNumber, {
+														sceneDescription,
+													});
+													// A panel that already has an image was being regenerated
+													if (
+														generatedPanels.some(
+															(panel) =>
+																panel.panelNumber === failedPanel.panelNumber,
+														)
+													) {
+														handleRegeneratePanel(
+															failedPanel.panelNumber,
+															false,
+														);
+													} else {
+														retryFailedPanel(
+															failedPanel.panelNumber,
+															failedPanel.panelIndex,
+														);
+													}
+												}}
+												disabled={isGenerating || isLoadingReddit}
+											/>
+										) : failedPanel ? (
 											<button
 												type="button"
 												className="px-3 py-1 text-sm border border-manga-danger text-manga-danger rounded hover:bg-manga-danger hover:text-white transition-colors"
@@ -799,7 +1109,7 @@ export default function Home() {
 								isGenerating ||
 								isLoadingReddit ||
 								!story.trim() ||
-								wordCount > 500
+								wordCount > wordLimit
 							}
 							title={GENERATION_PAUSE_MESSAGE}
 						>
@@ -885,39 +1195,34 @@ export default function Home() {
 							</button>
 						</div>
 
+						<UsageSummary usage={usage} />
+
 						<div className="accordion-manga space-y-4">
 							{/* Step 1: Story Analysis */}
 							<AccordionSection
 								id={analysisHeadingId}
 								title="Story Analysis"
 								stepNumber={1}
-								isCompleted={!!storyAnalysis}
+								isCompleted={!!storyAnalysis && !partialStoryAnalysis}
 								isInProgress={
-									isGenerating &&
-									!storyAnalysis &&
-									currentStepText.includes("Analyzing")
+									!!partialStoryAnalysis ||
+									(isGenerating &&
+										!storyAnalysis &&
+										currentStepText.includes("Analyzing"))
 								}
 								isOpen={openAccordions.has("analysis")}
 								onToggle={() => toggleAccordionSection("analysis")}
 								showStatus={isGenerating || !!storyAnalysis}
 							>
-								{storyAnalysis ? (
+								{partialStoryAnalysis ? (
 									<div>
-										<div className="flex justify-between items-center mb-3">
-											<h5 className="font-semibold">Story Analysis</h5>
-											<DownloadButton
-												onClick={downloadStoryAnalysis}
-												isLoading={false}
-												label="Download"
-												loadingText=""
-												variant="outline"
-											/>
-										</div>
 										<h5 className="font-semibold mb-2">Title:</h5>
-										<p className="mb-3">{storyAnalysis.title}</p>
+										<p className="mb-3">
+											{partialStoryAnalysis.title ?? "Reading story..."}
+										</p>
 										<h5 className="font-semibold mb-2">Characters:</h5>
 										<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-											{storyAnalysis.characters.map((char) => (
+											{partialStoryAnalysis.characters?.map((char) => (
 												<CharacterCard
 													key={char.name}
 													character={char}
@@ -925,21 +1230,179 @@ export default function Home() {
 												/>
 											))}
 										</div>
-										<h5 className="font-semibold mt-3 mb-2">Setting:</h5>
-										<p>
-											<strong>Location:</strong>{" "}
-											{storyAnalysis.setting.location}
-										</p>
-										<p>
-											<strong>Time Period:</strong>{" "}
-											{storyAnalysis.setting.timePeriod}
-										</p>
-										<p>
-											<strong>Mood:</strong> {storyAnalysis.setting.mood}
+										<p className="text-manga-medium-gray mt-3">
+											More of the analysis will appear as it is generated...
 										</p>
+									</div>
+								) : storyAnalysis ? (
+									<div>
+										<div className="flex justify-between items-center mb-3">
+											<h5 className="font-semibold">Story Analysis</h5>
+											<div className="flex gap-2">
+												<button
+													type="button"
+													className="btn-manga-outline text-sm"
+													onClick={() =>
+														setIsEditingAnalysis(!isEditingAnalysis)
+													}
+													disabled={isGenerating && !isEditingAnalysis}
+												>
+													{isEditingAnalysis ? "Done Editing" : "✏️ Edit"}
+												</button>
+												<DownloadButton
+													onClick={downloadStoryAnalysis}
+													isLoading={false}
+													label="Download"
+													loadingText=""
+													variant="outline"
+												/>
+											</div>
+										</div>
+										{!isGenerating && pendingCharacters.length > 0 && (
+											<div className="card-manga mb-3">
+												<div className="card-body flex justify-between items-center gap-2 flex-wrap">
+													<p className="text-sm mb-0">
+														{characterReferences.length === 0
+															? "Review and edit the characters and setting, then create the character designs."
+															: `${pendingCharacters.length} character${pendingCharacters.length !== 1 ? "s are" : " is"} still waiting for a design.`}
+													</p>
+													<button
+														type="button"
+														className="btn-manga-primary text-sm"
+														onClick={() => {
+															setIsEditingAnalysis(false);
+															continueGeneration();
+														}}
+														disabled={
+															isLoadingReddit ||
+															pendingCharacters.some(
+																(character) =>
+																	!character.physicalDescription.trim(),
+															)
+														}
+													>
+														Design {pendingCharacters.length} Character
+														{pendingCharacters.length !== 1 ? "s" : ""}
+													</button>
+												</div>
+											</div>
+										)}
+										<h5 className="font-semibold mb-2">Title:</h5>
+										<p className="mb-3">{storyAnalysis.title}</p>
+										{isEditingAnalysis ? (
+											<AnalysisEditor
+												analysis={storyAnalysis}
+												onChangeCharacter={updateAnalysisCharacter}
+												onChangeSetting={updateAnalysisSetting}
+												onEdit={(edit) => {
+													editCharacters(edit);
+													trackEvent({
+														action: "edit_characters",
+														category: "user_interaction",
+														label: edit.type,
+													});
+												}}
+												settingReferences={uploadedSettingReferences}
+												onChangeLocation={updateAnalysisLocation}
+												onEditLocations={(edit) => {
+													editLocations(edit);
+													trackEvent({
+														action: "edit_locations",
+														category: "user_interaction",
+														label: edit.type,
+													});
+												}}
+												onChangeProp={updateAnalysisProp}
+												onEditProps={(edit) => {
+													editProps(edit);
+													trackEvent({
+														action: "edit_props",
+														category: "user_interaction",
+														label: edit.type,
+													});
+												}}
+												disabled={isGenerating}
+											/>
+										) : (
+											<>
+												<h5 className="font-semibold mb-2">Characters:</h5>
+												<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+													{storyAnalysis.characters.map((char) => (
+														<CharacterCard
+															key={char.name}
+															character={char}
+															showImage={false}
+														/>
+													))}
+												</div>
+												<h5 className="font-semibold mt-3 mb-2">Setting:</h5>
+												<p>
+													<strong>Location:</strong>{" "}
+													{storyAnalysis.setting.location}
+												</p>
+												<p>
+													<strong>Time Period:</strong>{" "}
+													{storyAnalysis.setting.timePeriod}
+												</p>
+												<p>
+													<strong>Mood:</strong> {storyAnalysis.setting.mood}
+												</p>
+												{storyAnalysis.locations &&
+													storyAnalysis.locations.length > 0 && (
+														<>
+															<h5 className="font-semibold mt-3 mb-2">
+																Locations:
+															</h5>
+															<ul className="list-disc pl-5 space-y-1">
+																{storyAnalysis.locations.map((location) => (
+																	<li key={location.id}>
+																		<strong>{location.name}:</strong>{" "}
+																		{location.description}
+																		{uploadedSettingReferences.some(({ id }) =>
+																			location.settingReferenceIds?.includes(
+																				id,
+																			),
+																		) && (
+																			<span className="text-sm text-manga-medium-gray">
+																				{" "}
+																				(references:{" "}
+																				{uploadedSettingReferences
+																					.filter(({ id }) =>
+																						location.settingReferenceIds?.includes(
+																							id,
+																						),
+																					)
+																					.map(({ name }) => name)
+																					.join(", ")}
+																				)
+																			</span>
+																		)}
+																	</li>
+																))}
+															</ul>
+														</>
+													)}
+												{storyAnalysis.props &&
+													storyAnalysis.props.length > 0 && (
+														<>
+															<h5 className="font-semibold mt-3 mb-2">
+																Props:
+															</h5>
+															<ul className="list-disc pl-5 space-y-1">
+																{storyAnalysis.props.map((prop) => (
+																	<li key={prop.name}>
+																		<strong>{prop.name}:</strong>{" "}
+																		{prop.description}
+																	</li>
+																))}
+															</ul>
+														</>
+													)}
+											</>
+										)}
 										<div className="mt-3">
 											<RerunButton
-												onClick={() => retryFromStep("analysis")}
+												onClick={() => retryFromStep("analysis", true)}
 												isLoading={isRerunningAnalysis}
 												disabled={isGenerating || isLoadingReddit}
 											/>
@@ -1017,12 +1480,21 @@ export default function Home() {
 															onDownload={() =>
 																downloadCharacter(generatedChar)
 															}
-															onRegenerate={() =>
-																handleRegenerateCharacter(generatedChar.name)
+															onRegenerate={(reuseSeed) =>
+																handleRegenerateCharacter(
+																	generatedChar.name,
+																	reuseSeed,
+																)
 															}
 															isRegenerating={regeneratingCharacters.has(
 																generatedChar.name,
 															)}
+															onSelectCandidate={(index) =>
+																selectCharacterCandidate(
+																	generatedChar.name,
+																	index,
+																)
+															}
 														/>
 													);
 												} else {
@@ -1057,9 +1529,33 @@ export default function Home() {
 												}
 											})}
 										</div>
+										{storyAnalysis.props && storyAnalysis.props.length > 0 && (
+											<div className="mt-4">
+												<PropReferences
+													props={storyAnalysis.props}
+													references={propReferences}
+													generatingProps={generatingProps}
+													onGenerate={(name) => {
+														handleGeneratePropReference(name);
+													}}
+													onUpload={(name, image) => {
+														uploadPropReference(name, image);
+														trackEvent({
+															action: "upload_prop_reference",
+															category: "user_interaction",
+														});
+													}}
+													onRemove={(name) => {
+														removePropReference(name);
+													}}
+													onImageClick={openImageModal}
+													disabled={isGenerating}
+												/>
+											</div>
+										)}
 										<div className="mt-3">
 											<RerunButton
-												onClick={() => retryFromStep("characters")}
+												onClick={() => retryFromStep("characters", true)}
 												isLoading={isRerunningCharacters}
 												disabled={isGenerating || !storyAnalysis}
 											/>
@@ -1090,33 +1586,26 @@ export default function Home() {
 								id={layoutHeadingId}
 								title="Comic Layout Plan"
 								stepNumber={3}
-								isCompleted={!!storyBreakdown}
+								isCompleted={!!storyBreakdown && !partialStoryBreakdown}
 								isInProgress={
-									isGenerating &&
-									characterReferences.length > 0 &&
-									!storyBreakdown &&
-									currentStepText.includes("layout")
+									!!partialStoryBreakdown ||
+									(isGenerating &&
+										characterReferences.length > 0 &&
+										!storyBreakdown &&
+										currentStepText.includes("layout"))
 								}
 								isOpen={openAccordions.has("layout")}
 								onToggle={() => toggleAccordionSection("layout")}
 								showStatus={isGenerating || !!storyBreakdown}
 							>
-								{storyBreakdown ? (
+								{partialStoryBreakdown ? (
 									<div>
-										<div className="flex justify-between items-center mb-3">
-											<h5 className="font-semibold">
-												Panel Sequence ({storyBreakdown.panels.length} panels)
-											</h5>
-											<DownloadButton
-												onClick={downloadComicLayout}
-												isLoading={false}
-												label="Download"
-												loadingText=""
-												variant="outline"
-											/>
-										</div>
+										<h5 className="font-semibold mb-3">
+											Panel Sequence (
+											{partialStoryBreakdown.panels?.length ?? 0} panels so far)
+										</h5>
 										<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-											{storyBreakdown.panels.map((panel) => (
+											{partialStoryBreakdown.panels?.map((panel) => (
 												<PanelCard
 													key={`panel-${panel.panelNumber}`}
 													panel={panel}
@@ -1124,9 +1613,126 @@ export default function Home() {
 												/>
 											))}
 										</div>
+										<p className="text-manga-medium-gray mt-3">
+											More panels will appear as the layout is planned...
+										</p>
+									</div>
+								) : storyBreakdown ? (
+									<div>
+										<div className="flex justify-between items-center mb-3">
+											<h5 className="font-semibold">
+												Panel Sequence ({storyBreakdown.panels.length} panels)
+											</h5>
+											<div className="flex gap-2">
+												<button
+													type="button"
+													className="btn-manga-outline text-sm"
+													onClick={() => setIsEditingLayout(!isEditingLayout)}
+													disabled={isGenerating && !isEditingLayout}
+												>
+													{isEditingLayout ? "Done Editing" : "✏️ Edit"}
+												</button>
+												<DownloadButton
+													onClick={downloadComicLayout}
+													isLoading={false}
+													label="Download"
+													loadingText=""
+													variant="outline"
+												/>
+											</div>
+										</div>
+										{!isGenerating &&
+											pendingPanels.length > 0 &&
+											characterReferences.length > 0 && (
+												<div className="card-manga mb-3">
+													<div className="card-body flex justify-between items-center gap-2 flex-wrap">
+														<p className="text-sm mb-0">
+															{pendingPanels.length ===
+															storyBreakdown.panels.length
+																? "Review the layout and edit any panels, then generate the images."
+																: `${pendingPanels.length} panel${pendingPanels.length !== 1 ? "s are" : " is"} still waiting for an image.`}
+														</p>
+														<button
+															type="button"
+															className="btn-manga-primary text-sm"
+															onClick={() => {
+																setIsEditingLayout(false);
+																continueGeneration();
+															}}
+															disabled={
+																isLoadingReddit ||
+																pendingPanels.some(
+																	(panel) => !panel.sceneDescription.trim(),
+																)
+															}
+														>
+															Generate {pendingPanels.length} Panel
+															{pendingPanels.length !== 1 ? "s" : ""}
+														</button>
+													</div>
+												</div>
+											)}
+										{storyBreakdown.chapters && (
+											<ChapterNav
+												chapters={storyBreakdown.chapters}
+												panels={storyBreakdown.panels}
+												activeChapter={chapterFilter}
+												onSelect={setActiveChapter}
+											/>
+										)}
+										{storyBreakdown.truncated && (
+											<p className="text-sm text-manga-medium-gray mb-3">
+												⚠️ The layout response was cut short, so only its
+												complete panels were kept. Re-run the layout to try for
+												the whole story.
+											</p>
+										)}
+										{isEditingLayout ? (
+											<BreakdownEditor
+												panels={storyBreakdown.panels.filter(isInActiveChapter)}
+												panelCount={storyBreakdown.panels.length}
+												characterNames={
+													storyAnalysis?.characters.map(({ name }) => name) ??
+													[]
+												}
+												locations={storyAnalysis?.locations ?? []}
+												propNames={
+													storyAnalysis?.props?.map(({ name }) => name) ?? []
+												}
+												onChange={updateBreakdownPanel}
+												onEdit={(edit) => {
+													editBreakdown(edit);
+													trackEvent({
+														action: "edit_layout",
+														category: "user_interaction",
+														label: edit.type,
+													});
+												}}
+												disabled={isGenerating}
+											/>
+										) : (
+											<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+												{storyBreakdown.panels
+													.filter(isInActiveChapter)
+													.map((panel) => {
+														const location = locationNames.get(
+															panel.locationId ?? "",
+														);
+														return (
+															<PanelCard
+																key={`panel-${panel.panelNumber}`}
+																panel={
+																	location ? { ...panel, location } : panel
+																}
+																showImage={false}
+															/>
+														);
+													})}
+											</div>
+										)}
 										<div className="mt-3">
 											<RerunButton
-												onClick={() => retryFromStep("layout")}
+												onClick={() => retryFromStep("layout", true)}
 												isLoading={isRerunningLayout}
 												disabled={isGenerating || !storyAnalysis}
 											/>
@@ -1184,15 +1790,24 @@ export default function Home() {
 												/>
 											)}
 										</div>
+										{storyBreakdown.chapters && (
+											<ChapterNav
+												chapters={storyBreakdown.chapters}
+												panels={storyBreakdown.panels}
+												activeChapter={chapterFilter}
+												onSelect={setActiveChapter}
+											/>
+										)}
 										<div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-											{storyBreakdown.panels.map((panel, index) => {
+											{storyBreakdown.panels.map((panel) => {
+												if (!isInActiveChapter(panel)) return null;
 												const generatedPanel = generatedPanels.find(
 													(p) => p.panelNumber === panel.panelNumber,
 												);
 												const isCurrentlyGenerating =
 													isGenerating &&
 													currentStepText.includes("panel") &&
-													generatedPanels.length === index;
+													pendingPanels[0]?.panelNumber === panel.panelNumber;
 
 												if (generatedPanel) {
 													// Show completed panel
@@ -1203,12 +1818,18 @@ export default function Home() {
 															showImage={true}
 															onImageClick={openImageModal}
 															onDownload={() => downloadPanel(generatedPanel)}
-															onRegenerate={() =>
-																handleRegeneratePanel(panel.panelNumber)
+															onRegenerate={(reuseSeed) =>
+																handleRegeneratePanel(
+																	panel.panelNumber,
+																	reuseSeed,
+																)
 															}
 															isRegenerating={regeneratingPanels.has(
 																panel.panelNumber,
 															)}
+															onSelectCandidate={(index) =>
+																selectPanelCandidate(panel.panelNumber, index)
+															}
 														/>
 													);
 												} else {
@@ -1250,7 +1871,7 @@ export default function Home() {
 										</div>
 										<div className="mt-3">
 											<RerunButton
-												onClick={() => retryFromStep("panels")}
+												onClick={() => retryFromStep("panels", true)}
 												isLoading={isRerunningPanels}
 												disabled={
 													isGenerating ||
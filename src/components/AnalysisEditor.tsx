@@ -0,0 +1,483 @@
+import { useId, useState } from "react";
+import {
+	type CharacterEdit,
+	isCharacterNameTaken,
+	isPropNameTaken,
+	type LocationEdit,
+	type PropEdit,
+} from "@/lib/analysis-editing";
+import type { StoryLocation } from "@/lib/locations";
+import type { StoryProp } from "@/lib/story-props";
+import type { StoryAnalysis, UploadedSettingReference } from "@/types";
+
+type AnalysisCharacter = StoryAnalysis["characters"][number];
+
+interface AnalysisEditorProps {
+	analysis: StoryAnalysis;
+	onChangeCharacter: (
+		name: string,
+		changes: Partial<Omit<AnalysisCharacter, "name">>,
+	) => void;
+	onChangeSetting: (changes: Partial<StoryAnalysis["setting"]>) => void;
+	onEdit: (edit: CharacterEdit) => void;
+	// Uploaded setting references that can be bound to locations
+	settingReferences: Pick<UploadedSettingReference, "id" | "name">[];
+	onChangeLocation: (
+		id: string,
+		changes: Partial<Omit<StoryLocation, "id">>,
+	) => void;
+	onEditLocations: (edit: LocationEdit) => void;
+	onChangeProp: (
+		name: string,
+		changes: Partial<Omit<StoryProp, "name">>,
+	) => void;
+	onEditProps: (edit: PropEdit) => void;
+	disabled?: boolean;
+}
+
+const toolButtonClass =
+	"px-2 py-1 text-xs border border-manga-medium-gray rounded hover:bg-manga-medium-gray/10 transition-colors disabled:opacity-40";
+
+interface CharacterEditorProps {
+	analysis: StoryAnalysis;
+	character: AnalysisCharacter;
+	onChangeCharacter: AnalysisEditorProps["onChangeCharacter"];
+	onEdit: AnalysisEditorProps["onEdit"];
+	disabled: boolean;
+}
+
+function CharacterEditor({
+	analysis,
+	character,
+	onChangeCharacter,
+	onEdit,
+	disabled,
+}: CharacterEditorProps) {
+	const fieldId = useId();
+	const { name } = character;
+	// Renames are applied when the field is left, so panels aren't
+	// updated on every keystroke
+	const [nameDraft, setNameDraft] = useState(name);
+	const others = analysis.characters.filter((other) => other.name !== name);
+	const [mergeTarget, setMergeTarget] = useState("");
+
+	const trimmedName = nameDraft.trim();
+	const nameError = !trimmedName
+		? "Enter a name"
+		: isCharacterNameTaken(analysis, trimmedName, name)
+			? `Another character is already called ${trimmedName}`
+			: null;
+
+	const commitName = () => {
+		if (!nameError && trimmedName !== name) {
+			onEdit({ type: "rename", name, newName: trimmedName });
+		}
+	};
+
+	return (
+		<div className="card-manga">
+			<div className="card-body space-y-2">
+				<div className="flex justify-between items-end gap-2">
+					<label htmlFor={`${fieldId}-name`} className="block text-sm flex-1">
+						Name
+						<input
+							id={`${fieldId}-name`}
+							type="text"
+							className="form-control-manga text-sm"
+							value={nameDraft}
+							onChange={(e) => setNameDraft(e.target.value)}
+							onBlur={commitName}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") commitName();
+							}}
+							disabled={disabled}
+						/>
+					</label>
+					<button
+						type="button"
+						className={`${toolButtonClass} text-manga-danger`}
+						onClick={() => onEdit({ type: "delete", name })}
+						disabled={disabled || others.length === 0}
+					>
+						Delete
+					</button>
+				</div>
+				{nameError && <p className="text-manga-danger text-xs">{nameError}</p>}
+
+				<label htmlFor={`${fieldId}-appearance`} className="block text-sm">
+					Appearance
+				</label>
+				<textarea
+					id={`${fieldId}-appearance`}
+					className="form-control-manga text-sm"
+					rows={3}
+					value={character.physicalDescription}
+					onChange={(e) =>
+						onChangeCharacter(name, { physicalDescription: e.target.value })
+					}
+					disabled={disabled}
+				/>
+
+				<div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+					<label className="block text-sm">
+						Personality
+						<input
+							type="text"
+							className="form-control-manga text-sm"
+							value={character.personality}
+							onChange={(e) =>
+								onChangeCharacter(name, { personality: e.target.value })
+							}
+							disabled={disabled}
+						/>
+					</label>
+					<label className="block text-sm">
+						Role
+						<input
+							type="text"
+							className="form-control-manga text-sm"
+							value={character.role}
+							onChange={(e) =>
+								onChangeCharacter(name, { role: e.target.value })
+							}
+							disabled={disabled}
+						/>
+					</label>
+				</div>
+
+				{others.length > 0 && (
+					<div className="flex gap-2 items-center text-sm">
+						<label htmlFor={`${fieldId}-merge`}>Same person as</label>
+						<select
+							id={`${fieldId}-merge`}
+							className="form-control-manga text-sm flex-1"
+							value={mergeTarget}
+							onChange={(e) => setMergeTarget(e.target.value)}
+							disabled={disabled}
+						>
+							<option value="">Choose a character...</option>
+							{others.map((other) => (
+								<option key={other.name} value={other.name}>
+									{other.name}
+								</option>
+							))}
+						</select>
+						<button
+							type="button"
+							className={toolButtonClass}
+							title={`Remove ${name} and give their panels to the chosen character`}
+							onClick={() => onEdit({ type: "merge", name, into: mergeTarget })}
+							disabled={disabled || !mergeTarget}
+						>
+							Merge
+						</button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+interface LocationEditorProps {
+	location: StoryLocation;
+	locationCount: number;
+	settingReferences: AnalysisEditorProps["settingReferences"];
+	onChangeLocation: AnalysisEditorProps["onChangeLocation"];
+	onEditLocations: AnalysisEditorProps["onEditLocations"];
+	disabled: boolean;
+}
+
+function LocationEditor({
+	location,
+	locationCount,
+	settingReferences,
+	onChangeLocation,
+	onEditLocations,
+	disabled,
+}: LocationEditorProps) {
+	const fieldId = useId();
+	const { id } = location;
+	const boundIds = location.settingReferenceIds ?? [];
+
+	return (
+		<div className="card-manga">
+			<div className="card-body space-y-2">
+				<div className="flex justify-between items-end gap-2">
+					<label htmlFor={`${fieldId}-name`} className="block text-sm flex-1">
+						Name
+						<input
+							id={`${fieldId}-name`}
+							type="text"
+							className="form-control-manga text-sm"
+							value={location.name}
+							onChange={(e) => onChangeLocation(id, { name: e.target.value })}
+							disabled={disabled}
+						/>
+					</label>
+					<button
+						type="button"
+						className={`${toolButtonClass} text-manga-danger`}
+						onClick={() => onEditLocations({ type: "delete", id })}
+						disabled={disabled || locationCount === 1}
+					>
+						Delete
+					</button>
+				</div>
+
+				<label htmlFor={`${fieldId}-description`} className="block text-sm">
+					Appearance
+				</label>
+				<textarea
+					id={`${fieldId}-description`}
+					className="form-control-manga text-sm"
+					rows={2}
+					value={location.description}
+					onChange={(e) =>
+						onChangeLocation(id, { description: e.target.value })
+					}
+					disabled={disabled}
+				/>
+
+				{settingReferences.length > 0 && (
+					<fieldset className="text-sm">
+						<legend className="mb-1">Setting references</legend>
+						<div className="flex gap-3 flex-wrap">
+							{settingReferences.map((reference) => (
+								<label key={reference.id} className="flex items-center gap-1">
+									<input
+										type="checkbox"
+										className="form-checkbox h-4 w-4 text-manga-black"
+										checked={boundIds.includes(reference.id)}
+										onChange={(e) =>
+											onChangeLocation(id, {
+												settingReferenceIds: e.target.checked
+													? [...boundIds, reference.id]
+													: boundIds.filter(
+															(boundId) => boundId !== reference.id,
+														),
+											})
+										}
+										disabled={disabled}
+									/>
+									{reference.name}
+								</label>
+							))}
+						</div>
+					</fieldset>
+				)}
+			</div>
+		</div>
+	);
+}
+
+interface PropEditorProps {
+	analysis: StoryAnalysis;
+	prop: StoryProp;
+	onChangeProp: AnalysisEditorProps["onChangeProp"];
+	onEditProps: AnalysisEditorProps["onEditProps"];
+	disabled: boolean;
+}
+
+function PropEditor({
+	analysis,
+	prop,
+	onChangeProp,
+	onEditProps,
+	disabled,
+}: PropEditorProps) {
+	const fieldId = useId();
+	const { name } = prop;
+	// Renames are applied when the field is left, as for characters
+	const [nameDraft, setNameDraft] = useState(name);
+
+	const trimmedName = nameDraft.trim();
+	const nameError = !trimmedName
+		? "Enter a name"
+		: isPropNameTaken(analysis, trimmedName, name)
+			? `Another prop is already called ${trimmedName}`
+			: null;
+
+	const commitName = () => {
+		if (!nameError && trimmedName !== name) {
+			onEditProps({ type: "rename", name, newName: trimmedName });
+		}
+	};
+
+	return (
+		<div className="card-manga">
+			<div className="card-body space-y-2">
+				<div className="flex justify-between items-end gap-2">
+					<label htmlFor={`${fieldId}-name`} className="block text-sm flex-1">
+						Name
+						<input
+							id={`${fieldId}-name`}
+							type="text"
+							className="form-control-manga text-sm"
+							value={nameDraft}
+							onChange={(e) => setNameDraft(e.target.value)}
+							onBlur={commitName}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") commitName();
+							}}
+							disabled={disabled}
+						/>
+					</label>
+					<button
+						type="button"
+						className={`${toolButtonClass} text-manga-danger`}
+						onClick={() => onEditProps({ type: "delete", name })}
+						disabled={disabled}
+					>
+						Delete
+					</button>
+				</div>
+				{nameError && <p className="text-manga-danger text-xs">{nameError}</p>}
+
+				<label htmlFor={`${fieldId}-description`} className="block text-sm">
+					Appearance
+				</label>
+				<textarea
+					id={`${fieldId}-description`}
+					className="form-control-manga text-sm"
+					rows={2}
+					value={prop.description}
+					onChange={(e) => onChangeProp(name, { description: e.target.value })}
+					disabled={disabled}
+				/>
+			</div>
+		</div>
+	);
+}
+
+export default function AnalysisEditor({
+	analysis,
+	onChangeCharacter,
+	onChangeSetting,
+	onEdit,
+	settingReferences,
+	onChangeLocation,
+	onEditLocations,
+	onChangeProp,
+	onEditProps,
+	disabled = false,
+}: AnalysisEditorProps) {
+	const settingId = useId();
+	const { setting, locations = [], props = [] } = analysis;
+
+	return (
+		<div>
+			<h5 className="font-semibold mb-2">Characters:</h5>
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+				{analysis.characters.map((character) => (
+					<CharacterEditor
+						key={character.name}
+						analysis={analysis}
+						character={character}
+						onChangeCharacter={onChangeCharacter}
+						onEdit={onEdit}
+						disabled={disabled}
+					/>
+				))}
+			</div>
+			<button
+				type="button"
+				className={`${toolButtonClass} mt-2`}
+				onClick={() => onEdit({ type: "add" })}
+				disabled={disabled}
+			>
+				+ Add character
+			</button>
+
+			<h5 className="font-semibold mt-3 mb-2">Setting:</h5>
+			<div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+				<label htmlFor={`${settingId}-location`} className="block text-sm">
+					Location
+					<input
+						id={`${settingId}-location`}
+						type="text"
+						className="form-control-manga text-sm"
+						value={setting.location}
+						onChange={(e) => onChangeSetting({ location: e.target.value })}
+						disabled={disabled}
+					/>
+				</label>
+				<label htmlFor={`${settingId}-time`} className="block text-sm">
+					Time Period
+					<input
+						id={`${settingId}-time`}
+						type="text"
+						className="form-control-manga text-sm"
+						value={setting.timePeriod}
+						onChange={(e) => onChangeSetting({ timePeriod: e.target.value })}
+						disabled={disabled}
+					/>
+				</label>
+				<label htmlFor={`${settingId}-mood`} className="block text-sm">
+					Mood
+					<input
+						id={`${settingId}-mood`}
+						type="text"
+						className="form-control-manga text-sm"
+						value={setting.mood}
+						onChange={(e) => onChangeSetting({ mood: e.target.value })}
+						disabled={disabled}
+					/>
+				</label>
+			</div>
+
+			<h5 className="font-semibold mt-3 mb-2">Locations:</h5>
+			<p className="text-sm text-manga-medium-gray mb-2">
+				Each panel is drawn in one of these places. A setting reference ticked
+				for a location is only used for its panels; references that aren't
+				ticked anywhere are used for every panel.
+			</p>
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+				{locations.map((location) => (
+					<LocationEditor
+						key={location.id}
+						location={location}
+						locationCount={locations.length}
+						settingReferences={settingReferences}
+						onChangeLocation={onChangeLocation}
+						onEditLocations={onEditLocations}
+						disabled={disabled}
+					/>
+				))}
+			</div>
+			<button
+				type="button"
+				className={`${toolButtonClass} mt-2`}
+				onClick={() => onEditLocations({ type: "add" })}
+				disabled={disabled}
+			>
+				+ Add location
+			</button>
+
+			<h5 className="font-semibold mt-3 mb-2">Props:</h5>
+			<p className="text-sm text-manga-medium-gray mb-2">
+				Objects that recur through the story. A prop with a reference image is
+				drawn from it in every panel that shows it.
+			</p>
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+				{props.map((prop) => (
+					<PropEditor
+						key={prop.name}
+						analysis={analysis}
+						prop={prop}
+						onChangeProp={onChangeProp}
+						onEditProps={onEditProps}
+						disabled={disabled}
+					/>
+				))}
+			</div>
+			<button
+				type="button"
+				className={`${toolButtonClass} mt-2`}
+				onClick={() => onEditProps({ type: "add" })}
+				disabled={disabled}
+			>
+				+ Add prop
+			</button>
+		</div>
+	);
+}
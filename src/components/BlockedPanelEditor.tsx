@@ -0,0 +1,58 @@
+import { useId, useState } from "react";
+import { describeCategory } from "@/lib/moderation";
+import type { ContentBlockDetails } from "@/types";
+
+interface BlockedPanelEditorProps {
+	panelNumber: number;
+	sceneDescription: string;
+	contentBlock: ContentBlockDetails;
+	onRetry: (sceneDescription: string) => void;
+	disabled?: boolean;
+}
+
+export default function BlockedPanelEditor({
+	panelNumber,
+	sceneDescription,
+	contentBlock,
+	onRetry,
+	disabled = false,
+}: BlockedPanelEditorProps) {
+	const textareaId = useId();
+	const [draft, setDraft] = useState(sceneDescription);
+	const source =
+		contentBlock.source === "moderation"
+			? "content moderation"
+			: `${contentBlock.source} safety filters`;
+
+	return (
+		<div className="mt-2 text-manga-black">
+			<label htmlFor={textareaId} className="block text-sm mb-1">
+				Panel {panelNumber} was blocked by {source} for{" "}
+				<strong>{describeCategory(contentBlock.category)}</strong>
+				{contentBlock.excerpt && (
+					<span className="text-manga-medium-gray">
+						{" "}
+						(“{contentBlock.excerpt}”)
+					</span>
+				)}
+				. Edit the scene description and retry:
+			</label>
+			<textarea
+				id={textareaId}
+				className="form-control-manga text-sm"
+				rows={3}
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				disabled={disabled}
+			/>
+			<button
+				type="button"
+				className="mt-2 px-3 py-1 text-sm border border-manga-danger text-manga-danger rounded hover:bg-manga-danger hover:text-white transition-colors"
+				onClick={() => onRetry(draft.trim())}
+				disabled={disabled || draft.trim().length === 0}
+			>
+				Save &amp; Retry Panel {panelNumber}
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,334 @@
+import { useId } from "react";
+import type { BreakdownEdit } from "@/lib/breakdown-editing";
+import type { StoryLocation } from "@/lib/locations";
+import { findPanelProps } from "@/lib/story-props";
+import type { StoryBreakdown } from "@/types";
+
+type BreakdownPanel = StoryBreakdown["panels"][number];
+
+interface BreakdownEditorProps {
+	panels: BreakdownPanel[]; // the panels to show, e.g. one chapter's
+	panelCount: number; // panels in the whole breakdown
+	characterNames: string[];
+	locations: Pick<StoryLocation, "id" | "name">[];
+	propNames: string[];
+	onChange: (
+		panelNumber: number,
+		changes: Partial<Omit<BreakdownPanel, "panelNumber">>,
+	) => void;
+	onEdit: (edit: BreakdownEdit) => void;
+	disabled?: boolean;
+}
+
+// Suggestions for the camera angle field, which still takes any text
+const CAMERA_ANGLES = [
+	"wide shot",
+	"establishing shot",
+	"medium shot",
+	"close-up",
+	"extreme close-up",
+	"over-the-shoulder shot",
+	"low angle shot",
+	"high angle shot",
+	"bird's-eye view",
+];
+
+const toolButtonClass =
+	"px-2 py-1 text-xs border border-manga-medium-gray rounded hover:bg-manga-medium-gray/10 transition-colors disabled:opacity-40";
+
+interface PanelEditorProps {
+	panel: BreakdownPanel;
+	panelCount: number;
+	characterNames: string[];
+	locations: BreakdownEditorProps["locations"];
+	propNames: string[];
+	cameraAnglesId: string;
+	onChange: BreakdownEditorProps["onChange"];
+	onEdit: BreakdownEditorProps["onEdit"];
+	disabled: boolean;
+}
+
+function PanelEditor({
+	panel,
+	panelCount,
+	characterNames,
+	locations,
+	propNames,
+	cameraAnglesId,
+	onChange,
+	onEdit,
+	disabled,
+}: PanelEditorProps) {
+	const fieldId = useId();
+	const { panelNumber } = panel;
+	// Characters the analysis no longer has stay listed until unticked
+	const names = [
+		...characterNames,
+		...panel.characters.filter((name) => !characterNames.includes(name)),
+	];
+	// Panels laid out without props show the ones their scene mentions
+	const panelProps =
+		panel.props ??
+		findPanelProps(
+			propNames.map((name) => ({ name, description: "" })),
+			panel,
+		).map(({ name }) => name);
+
+	return (
+		<div className="card-manga">
+			<div className="card-body space-y-2">
+				<div className="flex justify-between items-center gap-2 flex-wrap">
+					<h6 className="card-title mb-0">Panel {panelNumber}</h6>
+					<div className="flex gap-1 flex-wrap">
+						<button
+							type="button"
+							className={toolButtonClass}
+							title="Move up"
+							aria-label={`Move panel ${panelNumber} up`}
+							onClick={() => onEdit({ type: "move", panelNumber, offset: -1 })}
+							disabled={disabled || panelNumber === 1}
+						>
+							↑
+						</button>
+						<button
+							type="button"
+							className={toolButtonClass}
+							title="Move down"
+							aria-label={`Move panel ${panelNumber} down`}
+							onClick={() => onEdit({ type: "move", panelNumber, offset: 1 })}
+							disabled={disabled || panelNumber === panelCount}
+						>
+							↓
+						</button>
+						<button
+							type="button"
+							className={toolButtonClass}
+							title="Split the scene description into two panels"
+							onClick={() => onEdit({ type: "split", panelNumber })}
+							disabled={disabled}
+						>
+							Split
+						</button>
+						<button
+							type="button"
+							className={toolButtonClass}
+							title="Merge with the next panel"
+							onClick={() => onEdit({ type: "merge", panelNumber })}
+							disabled={disabled || panelNumber === panelCount}
+						>
+							Merge ↓
+						</button>
+						<button
+							type="button"
+							className={`${toolButtonClass} text-manga-danger`}
+							onClick={() => onEdit({ type: "delete", panelNumber })}
+							disabled={disabled || panelCount === 1}
+						>
+							Delete
+						</button>
+					</div>
+				</div>
+
+				<label htmlFor={`${fieldId}-scene`} className="block text-sm">
+					Scene
+				</label>
+				<textarea
+					id={`${fieldId}-scene`}
+					className="form-control-manga text-sm"
+					rows={3}
+					value={panel.sceneDescription}
+					onChange={(e) =>
+						onChange(panelNumber, { sceneDescription: e.target.value })
+					}
+					disabled={disabled}
+				/>
+				{!panel.sceneDescription.trim() && (
+					<p className="text-manga-danger text-xs">
+						Describe the scene before generating this panel
+					</p>
+				)}
+
+				<label htmlFor={`${fieldId}-dialogue`} className="block text-sm">
+					Dialogue
+				</label>
+				<input
+					id={`${fieldId}-dialogue`}
+					type="text"
+					className="form-control-manga text-sm"
+					placeholder="e.g. Mira: We have to go."
+					value={panel.dialogue ?? ""}
+					onChange={(e) => onChange(panelNumber, { dialogue: e.target.value })}
+					disabled={disabled}
+				/>
+
+				{locations.length > 0 && (
+					<label htmlFor={`${fieldId}-location`} className="block text-sm">
+						Location
+						<select
+							id={`${fieldId}-location`}
+							className="form-control-manga text-sm"
+							value={panel.locationId ?? ""}
+							onChange={(e) =>
+								onChange(panelNumber, { locationId: e.target.value })
+							}
+							disabled={disabled}
+						>
+							{!locations.some(({ id }) => id === panel.locationId) && (
+								<option value="">Story setting</option>
+							)}
+							{locations.map((location) => (
+								<option key={location.id} value={location.id}>
+									{location.name}
+								</option>
+							))}
+						</select>
+					</label>
+				)}
+
+				{names.length > 0 && (
+					<fieldset className="text-sm">
+						<legend className="mb-1">Characters</legend>
+						<div className="flex gap-3 flex-wrap">
+							{names.map((name) => (
+								<label key={name} className="flex items-center gap-1">
+									<input
+										type="checkbox"
+										className="form-checkbox h-4 w-4 text-manga-black"
+										checked={panel.characters.includes(name)}
+										onChange={(e) =>
+											onChange(panelNumber, {
+												characters: e.target.checked
+													? [...panel.characters, name]
+													: panel.characters.filter(
+															(character) => character !== name,
+														),
+											})
+										}
+										disabled={disabled}
+									/>
+									{name}
+								</label>
+							))}
+						</div>
+					</fieldset>
+				)}
+
+				{propNames.length > 0 && (
+					<fieldset className="text-sm">
+						<legend className="mb-1">Props</legend>
+						<div className="flex gap-3 flex-wrap">
+							{propNames.map((name) => (
+								<label key={name} className="flex items-center gap-1">
+									<input
+										type="checkbox"
+										className="form-checkbox h-4 w-4 text-manga-black"
+										checked={panelProps.includes(name)}
+										onChange={(e) =>
+											onChange(panelNumber, {
+												props: e.target.checked
+													? [...panelProps, name]
+													: panelProps.filter((prop) => prop !== name),
+											})
+										}
+										disabled={disabled}
+									/>
+									{name}
+								</label>
+							))}
+						</div>
+					</fieldset>
+				)}
+
+				<div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+					<label className="block text-sm">
+						Camera angle
+						<input
+							type="text"
+							className="form-control-manga text-sm"
+							list={cameraAnglesId}
+							value={panel.cameraAngle}
+							onChange={(e) =>
+								onChange(panelNumber, { cameraAngle: e.target.value })
+							}
+							disabled={disabled}
+						/>
+					</label>
+					<label className="block text-sm">
+						Mood
+						<input
+							type="text"
+							className="form-control-manga text-sm"
+							value={panel.visualMood}
+							onChange={(e) =>
+								onChange(panelNumber, { visualMood: e.target.value })
+							}
+							disabled={disabled}
+						/>
+					</label>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export default function BreakdownEditor({
+	panels,
+	panelCount,
+	characterNames,
+	locations,
+	propNames,
+	onChange,
+	onEdit,
+	disabled = false,
+}: BreakdownEditorProps) {
+	const cameraAnglesId = useId();
+
+	return (
+		<div className="space-y-2">
+			<datalist id={cameraAnglesId}>
+				{CAMERA_ANGLES.map((angle) => (
+					<option key={angle} value={angle} />
+				))}
+			</datalist>
+			{panels[0]?.panelNumber === 1 && (
+				<div className="text-center">
+					<button
+						type="button"
+						className={toolButtonClass}
+						onClick={() => onEdit({ type: "insert", after: 0 })}
+						disabled={disabled}
+					>
+						+ Add panel at the start
+					</button>
+				</div>
+			)}
+			{panels.map((panel) => (
+				<div key={`edit-panel-${panel.panelNumber}`} className="space-y-2">
+					<PanelEditor
+						panel={panel}
+						panelCount={panelCount}
+						characterNames={characterNames}
+						locations={locations}
+						propNames={propNames}
+						cameraAnglesId={cameraAnglesId}
+						onChange={onChange}
+						onEdit={onEdit}
+						disabled={disabled}
+					/>
+					<div className="text-center">
+						<button
+							type="button"
+							className={toolButtonClass}
+							onClick={() =>
+								onEdit({ type: "insert", after: panel.panelNumber })
+							}
+							disabled={disabled}
+						>
+							+ Add panel after {panel.panelNumber}
+						</button>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,60 @@
+import type { ImageCandidate } from "@/types";
+
+interface CandidateFilmstripProps {
+	candidates: ImageCandidate[];
+	selectedIndex: number;
+	label: string; // e.g. "Panel 3", used for alt text
+	onSelect: (index: number) => void;
+	// Called with the hovered or focused candidate, null when it is left
+	onPreview: (index: number | null) => void;
+	disabled?: boolean;
+}
+
+export default function CandidateFilmstrip({
+	candidates,
+	selectedIndex,
+	label,
+	onSelect,
+	onPreview,
+	disabled = false,
+}: CandidateFilmstripProps) {
+	return (
+		<div className="flex gap-1 justify-center flex-wrap mb-2">
+			{candidates.map((candidate, index) => {
+				const isSelected = index === selectedIndex;
+				const seed = candidate.generation?.seed;
+				return (
+					<button
+						key={
+							candidate.generation
+								? `${candidate.generation.createdAt}-${seed}`
+								: "original"
+						}
+						type="button"
+						className={`w-12 h-12 rounded overflow-hidden border-2 transition-opacity ${
+							isSelected
+								? "border-manga-black"
+								: "border-transparent opacity-70 hover:opacity-100"
+						}`}
+						title={`Candidate ${index + 1}${seed != null ? ` · seed ${seed}` : ""}${isSelected ? " (selected)" : " · click to use"}`}
+						aria-pressed={isSelected}
+						onClick={() => onSelect(index)}
+						onMouseEnter={() => onPreview(index)}
+						onMouseLeave={() => onPreview(null)}
+						onFocus={() => onPreview(index)}
+						onBlur={() => onPreview(null)}
+						disabled={disabled || !candidate.image}
+					>
+						{candidate.image && (
+							<img
+								src={candidate.image}
+								alt={`${label} candidate ${index + 1}`}
+								className="w-full h-full object-cover"
+							/>
+						)}
+					</button>
+				);
+			})}
+		</div>
+	);
+}
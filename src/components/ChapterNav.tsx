@@ -0,0 +1,51 @@
+interface ChapterNavProps {
+	chapters: { title: string }[];
+	panels: { chapter?: number }[];
+	activeChapter: number | null; // null shows every chapter
+	onSelect: (chapter: number | null) => void;
+}
+
+function navButtonClass(isActive: boolean): string {
+	return `px-3 py-1 text-sm border rounded transition-colors ${
+		isActive
+			? "bg-manga-black text-white border-manga-black"
+			: "border-manga-medium-gray text-manga-black hover:bg-manga-medium-gray/10"
+	}`;
+}
+
+export default function ChapterNav({
+	chapters,
+	panels,
+	activeChapter,
+	onSelect,
+}: ChapterNavProps) {
+	return (
+		<nav aria-label="Chapters" className="flex gap-2 flex-wrap mb-3">
+			<button
+				type="button"
+				className={navButtonClass(activeChapter === null)}
+				aria-pressed={activeChapter === null}
+				onClick={() => onSelect(null)}
+			>
+				All chapters
+			</button>
+			{chapters.map((chapter, index) => {
+				const panelCount = panels.filter(
+					(panel) => panel.chapter === index,
+				).length;
+				return (
+					<button
+						key={`chapter-${index}-${chapter.title}`}
+						type="button"
+						className={navButtonClass(activeChapter === index)}
+						aria-pressed={activeChapter === index}
+						onClick={() => onSelect(index)}
+					>
+						{index + 1}. {chapter.title}
+						<span className="opacity-70"> ({panelCount})</span>
+					</button>
+				);
+			})}
+		</nav>
+	);
+}
@@ -1,4 +1,8 @@
+import { useState } from "react";
+import type { ImageCandidate, ImageGenerationMetadata } from "@/types";
+import CandidateFilmstrip from "./CandidateFilmstrip";
 import DownloadButton from "./DownloadButton";
+import GenerationInfo from "./GenerationInfo";
 import LoadingSpinner from "./LoadingSpinner";
 import RerunButton from "./RerunButton";
 
@@ -8,13 +12,18 @@ interface CharacterCardProps {
 		physicalDescription?: string;
 		role?: string;
 		image?: string;
+		generation?: ImageGenerationMetadata;
+		candidates?: ImageCandidate[];
+		selectedCandidate?: number;
 		description?: string;
 	};
 	showImage?: boolean;
 	onImageClick?: (imageUrl: string, name: string) => void;
 	onDownload?: () => void;
-	onRegenerate?: () => void;
+	// reuseSeed is true for "same seed", false for a fresh seed
+	onRegenerate?: (reuseSeed: boolean) => void;
 	isRegenerating?: boolean;
+	onSelectCandidate?: (index: number) => void;
 }
 
 export default function CharacterCard({
@@ -24,21 +33,33 @@ export default function CharacterCard({
 	onDownload,
 	onRegenerate,
 	isRegenerating = false,
+	onSelectCandidate,
 }: CharacterCardProps) {
+	// The candidate under the pointer replaces the selected image for comparison
+	const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+	const preview =
+		previewIndex != null ? character.candidates?.[previewIndex] : undefined;
+	const shown = preview?.image ? preview : character;
+	const candidates = character.candidates ?? [];
+
 	return (
-		<div className={showImage ? "text-center ph-no-capture character-reveal" : "card-manga"}>
+		<div
+			className={
+				showImage ? "text-center ph-no-capture character-reveal" : "card-manga"
+			}
+		>
 			{showImage && character.image ? (
 				<>
 					<div className="relative">
 						<img
-							src={character.image}
+							src={shown.image}
 							alt={character.name}
 							className="w-full h-48 object-cover rounded mb-2 border-2 border-manga-black shadow-comic transition-transform hover:scale-105 cursor-pointer"
-							onClick={() => onImageClick?.(character.image!, character.name)}
+							onClick={() => onImageClick?.(shown.image!, character.name)}
 							onKeyDown={(e) => {
 								if (e.key === "Enter" || e.key === " ") {
 									e.preventDefault();
-									onImageClick?.(character.image!, character.name);
+									onImageClick?.(shown.image!, character.name);
 								}
 							}}
 						/>
@@ -51,10 +72,21 @@ export default function CharacterCard({
 							</div>
 						)}
 					</div>
+					{onSelectCandidate && candidates.length > 1 && (
+						<CandidateFilmstrip
+							candidates={candidates}
+							selectedIndex={character.selectedCandidate ?? 0}
+							label={character.name}
+							onSelect={onSelectCandidate}
+							onPreview={setPreviewIndex}
+							disabled={isRegenerating}
+						/>
+					)}
 					<h6 className="font-semibold">{character.name}</h6>
 					<p className="text-sm text-manga-medium-gray mb-2">
 						{character.description}
 					</p>
+					{shown.generation && <GenerationInfo generation={shown.generation} />}
 					<div className="flex gap-2 justify-center">
 						{onDownload && (
 							<DownloadButton
@@ -67,13 +99,21 @@ export default function CharacterCard({
 						)}
 						{onRegenerate && (
 							<RerunButton
-								onClick={onRegenerate}
+								onClick={() => onRegenerate(false)}
 								isLoading={isRegenerating}
-								label="Regenerate"
+								label="New Seed"
 								loadingText="Regenerating..."
 								disabled={isRegenerating}
 							/>
 						)}
+						{onRegenerate && character.generation?.seed != null && (
+							<RerunButton
+								onClick={() => onRegenerate(true)}
+								isLoading={false}
+								label="Same Seed"
+								disabled={isRegenerating}
+							/>
+						)}
 					</div>
 				</>
 			) : (
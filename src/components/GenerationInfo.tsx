@@ -0,0 +1,19 @@
+import type { ImageGenerationMetadata } from "@/types";
+
+interface GenerationInfoProps {
+	generation: ImageGenerationMetadata;
+}
+
+export default function GenerationInfo({ generation }: GenerationInfoProps) {
+	return (
+		<p
+			className="text-xs text-manga-medium-gray mb-2 break-all"
+			title={generation.prompt}
+		>
+			🎲 Seed {generation.seed ?? "n/a"} · {generation.provider} (
+			{generation.model})
+			{generation.promptTemplate &&
+				` · ${generation.promptTemplate.id} prompt v${generation.promptTemplate.version}`}
+		</p>
+	);
+}
@@ -1,4 +1,8 @@
+import { useState } from "react";
+import type { ImageCandidate, ImageGenerationMetadata } from "@/types";
+import CandidateFilmstrip from "./CandidateFilmstrip";
 import DownloadButton from "./DownloadButton";
+import GenerationInfo from "./GenerationInfo";
 import LoadingSpinner from "./LoadingSpinner";
 import RerunButton from "./RerunButton";
 import SpeechBubble from "./SpeechBubble";
@@ -11,13 +15,21 @@ interface PanelCardProps {
 		characters?: string[];
 		cameraAngle?: string;
 		visualMood?: string;
+		aspectRatio?: string;
+		location?: string; // name of the location the panel is set in
+		props?: string[];
 		image?: string;
+		generation?: ImageGenerationMetadata;
+		candidates?: ImageCandidate[];
+		selectedCandidate?: number;
 	};
 	showImage?: boolean;
 	onImageClick?: (imageUrl: string, altText: string) => void;
 	onDownload?: () => void;
-	onRegenerate?: () => void;
+	// reuseSeed is true for "same seed", false for a fresh seed
+	onRegenerate?: (reuseSeed: boolean) => void;
 	isRegenerating?: boolean;
+	onSelectCandidate?: (index: number) => void;
 }
 
 export default function PanelCard({
@@ -27,24 +39,36 @@ export default function PanelCard({
 	onDownload,
 	onRegenerate,
 	isRegenerating = false,
+	onSelectCandidate,
 }: PanelCardProps) {
+	// The candidate under the pointer replaces the selected image for comparison
+	const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+	const preview =
+		previewIndex != null ? panel.candidates?.[previewIndex] : undefined;
+	const shown = preview?.image ? preview : panel;
+	const candidates = panel.candidates ?? [];
+
 	return (
-		<div className={showImage ? "text-center ph-no-capture panel-reveal" : "card-manga"}>
+		<div
+			className={
+				showImage ? "text-center ph-no-capture panel-reveal" : "card-manga"
+			}
+		>
 			{showImage && panel.image ? (
 				<>
 					<div className="relative">
 						<img
-							src={panel.image}
+							src={shown.image}
 							alt={`Comic Panel ${panel.panelNumber}`}
 							className="w-full rounded mb-2 comic-panel cursor-pointer transition-transform hover:scale-[1.02]"
 							onClick={() =>
-								onImageClick?.(panel.image!, `Comic Panel ${panel.panelNumber}`)
+								onImageClick?.(shown.image!, `Comic Panel ${panel.panelNumber}`)
 							}
 							onKeyDown={(e) => {
 								if (e.key === "Enter" || e.key === " ") {
 									e.preventDefault();
 									onImageClick?.(
-										panel.image!,
+										shown.image!,
 										`Comic Panel ${panel.panelNumber}`,
 									);
 								}
@@ -59,7 +83,18 @@ export default function PanelCard({
 							</div>
 						)}
 					</div>
+					{onSelectCandidate && candidates.length > 1 && (
+						<CandidateFilmstrip
+							candidates={candidates}
+							selectedIndex={panel.selectedCandidate ?? 0}
+							label={`Panel ${panel.panelNumber}`}
+							onSelect={onSelectCandidate}
+							onPreview={setPreviewIndex}
+							disabled={isRegenerating}
+						/>
+					)}
 					<h6 className="font-semibold">Panel {panel.panelNumber}</h6>
+					{shown.generation && <GenerationInfo generation={shown.generation} />}
 					<div className="flex gap-2 justify-center mt-2">
 						{onDownload && (
 							<DownloadButton
@@ -72,13 +107,21 @@ export default function PanelCard({
 						)}
 						{onRegenerate && (
 							<RerunButton
-								onClick={onRegenerate}
+								onClick={() => onRegenerate(false)}
 								isLoading={isRegenerating}
-								label="Regenerate"
+								label="New Seed"
 								loadingText="Regenerating..."
 								disabled={isRegenerating}
 							/>
 						)}
+						{onRegenerate && panel.generation?.seed != null && (
+							<RerunButton
+								onClick={() => onRegenerate(true)}
+								isLoading={false}
+								label="Same Seed"
+								disabled={isRegenerating}
+							/>
+						)}
 					</div>
 				</>
 			) : (
@@ -96,6 +139,16 @@ export default function PanelCard({
 								<strong>Characters:</strong> {panel.characters.join(", ")}
 							</div>
 						)}
+						{panel.location && (
+							<div>
+								<strong>Location:</strong> {panel.location}
+							</div>
+						)}
+						{panel.props && panel.props.length > 0 && (
+							<div>
+								<strong>Props:</strong> {panel.props.join(", ")}
+							</div>
+						)}
 						{panel.cameraAngle && (
 							<div>
 								<strong>Camera:</strong> {panel.cameraAngle}
@@ -106,6 +159,11 @@ export default function PanelCard({
 								<strong>Mood:</strong> {panel.visualMood}
 							</div>
 						)}
+						{panel.aspectRatio && (
+							<div>
+								<strong>Shape:</strong> {panel.aspectRatio}
+							</div>
+						)}
 					</div>
 				</div>
 			)}
@@ -0,0 +1,30 @@
+import type { PromptInjectionWarning } from "@/types";
+
+interface PromptWarningsProps {
+	warnings: PromptInjectionWarning[];
+}
+
+export default function PromptWarnings({ warnings }: PromptWarningsProps) {
+	if (warnings.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="bg-manga-warning/10 border border-manga-warning p-3 rounded mb-4 text-sm">
+			<strong>⚠️ Possible prompt instructions in your input</strong>
+			<p className="mt-1 text-manga-dark-gray">
+				Some text reads like instructions to the AI rather than story content.
+				It was still used as part of the story, so check that the results match
+				what you expect.
+			</p>
+			<ul className="mt-2 space-y-1">
+				{warnings.map((warning) => (
+					<li key={`${warning.field}|${warning.reason}`}>
+						<strong>{warning.field}:</strong> {warning.reason}{" "}
+						<span className="text-manga-medium-gray">“{warning.excerpt}”</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
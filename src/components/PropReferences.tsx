@@ -0,0 +1,190 @@
+import { useId, useState } from "react";
+import type { StoryProp } from "@/lib/story-props";
+import type { PropReference } from "@/types";
+import GenerationInfo from "./GenerationInfo";
+import LoadingSpinner from "./LoadingSpinner";
+
+interface PropReferencesProps {
+	props: StoryProp[];
+	references: PropReference[];
+	generatingProps: Set<string>;
+	onGenerate: (name: string) => void;
+	// image is a data URL
+	onUpload: (name: string, image: string) => void;
+	onRemove: (name: string) => void;
+	onImageClick?: (imageUrl: string, name: string) => void;
+	maxSizeMB?: number;
+	disabled?: boolean;
+}
+
+const toolButtonClass =
+	"px-2 py-1 text-xs border border-manga-medium-gray rounded hover:bg-manga-medium-gray/10 transition-colors disabled:opacity-40";
+
+interface PropCardProps {
+	prop: StoryProp;
+	reference: PropReference | undefined;
+	isGenerating: boolean;
+	onGenerate: PropReferencesProps["onGenerate"];
+	onUpload: PropReferencesProps["onUpload"];
+	onRemove: PropReferencesProps["onRemove"];
+	onImageClick: PropReferencesProps["onImageClick"];
+	maxSizeMB: number;
+	disabled: boolean;
+}
+
+function PropCard({
+	prop,
+	reference,
+	isGenerating,
+	onGenerate,
+	onUpload,
+	onRemove,
+	onImageClick,
+	maxSizeMB,
+	disabled,
+}: PropCardProps) {
+	const fileInputId = useId();
+	const [error, setError] = useState<string | null>(null);
+	const image = reference?.image;
+
+	const readFile = (file: File) => {
+		if (file.size > maxSizeMB * 1024 * 1024) {
+			setError(`File size must be less than ${maxSizeMB}MB`);
+			return;
+		}
+		if (!file.type.startsWith("image/")) {
+			setError("Please select an image file");
+			return;
+		}
+		const reader = new FileReader();
+		reader.onload = (e) => {
+			const result = e.target?.result as string;
+			if (result) {
+				onUpload(prop.name, result);
+				setError(null);
+			}
+		};
+		reader.onerror = () => {
+			setError("Failed to read file");
+		};
+		reader.readAsDataURL(file);
+	};
+
+	return (
+		<div className="card-manga">
+			<div className="card-body text-center space-y-2">
+				<div className="relative">
+					{image ? (
+						<img
+							src={image}
+							alt={prop.name}
+							className="w-full h-40 object-contain rounded border-2 border-manga-black cursor-pointer"
+							onClick={() => onImageClick?.(image, prop.name)}
+							onKeyDown={(e) => {
+								if (e.key === "Enter" || e.key === " ") {
+									e.preventDefault();
+									onImageClick?.(image, prop.name);
+								}
+							}}
+						/>
+					) : (
+						<div className="h-40 rounded border-2 border-dashed border-manga-medium-gray/50 bg-manga-medium-gray/10 flex items-center justify-center text-sm text-manga-medium-gray">
+							No reference image
+						</div>
+					)}
+					{isGenerating && (
+						<div className="absolute inset-0 bg-black/50 backdrop-blur-sm rounded flex flex-col items-center justify-center">
+							<LoadingSpinner size="large" color="white" />
+							<span className="text-white text-sm font-medium mt-2">
+								Generating...
+							</span>
+						</div>
+					)}
+				</div>
+				<h6 className="font-semibold">{prop.name}</h6>
+				<p className="text-sm text-manga-medium-gray">{prop.description}</p>
+				{reference?.generation && (
+					<GenerationInfo generation={reference.generation} />
+				)}
+				<div className="flex gap-1 justify-center flex-wrap">
+					<button
+						type="button"
+						className={toolButtonClass}
+						onClick={() => onGenerate(prop.name)}
+						disabled={disabled || isGenerating || !prop.description.trim()}
+					>
+						{image ? "Generate Again" : "Generate"}
+					</button>
+					<label
+						htmlFor={fileInputId}
+						className={`${toolButtonClass} cursor-pointer ${disabled || isGenerating ? "opacity-40 pointer-events-none" : ""}`}
+					>
+						Upload
+					</label>
+					<input
+						id={fileInputId}
+						type="file"
+						accept="image/*"
+						className="hidden"
+						onChange={(e) => {
+							const file = e.target.files?.[0];
+							if (file) readFile(file);
+							// Reset input value to allow selecting the same file again
+							e.target.value = "";
+						}}
+						disabled={disabled || isGenerating}
+					/>
+					{reference && (
+						<button
+							type="button"
+							className={`${toolButtonClass} text-manga-danger`}
+							onClick={() => onRemove(prop.name)}
+							disabled={disabled || isGenerating}
+						>
+							Remove
+						</button>
+					)}
+				</div>
+				{error && <p className="text-manga-danger text-xs">{error}</p>}
+			</div>
+		</div>
+	);
+}
+
+export default function PropReferences({
+	props,
+	references,
+	generatingProps,
+	onGenerate,
+	onUpload,
+	onRemove,
+	onImageClick,
+	maxSizeMB = 10,
+	disabled = false,
+}: PropReferencesProps) {
+	return (
+		<div>
+			<h5 className="font-semibold mb-1">Props</h5>
+			<p className="text-sm text-manga-medium-gray mb-2">
+				A reference image keeps a prop looking the same in every panel that
+				shows it. Generate one or upload your own.
+			</p>
+			<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+				{props.map((prop) => (
+					<PropCard
+						key={prop.name}
+						prop={prop}
+						reference={references.find(({ name }) => name === prop.name)}
+						isGenerating={generatingProps.has(prop.name)}
+						onGenerate={onGenerate}
+						onUpload={onUpload}
+						onRemove={onRemove}
+						onImageClick={onImageClick}
+						maxSizeMB={maxSizeMB}
+						disabled={disabled}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -6,6 +6,7 @@ interface RerunButtonProps {
 	disabled?: boolean;
 	label?: string;
 	loadingText?: string;
+	title?: string;
 }
 
 export default function RerunButton({
@@ -14,12 +15,14 @@ export default function RerunButton({
 	disabled = false,
 	label = "Re-run",
 	loadingText = "Re-running...",
+	title = "Generate this step again without using cached results",
 }: RerunButtonProps) {
 	return (
 		<button
 			type="button"
 			className="btn-manga-secondary"
 			onClick={onClick}
+			title={title}
 			disabled={isLoading || disabled}
 		>
 			{isLoading ? (
@@ -0,0 +1,157 @@
+"use client";
+
+import { useId, useState } from "react";
+import { trackEvent } from "@/lib/analytics";
+import {
+	type ImportedStory,
+	importStoryFile,
+	joinSections,
+	STORY_IMPORT_ACCEPT,
+} from "@/lib/story-import";
+
+interface StoryImportProps {
+	// screenplay is set for Fountain files
+	onImport: (story: string, screenplay: boolean) => void;
+	disabled?: boolean;
+}
+
+// Value of the section picker option that imports every section
+const WHOLE_FILE = "all";
+
+function countWords(text: string): number {
+	return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+export default function StoryImport({
+	onImport,
+	disabled = false,
+}: StoryImportProps) {
+	const fileInputId = useId();
+	const sectionSelectId = useId();
+	const [isImporting, setIsImporting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// Set while the user picks a section of a file with several
+	const [imported, setImported] = useState<ImportedStory | null>(null);
+	const [selection, setSelection] = useState("0");
+
+	const handleFileSelect = async (
+		event: React.ChangeEvent<HTMLInputElement>,
+	) => {
+		const file = event.target.files?.[0];
+		// Reset input value to allow selecting the same file again
+		event.target.value = "";
+		if (!file) return;
+
+		setIsImporting(true);
+		setError(null);
+		setImported(null);
+		try {
+			const story = await importStoryFile(file);
+			trackEvent({
+				action: "import_story_file",
+				category: "user_interaction",
+				label: file.name.split(".").pop()?.toLowerCase() ?? "unknown",
+				value: story.sections.length,
+			});
+			if (story.sections.length === 1) {
+				onImport(joinSections(story.sections), !!story.screenplay);
+			} else {
+				setImported(story);
+				setSelection("0");
+			}
+		} catch (importError) {
+			setError(
+				importError instanceof Error
+					? importError.message
+					: "Failed to read file",
+			);
+		} finally {
+			setIsImporting(false);
+		}
+	};
+
+	const selectedText = imported
+		? selection === WHOLE_FILE
+			? joinSections(imported.sections)
+			: (imported.sections[Number(selection)]?.text ?? "")
+		: "";
+
+	return (
+		<div>
+			<label
+				htmlFor={fileInputId}
+				className={`btn-manga-secondary text-sm inline-block ${
+					disabled || isImporting
+						? "opacity-50 cursor-not-allowed"
+						: "cursor-pointer"
+				}`}
+			>
+				{isImporting ? "Reading file..." : "📄 Import from File"}
+			</label>
+			<input
+				id={fileInputId}
+				type="file"
+				accept={STORY_IMPORT_ACCEPT}
+				onChange={handleFileSelect}
+				className="hidden"
+				disabled={disabled || isImporting}
+			/>
+			{error && <div className="text-manga-danger text-sm mt-1">{error}</div>}
+
+			{imported && (
+				<div className="card-manga mt-2">
+					<div className="card-body">
+						<label
+							htmlFor={sectionSelectId}
+							className="block text-manga-black font-medium mb-2"
+						>
+							“{imported.title}” has {imported.sections.length} sections. Which
+							one should become the story?
+						</label>
+						<select
+							id={sectionSelectId}
+							className="form-control-manga w-full"
+							value={selection}
+							onChange={(e) => setSelection(e.target.value)}
+						>
+							{imported.sections.map((section, index) => (
+								<option key={`${index}-${section.title}`} value={String(index)}>
+									{section.title} ({countWords(section.text).toLocaleString()}{" "}
+									words)
+								</option>
+							))}
+							<option value={WHOLE_FILE}>
+								Whole file (
+								{countWords(joinSections(imported.sections)).toLocaleString()}{" "}
+								words)
+							</option>
+						</select>
+						<p className="text-sm text-manga-medium-gray mt-2 line-clamp-3">
+							{selectedText.slice(0, 400)}
+						</p>
+						<div className="flex gap-2 mt-2">
+							<button
+								type="button"
+								className="btn-manga-primary text-sm"
+								onClick={() => {
+									onImport(selectedText, false);
+									setImported(null);
+								}}
+								disabled={disabled}
+							>
+								Use This Text
+							</button>
+							<button
+								type="button"
+								className="btn-manga-secondary text-sm"
+								onClick={() => setImported(null)}
+							>
+								Cancel
+							</button>
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
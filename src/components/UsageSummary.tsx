@@ -0,0 +1,27 @@
+import { formatCost } from "@/lib/usage";
+import type { GenerationUsage } from "@/types";
+
+interface UsageSummaryProps {
+	usage: GenerationUsage;
+}
+
+export default function UsageSummary({ usage }: UsageSummaryProps) {
+	const totalTokens = usage.inputTokens + usage.outputTokens;
+	if (totalTokens === 0 && usage.images === 0) {
+		return null;
+	}
+
+	return (
+		<div
+			className="text-xs text-manga-medium-gray mb-4"
+			title="Estimated from the server's price table. Includes regenerations and retries for this comic."
+		>
+			💰 Estimated cost: <strong>{formatCost(usage.estimatedCostUsd)}</strong>
+			{" · "}
+			{usage.inputTokens.toLocaleString()} input /{" "}
+			{usage.outputTokens.toLocaleString()} output tokens
+			{" · "}
+			{usage.images} {usage.images === 1 ? "image" : "images"}
+		</div>
+	);
+}
@@ -4,6 +4,7 @@ import type {
 	CharacterReference,
 	ComicStyle,
 	GeneratedPanel,
+	PropReference,
 	StoryAnalysis,
 	StoryBreakdown,
 	UploadedCharacterReference,
@@ -16,6 +17,7 @@ interface UseAppInitializationProps {
 	setNoDialogue: (noDialogue: boolean) => void;
 	setStoryAnalysis: (analysis: StoryAnalysis | null) => void;
 	setCharacterReferences: (refs: CharacterReference[]) => Promise<void>;
+	setPropReferences: (refs: PropReference[]) => Promise<void>;
 	setStoryBreakdown: (breakdown: StoryBreakdown | null) => void;
 	setGeneratedPanels: (panels: GeneratedPanel[]) => Promise<void>;
 	setUploadedCharacterReferences: (refs: UploadedCharacterReference[]) => void;
@@ -31,6 +33,7 @@ export function useAppInitialization(props: UseAppInitializationProps) {
 		setNoDialogue,
 		setStoryAnalysis,
 		setCharacterReferences,
+		setPropReferences,
 		setStoryBreakdown,
 		setGeneratedPanels,
 		setUploadedCharacterReferences,
@@ -49,6 +52,7 @@ export function useAppInitialization(props: UseAppInitializationProps) {
 					setNoDialogue(savedState.noDialogue);
 					setStoryAnalysis(savedState.storyAnalysis);
 					await setCharacterReferences(savedState.characterReferences);
+					await setPropReferences(savedState.propReferences);
 					setStoryBreakdown(savedState.storyBreakdown);
 					await setGeneratedPanels(savedState.generatedPanels);
 					setUploadedCharacterReferences(
@@ -86,6 +90,7 @@ export function useAppInitialization(props: UseAppInitializationProps) {
 		setIsLoadingState,
 		setNoDialogue,
 		setOpenAccordions,
+		setPropReferences,
 		setStory,
 		setStoryAnalysis,
 		setStoryBreakdown,
@@ -4,6 +4,7 @@ import type {
 	CharacterReference,
 	ComicStyle,
 	GeneratedPanel,
+	PropReference,
 	StoryAnalysis,
 	StoryBreakdown,
 	UploadedCharacterReference,
@@ -20,6 +21,7 @@ interface UseAutoSaveProps {
 	generatedPanels: GeneratedPanel[];
 	uploadedCharacterReferences: UploadedCharacterReference[];
 	uploadedSettingReferences: UploadedSettingReference[];
+	propReferences: PropReference[];
 	isLoadingState: boolean;
 	setIsSavingState: (saving: boolean) => void;
 }
@@ -35,6 +37,7 @@ export function useAutoSave(props: UseAutoSaveProps) {
 		generatedPanels,
 		uploadedCharacterReferences,
 		uploadedSettingReferences,
+		propReferences,
 		isLoadingState,
 		setIsSavingState,
 	} = props;
@@ -55,6 +58,7 @@ export function useAutoSave(props: UseAutoSaveProps) {
 					generatedPanels,
 					uploadedCharacterReferences,
 					uploadedSettingReferences,
+					propReferences,
 				);
 			} catch (error) {
 				console.error("Failed to save state:", error);
@@ -84,6 +88,7 @@ export function useAutoSave(props: UseAutoSaveProps) {
 		generatedPanels,
 		uploadedCharacterReferences,
 		uploadedSettingReferences,
+		propReferences,
 		isLoadingState,
 		setIsSavingState,
 	]);
@@ -0,0 +1,297 @@
+import { toLocationId } from "@/lib/locations";
+import type {
+	CharacterReference,
+	PropReference,
+	StoryAnalysis,
+	StoryBreakdown,
+} from "@/types";
+
+/**
+ * A change to the story's cast. Characters are referred to by name.
+ */
+export type CharacterEdit =
+	| { type: "add" }
+	| { type: "delete"; name: string }
+	| { type: "rename"; name: string; newName: string }
+	| { type: "merge"; name: string; into: string }; // name is removed
+
+/**
+ * A change to the story's locations. Locations are referred to by id, which
+ * stays the same when a location is renamed.
+ */
+export type LocationEdit = { type: "add" } | { type: "delete"; id: string };
+
+/**
+ * A change to the story's key props. Props are referred to by name.
+ */
+export type PropEdit =
+	| { type: "add" }
+	| { type: "delete"; name: string }
+	| { type: "rename"; name: string; newName: string };
+
+/**
+ * Everything that refers to characters by name
+ */
+interface Cast {
+	analysis: StoryAnalysis;
+	breakdown: StoryBreakdown | null;
+	references: CharacterReference[];
+}
+
+/**
+ * Whether another character already has the name (names are compared
+ * case-insensitively, as the layout validation does)
+ */
+export function isCharacterNameTaken(
+	analysis: StoryAnalysis,
+	name: string,
+	except?: string,
+): boolean {
+	return analysis.characters.some(
+		(character) =>
+			character.name !== except &&
+			character.name.toLowerCase() === name.trim().toLowerCase(),
+	);
+}
+
+function uniqueName(analysis: StoryAnalysis, base: string): string {
+	let name = base;
+	for (let count = 2; isCharacterNameTaken(analysis, name); count++) {
+		name = `${base} ${count}`;
+	}
+	return name;
+}
+
+/**
+ * Applies a cast edit to the analysis and keeps the panels' character lists
+ * and the character references in step: a renamed character keeps its
+ * reference under the new name, a merged character's panels go to the
+ * character it was merged into, and a deleted character is removed from
+ * every panel. Edits that don't apply (an empty or taken name, a missing
+ * character, deleting the last one) leave the cast as it is.
+ */
+export function editAnalysisCharacters(cast: Cast, edit: CharacterEdit): Cast {
+	const { analysis, breakdown, references } = cast;
+
+	if (edit.type === "add") {
+		return {
+			...cast,
+			analysis: {
+				...analysis,
+				characters: [
+					...analysis.characters,
+					{
+						name: uniqueName(analysis, "New character"),
+						physicalDescription: "",
+						personality: "",
+						role: "Supporting character",
+					},
+				],
+			},
+		};
+	}
+
+	if (!analysis.characters.some(({ name }) => name === edit.name)) {
+		return cast;
+	}
+
+	// How each panel's character name is replaced, null removes it
+	let replacement: string | null;
+	switch (edit.type) {
+		case "delete":
+			if (analysis.characters.length === 1) return cast;
+			replacement = null;
+			break;
+		case "rename": {
+			const newName = edit.newName.trim();
+			if (!newName || isCharacterNameTaken(analysis, newName, edit.name)) {
+				return cast;
+			}
+			replacement = newName;
+			break;
+		}
+		case "merge":
+			if (
+				edit.into === edit.name ||
+				!analysis.characters.some(({ name }) => name === edit.into)
+			) {
+				return cast;
+			}
+			replacement = edit.into;
+			break;
+	}
+
+	const characters =
+		edit.type === "rename"
+			? analysis.characters.map((character) =>
+					character.name === edit.name
+						? { ...character, name: replacement as string }
+						: character,
+				)
+			: analysis.characters.filter(({ name }) => name !== edit.name);
+
+	return {
+		analysis: { ...analysis, characters },
+		breakdown: breakdown && {
+			...breakdown,
+			panels: breakdown.panels.map((panel) => ({
+				...panel,
+				characters: [
+					...new Set(
+						panel.characters.flatMap((name) =>
+							name !== edit.name ? [name] : replacement ? [replacement] : [],
+						),
+					),
+				],
+			})),
+		},
+		references:
+			edit.type === "rename"
+				? references.map((reference) =>
+						reference.name === edit.name
+							? { ...reference, name: replacement as string }
+							: reference,
+					)
+				: references.filter(({ name }) => name !== edit.name),
+	};
+}
+
+/**
+ * Adds or deletes a location. Panels set in a deleted location lose their
+ * location and fall back to the story's setting. The last location can't
+ * be deleted.
+ */
+export function editAnalysisLocations(
+	{ analysis, breakdown }: Pick<Cast, "analysis" | "breakdown">,
+	edit: LocationEdit,
+): Pick<Cast, "analysis" | "breakdown"> {
+	const locations = analysis.locations ?? [];
+
+	if (edit.type === "add") {
+		let name = "New location";
+		for (
+			let count = 2;
+			locations.some(({ id }) => id === toLocationId(name));
+			count++
+		) {
+			name = `New location ${count}`;
+		}
+		return {
+			analysis: {
+				...analysis,
+				locations: [
+					...locations,
+					{ id: toLocationId(name), name, description: "" },
+				],
+			},
+			breakdown,
+		};
+	}
+
+	if (
+		locations.length === 1 ||
+		!locations.some((location) => location.id === edit.id)
+	) {
+		return { analysis, breakdown };
+	}
+	return {
+		analysis: {
+			...analysis,
+			locations: locations.filter((location) => location.id !== edit.id),
+		},
+		breakdown: breakdown && {
+			...breakdown,
+			panels: breakdown.panels.map((panel) => {
+				if (panel.locationId !== edit.id) return panel;
+				const { locationId: _locationId, ...rest } = panel;
+				return rest;
+			}),
+		},
+	};
+}
+
+/**
+ * Everything that refers to props by name
+ */
+interface PropSet {
+	analysis: StoryAnalysis;
+	breakdown: StoryBreakdown | null;
+	references: PropReference[];
+}
+
+/**
+ * Whether another prop already has the name (compared case-insensitively,
+ * as the layout validation does)
+ */
+export function isPropNameTaken(
+	analysis: StoryAnalysis,
+	name: string,
+	except?: string,
+): boolean {
+	return (analysis.props ?? []).some(
+		(prop) =>
+			prop.name !== except &&
+			prop.name.toLowerCase() === name.trim().toLowerCase(),
+	);
+}
+
+/**
+ * Applies a prop edit to the analysis and keeps the panels' prop lists and
+ * the prop references in step: a renamed prop keeps its reference under the
+ * new name, and a deleted prop is removed from every panel along with its
+ * reference. Edits that don't apply (an empty or taken name, a missing prop)
+ * leave the props as they are.
+ */
+export function editAnalysisProps(set: PropSet, edit: PropEdit): PropSet {
+	const { analysis, breakdown, references } = set;
+	const props = analysis.props ?? [];
+
+	if (edit.type === "add") {
+		let name = "New prop";
+		for (let count = 2; isPropNameTaken(analysis, name); count++) {
+			name = `New prop ${count}`;
+		}
+		return {
+			...set,
+			analysis: { ...analysis, props: [...props, { name, description: "" }] },
+		};
+	}
+
+	if (!props.some(({ name }) => name === edit.name)) return set;
+
+	const newName = edit.type === "rename" ? edit.newName.trim() : null;
+	if (
+		edit.type === "rename" &&
+		(!newName || isPropNameTaken(analysis, newName, edit.name))
+	) {
+		return set;
+	}
+
+	// Renames a prop, or removes it when there is no new name
+	const replace = <T extends { name: string }>(items: T[]): T[] =>
+		items.flatMap((item) =>
+			item.name !== edit.name
+				? [item]
+				: newName
+					? [{ ...item, name: newName }]
+					: [],
+		);
+
+	return {
+		analysis: { ...analysis, props: replace(props) },
+		breakdown: breakdown && {
+			...breakdown,
+			panels: breakdown.panels.map((panel) =>
+				panel.props
+					? {
+							...panel,
+							props: panel.props.flatMap((name) =>
+								name !== edit.name ? [name] : newName ? [newName] : [],
+							),
+						}
+					: panel,
+			),
+		},
+		references: replace(references),
+	};
+}
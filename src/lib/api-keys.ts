@@ -56,3 +56,33 @@ export function getAwsSecretAccessKey(): string {
 export function getAwsRegion(): string {
 	return process.env["AWS_REGION"] || "us-west-2";
 }
+
+/**
+ * Get the base URL of an OpenAI-compatible chat completions server
+ * @returns Base URL without trailing slash (defaults to a local Ollama server)
+ */
+export function getOpenAiCompatibleBaseUrl(): string {
+	return (
+		process.env["OPENAI_COMPATIBLE_BASE_URL"] || "http://localhost:11434/v1"
+	).replace(/\/+$/, "");
+}
+
+/**
+ * Get the API key for the OpenAI-compatible server
+ * @returns API key, or undefined for servers that don't require one (e.g. Ollama)
+ */
+export function getOpenAiCompatibleApiKey(): string | undefined {
+	return process.env["OPENAI_COMPATIBLE_API_KEY"] || undefined;
+}
+
+/**
+ * Get the model name to request from the OpenAI-compatible server
+ * @returns Model name
+ */
+export function getOpenAiCompatibleModel(): string {
+	const model = process.env["OPENAI_COMPATIBLE_MODEL"];
+	if (!model) {
+		throw new Error("OPENAI_COMPATIBLE_MODEL environment variable is not set");
+	}
+	return model;
+}
@@ -0,0 +1,94 @@
+import type { PanelAspectRatio } from "@/types";
+
+export const PANEL_ASPECT_RATIOS: readonly PanelAspectRatio[] = [
+	"1:1",
+	"3:2",
+	"2:3",
+	"16:9",
+	"9:16",
+	"21:9",
+];
+
+const DEFAULT_ASPECT_RATIO: PanelAspectRatio = "1:1";
+
+/**
+ * Falls back to a square panel for missing or unsupported values
+ */
+export function normalizeAspectRatio(value: unknown): PanelAspectRatio {
+	return (
+		PANEL_ASPECT_RATIOS.find((ratio) => ratio === value) ?? DEFAULT_ASPECT_RATIO
+	);
+}
+
+function getRatio(aspectRatio: PanelAspectRatio): number {
+	const [width = 1, height = 1] = aspectRatio.split(":").map(Number);
+	return width / height;
+}
+
+/**
+ * Pixel size for an aspect ratio with roughly the same area as a
+ * baseSize x baseSize square, rounded to multiples of 64
+ */
+export function getImageDimensions(
+	aspectRatio: PanelAspectRatio,
+	baseSize: number,
+): { width: number; height: number } {
+	const ratio = getRatio(aspectRatio);
+	const round = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+	return {
+		width: round(baseSize * Math.sqrt(ratio)),
+		height: round(baseSize / Math.sqrt(ratio)),
+	};
+}
+
+/**
+ * Picks the size from a fixed list whose proportions are closest to the aspect ratio
+ */
+export function getClosestSize(
+	aspectRatio: PanelAspectRatio,
+	sizes: readonly { width: number; height: number }[],
+): { width: number; height: number } {
+	const target = Math.log(getRatio(aspectRatio));
+	let closest = sizes[0] ?? { width: 1024, height: 1024 };
+	for (const size of sizes) {
+		if (
+			Math.abs(Math.log(size.width / size.height) - target) <
+			Math.abs(Math.log(closest.width / closest.height) - target)
+		) {
+			closest = size;
+		}
+	}
+	return closest;
+}
+
+/**
+ * How far an image's proportions are from the aspect ratio, as a factor of 1
+ * (same shape) or more
+ */
+export function getAspectRatioMismatch(
+	aspectRatio: PanelAspectRatio,
+	size: { width: number; height: number },
+): number {
+	return Math.exp(
+		Math.abs(
+			Math.log(size.width / size.height) - Math.log(getRatio(aspectRatio)),
+		),
+	);
+}
+
+/**
+ * Composition hint for the image prompt
+ */
+export function describeAspectRatio(aspectRatio: PanelAspectRatio): string {
+	const ratio = getRatio(aspectRatio);
+	if (ratio > 1.9) {
+		return `an ultra-wide ${aspectRatio} panel (panoramic, cinematic framing)`;
+	}
+	if (ratio > 1) {
+		return `a wide ${aspectRatio} landscape panel`;
+	}
+	if (ratio < 1) {
+		return `a tall ${aspectRatio} portrait panel (vertical composition)`;
+	}
+	return "a square 1:1 panel";
+}
@@ -3,17 +3,119 @@ import {
 	InvokeModelCommand,
 } from "@aws-sdk/client-bedrock-runtime";
 import type { Logger } from "pino";
+import type { PanelAspectRatio } from "@/types";
 import {
 	getAwsAccessKeyId,
 	getAwsRegion,
 	getAwsSecretAccessKey,
 } from "./api-keys";
+import { getAspectRatioMismatch, getClosestSize } from "./aspect-ratio";
+import { ContentBlockedError, providerBlockedError } from "./moderation";
 
 /**
  * Bedrock model constants
  */
 const BEDROCK_TEXT_MODEL = "anthropic.claude-sonnet-4-20250514-v1:0";
-const BEDROCK_IMAGE_MODEL = "stability.sd3-5-large-v1:0";
+const DEFAULT_BEDROCK_IMAGE_MODEL = "stability.sd3-5-large-v1:0";
+
+/**
+ * Titan Image Generator limits
+ */
+const TITAN_MAX_PROMPT_LENGTH = 512;
+const TITAN_MAX_VARIATION_IMAGES = 5;
+const TITAN_MAX_SEED = 2147483646;
+// Models that accept similarityStrength for image variation
+const TITAN_SIMILARITY_MODELS = new Set(["amazon.titan-image-generator-v2:0"]);
+const TITAN_MIN_SIMILARITY_STRENGTH = 0.2;
+const TITAN_MAX_SIMILARITY_STRENGTH = 1;
+const DEFAULT_TITAN_SIMILARITY_STRENGTH = 0.7;
+// Subset of the sizes Titan accepts, covering every panel aspect ratio
+const TITAN_IMAGE_SIZES = [
+	{ width: 1024, height: 1024 },
+	{ width: 1152, height: 768 },
+	{ width: 768, height: 1152 },
+	{ width: 1408, height: 768 },
+	{ width: 768, height: 1408 },
+	{ width: 1408, height: 640 },
+];
+
+/**
+ * Stability image-to-image strength when BEDROCK_STABILITY_STRENGTH is unset
+ */
+const DEFAULT_STABILITY_STRENGTH = 0.75;
+
+/**
+ * Stability image-to-image output takes the init image's shape, so a panel
+ * whose aspect ratio differs by more than this factor is drawn text-to-image
+ */
+const MAX_INIT_IMAGE_RATIO_MISMATCH = 1.2;
+
+/**
+ * Gets the Bedrock image model, selectable with BEDROCK_IMAGE_MODEL
+ * (e.g. "amazon.titan-image-generator-v2:0")
+ */
+function getBedrockImageModel(): string {
+	return process.env["BEDROCK_IMAGE_MODEL"] || DEFAULT_BEDROCK_IMAGE_MODEL;
+}
+
+/**
+ * Gets the Bedrock model used for a generation type
+ */
+export function getBedrockModel(generationType: "text" | "image"): string {
+	return generationType === "image"
+		? getBedrockImageModel()
+		: BEDROCK_TEXT_MODEL;
+}
+
+/**
+ * Whether the selected Bedrock image model can be guided by reference images
+ */
+export function bedrockImageModelSupportsReferences(): boolean {
+	const modelId = getBedrockImageModel();
+	return (
+		modelId.includes("amazon.titan-image") ||
+		stabilityModelSupportsImageToImage(modelId)
+	);
+}
+
+/**
+ * SD3 models accept an init image; Stable Image Core and Ultra are
+ * text-to-image only
+ */
+function stabilityModelSupportsImageToImage(modelId: string): boolean {
+	return modelId.includes("stability.sd3");
+}
+
+/**
+ * How far Stability image-to-image moves away from the init image, from 0
+ * (keep it) to 1 (ignore it), set with BEDROCK_STABILITY_STRENGTH
+ */
+function getStabilityStrength(): number {
+	const value = Number(
+		process.env["BEDROCK_STABILITY_STRENGTH"] || DEFAULT_STABILITY_STRENGTH,
+	);
+	return Number.isFinite(value) && value >= 0 && value <= 1
+		? value
+		: DEFAULT_STABILITY_STRENGTH;
+}
+
+/**
+ * How closely Titan image variation follows the reference images, set with
+ * BEDROCK_TITAN_SIMILARITY_STRENGTH and clamped to the 0.2-1.0 Titan accepts
+ */
+function getTitanSimilarityStrength(): number {
+	const value = Number(
+		process.env["BEDROCK_TITAN_SIMILARITY_STRENGTH"] ||
+			DEFAULT_TITAN_SIMILARITY_STRENGTH,
+	);
+	if (!Number.isFinite(value)) {
+		return DEFAULT_TITAN_SIMILARITY_STRENGTH;
+	}
+	return Math.min(
+		Math.max(value, TITAN_MIN_SIMILARITY_STRENGTH),
+		TITAN_MAX_SIMILARITY_STRENGTH,
+	);
+}
 
 /**
  * Bedrock client configuration
@@ -65,24 +167,57 @@ interface BedrockMultimodalRequest {
 	topP?: number;
 }
 
+/**
+ * Interface for Bedrock image generation request
+ */
+interface BedrockImageRequest extends BedrockTextRequest {
+	shortPrompt?: string; // used by Titan, which accepts short prompts only
+	referenceImages?: string[]; // base64 data URLs, used for Titan image variation
+	initImage?: string; // base64 data URL, used for Stability image-to-image
+	seed?: number;
+	aspectRatio?: PanelAspectRatio;
+}
+
+/**
+ * Bedrock response with token counts for cost accounting
+ */
+type BedrockResponse = (
+	| { text: string }
+	| {
+			image: string;
+			seed: number;
+			parameters: Record<string, unknown>;
+			// The prompt as sent, when it isn't request.prompt (Titan)
+			prompt?: string;
+	  }
+) & {
+	usage: { modelId: string; inputTokens: number; outputTokens: number };
+};
+
 /**
  * Wrapper function that calls Amazon Bedrock API with retry logic for transient failures
  */
 export async function callBedrockWithRetry(
-	request: BedrockTextRequest | BedrockMultimodalRequest,
+	request: BedrockTextRequest | BedrockMultimodalRequest | BedrockImageRequest,
 	logger: Logger,
 	generationType: "text" | "image",
 	context: Record<string, unknown> = {},
-): Promise<string | { image: string }> {
+): Promise<BedrockResponse> {
 	const startTime = Date.now();
 	const client = getBedrockClient();
+	// Chosen once so a retry reproduces the same image
+	const imageSeed =
+		"seed" in request && request.seed !== undefined
+			? request.seed
+			: Math.floor(Math.random() * TITAN_MAX_SEED);
+	let imageParameters: Record<string, unknown> = {};
+	let sentPrompt: string | undefined;
 
 	const attemptCall = async (
 		attemptNumber: number,
-	): Promise<string | { image: string }> => {
+	): Promise<BedrockResponse> => {
 		// Use the explicitly specified generation type to determine model
-		const modelId =
-			generationType === "image" ? BEDROCK_IMAGE_MODEL : BEDROCK_TEXT_MODEL;
+		const modelId = getBedrockModel(generationType);
 
 		logger.debug(
 			{
@@ -144,18 +279,76 @@ export async function callBedrockWithRetry(
 					"prompt" in request
 						? request.prompt
 						: extractPromptFromMessages(request.messages);
+				const aspectRatio =
+					"aspectRatio" in request && request.aspectRatio
+						? request.aspectRatio
+						: "1:1";
+				const initImage =
+					"initImage" in request &&
+					request.initImage &&
+					stabilityModelSupportsImageToImage(modelId) &&
+					initImageFitsAspectRatio(
+						request.initImage,
+						aspectRatio,
+						logger,
+						context,
+					)
+						? request.initImage
+						: undefined;
+				if (initImage) {
+					// The output takes the init image's dimensions, as aspect_ratio
+					// is only accepted for text-to-image
+					logger.debug(
+						{ ...context, attempt: attemptNumber },
+						"Using reference image as Stability init image",
+					);
+					imageParameters = {
+						mode: "image-to-image",
+						output_format: "jpeg",
+						strength: getStabilityStrength(),
+						seed: imageSeed,
+					};
+				} else {
+					imageParameters = {
+						mode: "text-to-image",
+						output_format: "jpeg",
+						aspect_ratio: aspectRatio,
+						seed: imageSeed,
+					};
+				}
 				body = JSON.stringify({
 					prompt: promptText,
-					mode: "text-to-image",
-					output_format: "jpeg",
-					aspect_ratio: "1:1",
-					seed: Math.floor(Math.random() * 1000000),
+					...imageParameters,
+					...(initImage
+						? { image: prepareImageForBedrock(initImage).source.bytes }
+						: {}),
 				});
 			} else if (modelId.includes("amazon.titan-image")) {
 				// Titan image models
-				throw new Error(
-					"Image generation with Titan models not yet implemented",
+				const titanBody = buildTitanImageBody(
+					"messages" in request
+						? {
+								prompt: extractPromptFromMessages(request.messages),
+								seed: imageSeed,
+							}
+						: { ...request, seed: imageSeed },
+					modelId,
+					logger,
+					context,
 				);
+				const { text, similarityStrength } = (titanBody[
+					"imageVariationParams"
+				] ?? titanBody["textToImageParams"]) as {
+					text: string;
+					similarityStrength?: number;
+				};
+				sentPrompt = text;
+				imageParameters = {
+					taskType: titanBody["taskType"],
+					...(titanBody["imageGenerationConfig"] as Record<string, unknown>),
+					...(similarityStrength !== undefined ? { similarityStrength } : {}),
+				};
+				body = JSON.stringify(titanBody);
 			} else {
 				throw new Error(`Unsupported Bedrock model: ${modelId}`);
 			}
@@ -188,7 +381,14 @@ export async function callBedrockWithRetry(
 						},
 						"Bedrock API call successful",
 					);
-					return text;
+					return {
+						text,
+						usage: {
+							modelId,
+							inputTokens: responseBody.usage?.input_tokens || 0,
+							outputTokens: responseBody.usage?.output_tokens || 0,
+						},
+					};
 				} else {
 					throw new Error("Invalid Claude response format");
 				}
@@ -204,11 +404,22 @@ export async function callBedrockWithRetry(
 						},
 						"Bedrock API call successful",
 					);
-					return text;
+					return {
+						text,
+						usage: {
+							modelId,
+							inputTokens: responseBody.prompt_token_count || 0,
+							outputTokens: responseBody.generation_token_count || 0,
+						},
+					};
 				} else {
 					throw new Error("Invalid Llama response format");
 				}
 			} else if (modelId.includes("stability.")) {
+				// A filtered image comes back with a reason such as "Filter reason: prompt"
+				if (typeof responseBody.finish_reasons?.[0] === "string") {
+					throw providerBlockedError("bedrock", "unspecified", responseBody);
+				}
 				if (responseBody.images?.[0]) {
 					const imageBase64 = responseBody.images[0];
 					logger.debug(
@@ -220,10 +431,42 @@ export async function callBedrockWithRetry(
 						},
 						"Bedrock image generation successful",
 					);
-					return { image: `data:image/jpeg;base64,${imageBase64}` };
+					return {
+						image: `data:image/jpeg;base64,${imageBase64}`,
+						seed: imageSeed,
+						parameters: imageParameters,
+						usage: { modelId, inputTokens: 0, outputTokens: 0 },
+					};
 				} else {
 					throw new Error("Invalid Stability AI response format");
 				}
+			} else if (modelId.includes("amazon.titan-image")) {
+				if (responseBody.error) {
+					throw new Error(
+						`Titan image generation failed: ${responseBody.error}`,
+					);
+				}
+				if (responseBody.images?.[0]) {
+					const imageBase64 = responseBody.images[0];
+					logger.debug(
+						{
+							...context,
+							attempt: attemptNumber,
+							duration_ms: Date.now() - startTime,
+							image_size_kb: Math.round((imageBase64.length * 0.75) / 1024),
+						},
+						"Bedrock image generation successful",
+					);
+					return {
+						image: `data:image/png;base64,${imageBase64}`,
+						seed: imageSeed,
+						parameters: imageParameters,
+						...(sentPrompt !== undefined ? { prompt: sentPrompt } : {}),
+						usage: { modelId, inputTokens: 0, outputTokens: 0 },
+					};
+				} else {
+					throw new Error("Invalid Titan image response format");
+				}
 			} else {
 				throw new Error(
 					`Response parsing not implemented for model: ${modelId}`,
@@ -243,6 +486,10 @@ export async function callBedrockWithRetry(
 					},
 					"Bedrock API call failed",
 				);
+				// Titan reports safety blocks as validation errors
+				if (error.message.includes("blocked by our content filters")) {
+					throw providerBlockedError("bedrock", "unspecified", error);
+				}
 			} else {
 				logger.debug(
 					{
@@ -326,6 +573,11 @@ function isRetryableBedrockError(error: unknown): boolean {
 		return false;
 	}
 
+	// Don't retry safety blocks
+	if (error instanceof ContentBlockedError) {
+		return false;
+	}
+
 	// Check for specific AWS/Bedrock retryable errors
 	const retryableMessages = [
 		"ThrottlingException",
@@ -373,6 +625,152 @@ function isRetryableBedrockError(error: unknown): boolean {
 	return false;
 }
 
+/**
+ * Whether an init image is close enough to the panel's aspect ratio for
+ * Stability image-to-image, whose output keeps the init image's shape
+ */
+function initImageFitsAspectRatio(
+	image: string,
+	aspectRatio: PanelAspectRatio,
+	logger: Logger,
+	context: Record<string, unknown>,
+): boolean {
+	const size = readImageSize(image);
+	const mismatch = size ? getAspectRatioMismatch(aspectRatio, size) : undefined;
+	const fits =
+		mismatch !== undefined && mismatch <= MAX_INIT_IMAGE_RATIO_MISMATCH;
+	if (!fits) {
+		logger.debug(
+			{
+				...context,
+				aspect_ratio: aspectRatio,
+				init_image_size: size ? `${size.width}x${size.height}` : "unknown",
+			},
+			"Reference image doesn't match the panel shape, using text-to-image",
+		);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Reads the pixel size from a PNG or JPEG data URL's header
+ */
+function readImageSize(
+	image: string,
+): { width: number; height: number } | undefined {
+	const bytes = Buffer.from(
+		prepareImageForBedrock(image).source.bytes,
+		"base64",
+	);
+
+	// PNG: the IHDR chunk follows the 8-byte signature
+	if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+		return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+	}
+
+	// JPEG: walk the segments up to a start-of-frame marker
+	if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+		let offset = 2;
+		while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+			const marker = bytes[offset + 1] ?? 0;
+			const isStartOfFrame =
+				marker >= 0xc0 &&
+				marker <= 0xcf &&
+				marker !== 0xc4 &&
+				marker !== 0xc8 &&
+				marker !== 0xcc;
+			if (isStartOfFrame) {
+				return {
+					width: bytes.readUInt16BE(offset + 7),
+					height: bytes.readUInt16BE(offset + 5),
+				};
+			}
+			offset += 2 + bytes.readUInt16BE(offset + 2);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Builds a Titan Image Generator request: image variation when reference
+ * images are given, text-to-image otherwise
+ */
+function buildTitanImageBody(
+	request: BedrockImageRequest,
+	modelId: string,
+	logger: Logger,
+	context: Record<string, unknown>,
+): Record<string, unknown> {
+	let text = request.shortPrompt ?? request.prompt;
+	if (text.length > TITAN_MAX_PROMPT_LENGTH) {
+		logger.warn(
+			{
+				...context,
+				prompt_length: text.length,
+				max_length: TITAN_MAX_PROMPT_LENGTH,
+				short_prompt: request.shortPrompt !== undefined,
+			},
+			"Prompt exceeds Titan limit, shortening",
+		);
+		text = shortenPrompt(text, TITAN_MAX_PROMPT_LENGTH);
+	}
+
+	const imageGenerationConfig = {
+		numberOfImages: 1,
+		quality: "standard",
+		...getClosestSize(request.aspectRatio ?? "1:1", TITAN_IMAGE_SIZES),
+		cfgScale: 8,
+		seed: request.seed ?? Math.floor(Math.random() * TITAN_MAX_SEED),
+	};
+
+	const referenceImages = (request.referenceImages || []).slice(
+		0,
+		TITAN_MAX_VARIATION_IMAGES,
+	);
+	if (referenceImages.length === 0) {
+		return {
+			taskType: "TEXT_IMAGE",
+			textToImageParams: { text },
+			imageGenerationConfig,
+		};
+	}
+
+	return {
+		taskType: "IMAGE_VARIATION",
+		imageVariationParams: {
+			text,
+			images: referenceImages.map(
+				(image) => prepareImageForBedrock(image).source.bytes,
+			),
+			// similarityStrength is only accepted by Titan v2
+			...(TITAN_SIMILARITY_MODELS.has(modelId)
+				? { similarityStrength: getTitanSimilarityStrength() }
+				: {}),
+		},
+		imageGenerationConfig,
+	};
+}
+
+/**
+ * Cuts a prompt down to a length limit at the end of a sentence, or of a word
+ * when a sentence would lose too much
+ */
+function shortenPrompt(text: string, maxLength: number): string {
+	const clipped = text.slice(0, maxLength + 1);
+	const sentenceEnd = Math.max(
+		clipped.lastIndexOf(". "),
+		clipped.lastIndexOf("! "),
+		clipped.lastIndexOf("? "),
+	);
+	if (sentenceEnd >= maxLength / 2) {
+		return clipped.slice(0, sentenceEnd + 1);
+	}
+	const wordEnd = clipped.lastIndexOf(" ");
+	return wordEnd > 0 ? clipped.slice(0, wordEnd) : text.slice(0, maxLength);
+}
+
 /**
  * Helper function to extract prompt from messages format (for Llama models)
  */
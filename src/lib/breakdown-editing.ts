@@ -0,0 +1,158 @@
+import type { StoryBreakdown } from "@/types";
+
+type BreakdownPanel = StoryBreakdown["panels"][number];
+
+/**
+ * A change to the order or number of panels in a breakdown. Panels are
+ * referred to by their current panel number.
+ */
+export type BreakdownEdit =
+	| { type: "insert"; after: number } // 0 inserts before the first panel
+	| { type: "delete"; panelNumber: number }
+	| { type: "split"; panelNumber: number }
+	| { type: "merge"; panelNumber: number } // with the panel after it
+	| { type: "move"; panelNumber: number; offset: -1 | 1 };
+
+/**
+ * A panel of an edited breakdown, with the number it had before the edit
+ * while its content is unchanged, so a generated image can follow it
+ */
+interface EditedPanel {
+	panel: BreakdownPanel;
+	previousNumber: number | null;
+}
+
+function withChapter(
+	panel: BreakdownPanel,
+	chapter: number | undefined,
+): BreakdownPanel {
+	const { chapter: _chapter, ...rest } = panel;
+	return chapter === undefined ? rest : { ...rest, chapter };
+}
+
+/**
+ * Splits a scene description between its sentences, or keeps all of it in
+ * both halves when it is a single sentence
+ */
+function splitDescription(text: string): [string, string] {
+	const sentences = text.split(/(?<=[.!?…])\s+/).filter(Boolean);
+	if (sentences.length < 2) return [text, text];
+	const middle = Math.ceil(sentences.length / 2);
+	return [
+		sentences.slice(0, middle).join(" "),
+		sentences.slice(middle).join(" "),
+	];
+}
+
+function joinText(
+	first: string | undefined,
+	second: string | undefined,
+): string {
+	return [first, second].filter((text) => text?.trim()).join(" ");
+}
+
+/**
+ * Applies an edit and renumbers the panels 1, 2, 3, ... A panel keeps its
+ * chapter position: a panel moved past the edge of its chapter joins the
+ * neighbouring one, and inserted and split panels join the chapter they are
+ * placed in. An inserted panel starts in the location of its neighbour.
+ * Edits that don't apply (moving the first panel up, merging the last one)
+ * leave the panels as they are.
+ */
+export function editBreakdownPanels(
+	panels: BreakdownPanel[],
+	edit: BreakdownEdit,
+): EditedPanel[] {
+	const items: EditedPanel[] = panels.map((panel) => ({
+		panel,
+		previousNumber: panel.panelNumber,
+	}));
+
+	if (edit.type === "insert") {
+		const neighbour = panels[Math.max(0, edit.after - 1)];
+		items.splice(Math.max(0, Math.min(edit.after, items.length)), 0, {
+			panel: withChapter(
+				{
+					panelNumber: 0,
+					characters: [],
+					sceneDescription: "",
+					cameraAngle: "medium shot",
+					visualMood: neighbour?.visualMood ?? "",
+					...(neighbour?.locationId
+						? { locationId: neighbour.locationId }
+						: {}),
+				},
+				neighbour?.chapter,
+			),
+			previousNumber: null,
+		});
+	} else {
+		const index = panels.findIndex(
+			(panel) => panel.panelNumber === edit.panelNumber,
+		);
+		const panel = panels[index];
+		if (panel) {
+			switch (edit.type) {
+				case "delete":
+					items.splice(index, 1);
+					break;
+				case "split": {
+					const [first, second] = splitDescription(panel.sceneDescription);
+					const { dialogue: _dialogue, ...withoutDialogue } = panel;
+					items.splice(
+						index,
+						1,
+						{
+							panel: { ...panel, sceneDescription: first },
+							previousNumber: null,
+						},
+						{
+							panel: { ...withoutDialogue, sceneDescription: second },
+							previousNumber: null,
+						},
+					);
+					break;
+				}
+				case "merge": {
+					const next = panels[index + 1];
+					if (!next) break;
+					const dialogue = joinText(panel.dialogue, next.dialogue);
+					const { dialogue: _dialogue, ...rest } = panel;
+					items.splice(index, 2, {
+						panel: {
+							...rest,
+							characters: [
+								...new Set([...panel.characters, ...next.characters]),
+							],
+							sceneDescription: joinText(
+								panel.sceneDescription,
+								next.sceneDescription,
+							),
+							...(dialogue ? { dialogue } : {}),
+						},
+						previousNumber: null,
+					});
+					break;
+				}
+				case "move": {
+					const target = panels[index + edit.offset];
+					if (!target) break;
+					items[index] = {
+						panel: withChapter(target, panel.chapter),
+						previousNumber: target.panelNumber,
+					};
+					items[index + edit.offset] = {
+						panel: withChapter(panel, target.chapter),
+						previousNumber: panel.panelNumber,
+					};
+					break;
+				}
+			}
+		}
+	}
+
+	return items.map((item, index) => ({
+		...item,
+		panel: { ...item.panel, panelNumber: index + 1 },
+	}));
+}
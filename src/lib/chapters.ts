@@ -0,0 +1,133 @@
+/**
+ * Word limits for a single story, and for long stories laid out chapter by
+ * chapter
+ */
+export const MAX_STORY_WORDS = 500;
+export const MAX_LONG_STORY_WORDS = 20000;
+
+// Longest text laid out in one go; longer chapters are split into parts at
+// scene breaks, or at paragraphs when a single scene is too long
+const MAX_CHAPTER_WORDS = 800;
+
+// "Chapter 3", "CHAPTER IV: The Storm", "Part One - Arrival", "Prologue"
+const CHAPTER_HEADING =
+	/^(?:(?:chapter|part|book)\s+(?:\d+|[ivxlc]+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b|prologue\b|epilogue\b|interlude\b)/i;
+const MARKDOWN_HEADING = /^#{1,3}\s+(\S.*)$/;
+// "***", "* * *", "---", "~~~" or a lone "#"
+const SCENE_BREAK = /^(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:~\s*){3,}|#)$/;
+
+// Headings are short; a longer line starting with "Part two" is prose
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * A section of a long story, laid out on its own
+ */
+interface StoryChapter {
+	title: string;
+	text: string;
+}
+
+interface Section {
+	title: string | null;
+	scenes: string[][];
+}
+
+function countWords(text: string): number {
+	return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Whether a line reads like a chapter heading ("Chapter 3", "Prologue")
+ */
+export function isChapterHeading(line: string): boolean {
+	return line.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING.test(line);
+}
+
+function readHeading(line: string): string | null {
+	if (line.length > MAX_HEADING_LENGTH) return null;
+	const markdown = MARKDOWN_HEADING.exec(line);
+	if (markdown) return markdown[1]?.trim() ?? null;
+	return isChapterHeading(line) ? line : null;
+}
+
+/**
+ * Packs units (scenes or paragraphs) into parts of at most
+ * MAX_CHAPTER_WORDS, splitting scenes that are too long on their own
+ */
+function packParts(scenes: string[]): string[] {
+	const units = scenes.flatMap((scene) =>
+		countWords(scene) > MAX_CHAPTER_WORDS
+			? scene.split(/\n\s*\n/).map((paragraph) => paragraph.trim())
+			: [scene],
+	);
+
+	const parts: string[] = [];
+	let current: string[] = [];
+	let currentWords = 0;
+	for (const unit of units) {
+		if (!unit) continue;
+		const words = countWords(unit);
+		if (current.length > 0 && currentWords + words > MAX_CHAPTER_WORDS) {
+			parts.push(current.join("\n\n"));
+			current = [];
+			currentWords = 0;
+		}
+		current.push(unit);
+		currentWords += words;
+	}
+	if (current.length > 0) {
+		parts.push(current.join("\n\n"));
+	}
+	return parts;
+}
+
+/**
+ * Splits a long story into chapters at chapter headings ("Chapter 2",
+ * "# The Storm", "Prologue"). Chapters over MAX_CHAPTER_WORDS are split
+ * into numbered parts, preferably at scene breaks ("***", "---"). A story
+ * without headings is split into parts the same way. The result is
+ * deterministic, so a layout can be resumed from the same story text.
+ */
+export function splitIntoChapters(story: string): StoryChapter[] {
+	const sections: Section[] = [{ title: null, scenes: [[]] }];
+	for (const rawLine of story.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		const section = sections[sections.length - 1] as Section;
+
+		const heading = readHeading(line);
+		if (heading) {
+			sections.push({ title: heading, scenes: [[]] });
+		} else if (SCENE_BREAK.test(line)) {
+			section.scenes.push([]);
+		} else {
+			section.scenes[section.scenes.length - 1]?.push(rawLine);
+		}
+	}
+
+	const chapters: StoryChapter[] = [];
+	const hasHeadings = sections.length > 1;
+	for (const section of sections) {
+		const scenes = section.scenes
+			.map((lines) => lines.join("\n").trim())
+			.filter((scene) => scene.length > 0);
+		if (scenes.length === 0) continue;
+
+		const title =
+			section.title ??
+			// Text before the first heading opens the story
+			(hasHeadings ? "Opening" : null);
+		const parts = packParts(scenes);
+		for (const [index, text] of parts.entries()) {
+			chapters.push({
+				title:
+					title === null
+						? `Part ${index + 1}`
+						: parts.length > 1
+							? `${title}, part ${index + 1}`
+							: title,
+				text,
+			});
+		}
+	}
+	return chapters;
+}
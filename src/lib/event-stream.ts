@@ -0,0 +1,89 @@
+/**
+ * Server-Sent Events helpers shared by streaming API routes and the client
+ */
+
+type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Creates a text/event-stream response and runs the producer against it.
+ * Events sent after the client disconnected are dropped.
+ */
+export function createEventStreamResponse(
+	produce: (send: SendEvent) => Promise<void>,
+): Response {
+	const encoder = new TextEncoder();
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send: SendEvent = (event, data) => {
+				if (closed) return;
+				controller.enqueue(
+					encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+				);
+			};
+
+			try {
+				await produce(send);
+			} finally {
+				if (!closed) {
+					closed = true;
+					controller.close();
+				}
+			}
+		},
+		cancel() {
+			closed = true;
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+		},
+	});
+}
+
+/**
+ * Reads an event stream from a fetch response, calling onEvent with the
+ * JSON-decoded data of each event until the stream ends
+ */
+export async function readEventStream(
+	response: Response,
+	onEvent: (event: string, data: unknown) => void,
+): Promise<void> {
+	if (!response.body) {
+		throw new Error("Response has no body to stream");
+	}
+
+	const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		buffer += value.replace(/\r\n/g, "\n");
+
+		let boundary = buffer.indexOf("\n\n");
+		while (boundary !== -1) {
+			const block = buffer.slice(0, boundary);
+			buffer = buffer.slice(boundary + 2);
+			boundary = buffer.indexOf("\n\n");
+
+			let event = "message";
+			const dataLines: string[] = [];
+			for (const line of block.split("\n")) {
+				if (line.startsWith("event:")) {
+					event = line.slice(6).trim();
+				} else if (line.startsWith("data:")) {
+					dataLines.push(line.slice(5).trimStart());
+				}
+			}
+			if (dataLines.length > 0) {
+				onEvent(event, JSON.parse(dataLines.join("\n")));
+			}
+		}
+	}
+}
@@ -0,0 +1,269 @@
+import { escapeRegExp } from "@/lib/regexp";
+import type { StoryBreakdown } from "@/types";
+
+/**
+ * A panel taken straight from a screenplay. The model only adds the camera
+ * angle and visual mood.
+ */
+export type ScriptPanel = Pick<
+	StoryBreakdown["panels"][number],
+	"panelNumber" | "characters" | "sceneDescription" | "dialogue"
+>;
+
+// "INT. KITCHEN - NIGHT", "EXT/INT. CAR", "I/E HALLWAY", "EST. CITY - DAY"
+const SCENE_HEADING =
+	/^(int\.?\/ext|ext\.?\/int|i\/e|int|ext|est)(?:\.|\s)\s*(.*)$/i;
+// "#12#" or "#1A#" at the end of a scene heading
+const SCENE_NUMBER = /\s*#[\w.-]+#$/;
+// "CUT TO:", "SMASH CUT TO:", "FADE OUT."
+const TRANSITION = /^(?:[A-Z0-9 ]+ TO:|FADE (?:IN|OUT|TO BLACK)[.:]?)$/;
+// "Title: ...", "Draft date: ..." at the very start of the script
+const TITLE_PAGE_KEY = /^[A-Za-z][A-Za-z ]*:/;
+// "(V.O.)", "(CONT'D)" after a character cue
+const CUE_EXTENSION = /\s*\([^)]*\)/g;
+// Voice-over, off-screen and off-camera speakers aren't drawn in the panel
+const UNSEEN_SPEAKER = /\((?:V\.?O|O\.?S|O\.?C)\.?\)/i;
+
+const SCENE_TYPES: Record<string, string> = {
+	int: "interior",
+	ext: "exterior",
+	est: "exterior",
+	"i/e": "interior/exterior",
+	"int/ext": "interior/exterior",
+	"ext/int": "interior/exterior",
+};
+
+// Screenplays write names and places in capitals; "MIRA'S FLAT" reads as
+// "Mira's Flat" in a scene description
+function toTitleCase(text: string): string {
+	if (text !== text.toUpperCase()) return text;
+	return text.replace(
+		/\S+/g,
+		(word) => word.charAt(0) + word.slice(1).toLowerCase(),
+	);
+}
+
+// Drops emphasis (*italic*, **bold**, _underline_) and escapes
+function stripMarkup(text: string): string {
+	return text
+		.replace(/(?<!\\)(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, "$2")
+		.replace(/\\([*_])/g, "$1")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * "INT. MIRA'S FLAT - NIGHT" becomes "Mira's Flat (interior, night)"
+ */
+function describeSceneHeading(heading: string): string {
+	const match = SCENE_HEADING.exec(heading);
+	if (!match) return toTitleCase(heading);
+
+	const [place = "", ...times] = (match[2] ?? "").split(/\s+[-–—]\s+/);
+	const type = SCENE_TYPES[(match[1] ?? "").toLowerCase().replace(".", "")];
+	const details = [type, ...times.map((time) => time.toLowerCase())].filter(
+		(detail) => detail,
+	);
+	return `${toTitleCase(place.trim()) || "Scene"}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+function isSceneHeading(line: string): boolean {
+	return (
+		(line.startsWith(".") && !line.startsWith("..")) || SCENE_HEADING.test(line)
+	);
+}
+
+function isCharacterCue(line: string): boolean {
+	if (line.startsWith("@")) return true;
+	const name = line.replace(CUE_EXTENSION, "").replace(/\^$/, "").trim();
+	return (
+		/[A-Z]/.test(name) && name === name.toUpperCase() && !/[!?]$/.test(name)
+	);
+}
+
+// Articles and titles say nothing about who a cue refers to
+const UNNAMING_WORDS = new Set([
+	"the",
+	"mr.",
+	"mrs.",
+	"ms.",
+	"dr.",
+	"old",
+	"young",
+]);
+
+function nameWords(name: string): string[] {
+	return name
+		.toLowerCase()
+		.split(/\s+/)
+		.filter((word) => word.length > 1 && !UNNAMING_WORDS.has(word));
+}
+
+/**
+ * Matches a character cue ("MIRA", "DETECTIVE COLE") to one of the story's
+ * characters: the full name first, then any name the cue shares a word with
+ */
+function resolveCharacter(
+	cue: string,
+	characterNames: string[],
+): string | undefined {
+	const cueWords = nameWords(cue);
+	return (
+		characterNames.find((known) => known.toLowerCase() === cue.toLowerCase()) ??
+		characterNames.find((known) =>
+			nameWords(known).some((word) => cueWords.includes(word)),
+		)
+	);
+}
+
+/**
+ * Characters named in an action line, either as written ("Mira") or in the
+ * capitals used to introduce them ("MIRA")
+ */
+function findMentionedCharacters(
+	text: string,
+	characterNames: string[],
+): string[] {
+	return characterNames.filter((name) => {
+		const forms = [name, name.split(/\s+/)[0] ?? name].flatMap((form) => [
+			escapeRegExp(form),
+			escapeRegExp(form.toUpperCase()),
+		]);
+		return new RegExp(`\\b(?:${forms.join("|")})\\b`).test(text);
+	});
+}
+
+/**
+ * Removes the title page, boneyard (commented-out text), notes, sections,
+ * synopses and page breaks, and splits what's left into blocks of lines
+ */
+function toBlocks(script: string): string[][] {
+	const lines = script
+		.replace(/\r\n?/g, "\n")
+		.replace(/\/\*[\s\S]*?\*\//g, "")
+		.replace(/\[\[[\s\S]*?\]\]/g, "")
+		.split("\n")
+		.map((line) => line.trim());
+
+	// The title page runs up to the first blank line
+	const start = lines.findIndex((line) => line.length > 0);
+	if (start !== -1 && TITLE_PAGE_KEY.test(lines[start] ?? "")) {
+		const end = lines.indexOf("", start);
+		lines.splice(0, end === -1 ? lines.length : end);
+	}
+
+	const blocks: string[][] = [[]];
+	for (const line of lines) {
+		if (line.startsWith("#") || line.startsWith("=")) continue;
+		if (line.length === 0) {
+			if ((blocks[blocks.length - 1]?.length ?? 0) > 0) blocks.push([]);
+		} else {
+			blocks[blocks.length - 1]?.push(line);
+		}
+	}
+	return blocks.filter((block) => block.length > 0);
+}
+
+/**
+ * Turns a Fountain screenplay into panels without a model. Every action
+ * paragraph becomes a panel; a dialogue block is spoken in the panel of the
+ * action it follows, or gets a panel of its own when that panel already has
+ * dialogue. Scene headings become the location at the start of each scene
+ * description, character cues become the panel's characters (unless they
+ * speak off-screen), and dual dialogue (a cue ending in ^) shares the
+ * previous panel. Characters are matched to characterNames; unknown speakers
+ * keep their lines but are left out of the panel's characters.
+ */
+export function parseFountain(
+	script: string,
+	characterNames: string[],
+): ScriptPanel[] {
+	const panels: ScriptPanel[] = [];
+	let location: string | null = null;
+	// The panel of the latest action, until it gets its dialogue
+	let openPanel: ScriptPanel | null = null;
+
+	const addPanel = (text: string, characters: string[]): ScriptPanel => {
+		const panel: ScriptPanel = {
+			panelNumber: panels.length + 1,
+			characters,
+			sceneDescription: location ? `${location}: ${text}` : text,
+		};
+		panels.push(panel);
+		return panel;
+	};
+
+	for (let block of toBlocks(script)) {
+		const first = block[0] ?? "";
+		if (isSceneHeading(first)) {
+			const heading = first.replace(/^\./, "").replace(SCENE_NUMBER, "");
+			location = describeSceneHeading(heading.trim());
+			openPanel = null;
+			// Some scripts leave out the blank line after a heading
+			block = block.slice(1);
+			if (block.length === 0) continue;
+		}
+
+		// Transitions ("CUT TO:", "> FADE OUT") and centered text ("> THE END <")
+		// are typography, not something to draw
+		const line = block[0] ?? "";
+		if (block.length === 1 && (TRANSITION.test(line) || line.startsWith(">"))) {
+			continue;
+		}
+
+		if (block.length > 1 && !line.startsWith("!") && isCharacterCue(line)) {
+			const isDual = line.endsWith("^");
+			const cue = line
+				.replace(/^@/, "")
+				.replace(/\^$/, "")
+				.replace(CUE_EXTENSION, "")
+				.trim();
+			const character = resolveCharacter(cue, characterNames);
+			const speaker = character ?? toTitleCase(cue);
+
+			const parentheticals: string[] = [];
+			const spoken: string[] = [];
+			for (const dialogueLine of block.slice(1)) {
+				if (/^\(.*\)$/.test(dialogueLine)) {
+					parentheticals.push(dialogueLine.slice(1, -1).trim());
+				} else {
+					spoken.push(dialogueLine.replace(/^~\s*/, ""));
+				}
+			}
+			const text = stripMarkup(spoken.join(" "));
+			if (!text) continue;
+			const dialogue = `${speaker}: ${text}`;
+
+			const previous = panels[panels.length - 1];
+			const target: ScriptPanel =
+				isDual && previous
+					? previous
+					: openPanel && !openPanel.dialogue
+						? openPanel
+						: addPanel(
+								`${speaker}${parentheticals[0] ? ` (${parentheticals[0]})` : ""} speaks`,
+								[],
+							);
+			target.dialogue = target.dialogue
+				? `${target.dialogue} ${dialogue}`
+				: dialogue;
+			if (
+				character &&
+				!UNSEEN_SPEAKER.test(line) &&
+				!target.characters.includes(character)
+			) {
+				target.characters.push(character);
+			}
+			openPanel = target;
+			continue;
+		}
+
+		const text = stripMarkup(
+			block.map((actionLine) => actionLine.replace(/^!/, "")).join(" "),
+		);
+		if (text) {
+			openPanel = addPanel(text, findMentionedCharacters(text, characterNames));
+		}
+	}
+	return panels;
+}
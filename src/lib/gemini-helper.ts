@@ -1,6 +1,6 @@
-import type { GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponse, GoogleGenAI } from "@google/genai";
 import type { Logger } from "pino";
-import { callBedrockWithRetry } from "./bedrock-helper";
+import { ContentBlockedError } from "./moderation";
 
 /**
  * Gemini model constants (internal use only)
@@ -11,7 +11,7 @@ const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image-preview";
 /**
  * Gets the appropriate Gemini model based on generation type
  */
-function getGeminiModel(generationType: "text" | "image"): string {
+export function getGeminiModel(generationType: "text" | "image"): string {
 	return generationType === "image" ? GEMINI_IMAGE_MODEL : GEMINI_TEXT_MODEL;
 }
 
@@ -23,46 +23,8 @@ interface GeminiError {
 	};
 }
 
-/**
- * Response from API call with source information
- */
-export interface ApiResponse<T = string> {
-	result: T;
-	source: "gemini" | "bedrock";
-}
-
-/**
- * Parameters for Bedrock fallback
- */
-type BedrockFallbackParams =
-	| {
-			prompt: string;
-			maxTokens?: number;
-			temperature?: number;
-			topP?: number;
-	  }
-	| {
-			messages: Array<{
-				role: string;
-				content: Array<{
-					type: string;
-					text?: string;
-					image?: {
-						format: string;
-						source: {
-							bytes: string;
-						};
-					};
-				}>;
-			}>;
-			maxTokens?: number;
-			temperature?: number;
-			topP?: number;
-	  };
-
 /**
  * Wrapper function that calls Gemini API with retry logic for transient failures
- * Falls back to Bedrock if Gemini fails with non-retryable errors
  */
 export async function callGeminiWithRetry<T>(
 	genAI: GoogleGenAI,
@@ -72,12 +34,11 @@ export async function callGeminiWithRetry<T>(
 				{ text: string } | { inlineData: { data: string; mimeType: string } }
 		  >,
 	config: Record<string, unknown> | undefined,
-	processResponse: (result: unknown) => T,
+	processResponse: (result: GenerateContentResponse) => T,
 	logger: Logger,
 	generationType: "text" | "image",
 	context: Record<string, unknown> = {},
-	bedrockFallback?: BedrockFallbackParams,
-): Promise<T | ApiResponse<T>> {
+): Promise<T> {
 	const startTime = Date.now();
 
 	// Use the explicitly specified generation type to determine model
@@ -165,162 +126,55 @@ export async function callGeminiWithRetry<T>(
 	try {
 		// Try first attempt
 		try {
-			const result = await attemptCall(1);
-			// Return successful Gemini result
-			return {
-				result: result,
-				source: "gemini",
-			} as ApiResponse<T>;
+			return await attemptCall(1);
 		} catch (error) {
 			const shouldRetry = isRetryableError(error);
 
-			if (shouldRetry) {
-				logger.warn(
-					{
-						...context,
-						model: model,
-						error_message:
-							error instanceof Error ? error.message : "Unknown error",
-						error_cause: error instanceof Error ? error.cause : undefined,
-						error_name: error instanceof Error ? error.name : undefined,
-						is_json_error:
-							error instanceof Error && error.message.includes('{"error":{'),
-						duration_ms: Date.now() - startTime,
-					},
-					"First attempt failed with transient error, retrying once",
-				);
-
-				// Wait 1.5 seconds before retry
-				await new Promise((resolve) => setTimeout(resolve, 1500));
-
-				try {
-					const retryResult = await attemptCall(2);
-					// Return successful Gemini retry result
-					return {
-						result: retryResult,
-						source: "gemini",
-					} as ApiResponse<T>;
-				} catch (retryError) {
-					logger.error(
-						{
-							...context,
-							model: model,
-							original_error:
-								error instanceof Error ? error.message : "Unknown error",
-							retry_error:
-								retryError instanceof Error
-									? retryError.message
-									: "Unknown error",
-							duration_ms: Date.now() - startTime,
-						},
-						"Retry also failed, giving up",
-					);
-					throw retryError;
-				}
-			} else {
-				// Try Bedrock fallback for non-retryable errors
-				if (bedrockFallback) {
-					logger.warn(
-						{
-							...context,
-							model: model,
-							error_message:
-								error instanceof Error ? error.message : "Unknown error",
-							duration_ms: Date.now() - startTime,
-						},
-						"Gemini failed with non-retryable error, attempting Bedrock fallback",
-					);
-					try {
-						const bedrockResult = await callBedrockWithRetry(
-							bedrockFallback,
-							logger,
-							generationType,
-							context,
-						);
-						logger.info(
-							{
-								...context,
-								duration_ms: Date.now() - startTime,
-							},
-							"Bedrock fallback successful",
-						);
-						return {
-							result: bedrockResult as T,
-							source: "bedrock",
-						} as ApiResponse<T>;
-					} catch (bedrockError) {
-						logger.error(
-							{
-								...context,
-								model: model,
-								original_error:
-									error instanceof Error ? error.message : "Unknown error",
-								bedrock_error:
-									bedrockError instanceof Error
-										? bedrockError.message
-										: "Unknown error",
-								duration_ms: Date.now() - startTime,
-							},
-							"Both Gemini and Bedrock failed",
-						);
-						throw error; // Throw original Gemini error
-					}
-				}
-				// Re-throw non-retryable errors immediately if no fallback
+			if (!shouldRetry) {
+				// Re-throw non-retryable errors immediately
 				throw error;
 			}
-		}
-	} catch (error) {
-		// Try Bedrock fallback if available and this wasn't already a fallback attempt
-		if (bedrockFallback && !("__bedrockAttempted" in (error as object))) {
+
 			logger.warn(
 				{
 					...context,
 					model: model,
 					error_message:
 						error instanceof Error ? error.message : "Unknown error",
+					error_cause: error instanceof Error ? error.cause : undefined,
+					error_name: error instanceof Error ? error.name : undefined,
+					is_json_error:
+						error instanceof Error && error.message.includes('{"error":{'),
 					duration_ms: Date.now() - startTime,
 				},
-				"Gemini retry attempts failed, attempting Bedrock fallback",
+				"First attempt failed with transient error, retrying once",
 			);
+
+			// Wait 1.5 seconds before retry
+			await new Promise((resolve) => setTimeout(resolve, 1500));
+
 			try {
-				const bedrockResult = await callBedrockWithRetry(
-					bedrockFallback,
-					logger,
-					generationType,
-					context,
-				);
-				logger.info(
-					{
-						...context,
-						duration_ms: Date.now() - startTime,
-					},
-					"Bedrock fallback successful after Gemini retry failure",
-				);
-				return {
-					result: bedrockResult as T,
-					source: "bedrock",
-				} as ApiResponse<T>;
-			} catch (bedrockError) {
+				return await attemptCall(2);
+			} catch (retryError) {
 				logger.error(
 					{
 						...context,
 						model: model,
 						original_error:
 							error instanceof Error ? error.message : "Unknown error",
-						bedrock_error:
-							bedrockError instanceof Error
-								? bedrockError.message
+						retry_error:
+							retryError instanceof Error
+								? retryError.message
 								: "Unknown error",
 						duration_ms: Date.now() - startTime,
 					},
-					"Both Gemini retries and Bedrock fallback failed",
+					"Retry also failed, giving up",
 				);
-				throw error; // Throw original Gemini error
+				throw retryError;
 			}
 		}
-
-		// Final error handling - no fallback available or fallback already attempted
+	} catch (error) {
+		// Final error handling
 		logger.error(
 			{
 				...context,
@@ -335,6 +189,94 @@ export async function callGeminiWithRetry<T>(
 	}
 }
 
+/**
+ * Streaming variant of callGeminiWithRetry for text generation. Chunks are
+ * forwarded as they arrive; a transient failure is only retried when nothing
+ * has been forwarded yet, since the caller cannot take text back.
+ */
+export async function streamGeminiWithRetry(
+	genAI: GoogleGenAI,
+	contents:
+		| string
+		| Array<
+				{ text: string } | { inlineData: { data: string; mimeType: string } }
+		  >,
+	config: Record<string, unknown> | undefined,
+	onText: (delta: string) => void,
+	logger: Logger,
+	context: Record<string, unknown> = {},
+): Promise<{ text: string; lastChunk: GenerateContentResponse | undefined }> {
+	const startTime = Date.now();
+	const model = getGeminiModel("text");
+	let text = "";
+	let lastChunk: GenerateContentResponse | undefined;
+
+	const attemptStream = async (attemptNumber: number) => {
+		logger.debug(
+			{ ...context, attempt: attemptNumber, model },
+			"Streaming from Gemini API",
+		);
+
+		const stream = await genAI.models.generateContentStream({
+			model,
+			contents,
+			...(config ? { config } : {}),
+		});
+		for await (const chunk of stream) {
+			lastChunk = chunk;
+			const delta = chunk.text;
+			if (delta) {
+				text += delta;
+				onText(delta);
+			}
+		}
+
+		logger.debug(
+			{
+				...context,
+				attempt: attemptNumber,
+				model,
+				response_length: text.length,
+				duration_ms: Date.now() - startTime,
+			},
+			"Gemini stream completed",
+		);
+	};
+
+	try {
+		await attemptStream(1);
+	} catch (error) {
+		if (text.length > 0 || !isRetryableError(error)) {
+			logger.error(
+				{
+					...context,
+					model,
+					error_message:
+						error instanceof Error ? error.message : "Unknown error",
+					streamed_length: text.length,
+					duration_ms: Date.now() - startTime,
+				},
+				"Gemini stream failed",
+			);
+			throw error;
+		}
+
+		logger.warn(
+			{
+				...context,
+				model,
+				error_message: error instanceof Error ? error.message : "Unknown error",
+				duration_ms: Date.now() - startTime,
+			},
+			"Gemini stream failed before first chunk, retrying once",
+		);
+		await new Promise((resolve) => setTimeout(resolve, 1500));
+		await attemptStream(2);
+	}
+
+	return { text, lastChunk };
+}
+
 /**
  * Determines if an error is retryable based on error type and content
  */
@@ -343,8 +285,8 @@ function isRetryableError(error: unknown): boolean {
 		return false;
 	}
 
-	// Don't retry prohibited content errors
-	if (error.message.startsWith("PROHIBITED_CONTENT:")) {
+	// Don't retry safety blocks
+	if (error instanceof ContentBlockedError) {
 		return false;
 	}
 
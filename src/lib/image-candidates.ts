@@ -0,0 +1,136 @@
+import type { ImageCandidate } from "@/types";
+
+/**
+ * A generated panel or character reference: the selected image plus every
+ * candidate generated for it
+ */
+interface ImageWithCandidates extends ImageCandidate {
+	candidates?: ImageCandidate[];
+	selectedCandidate?: number;
+}
+
+/**
+ * What is kept in localStorage; the images themselves go to IndexedDB
+ */
+export type WithoutImages<T extends ImageWithCandidates> = Omit<
+	T,
+	"image" | "candidates"
+> & {
+	candidates?: Omit<ImageCandidate, "image">[];
+};
+
+interface ImageStore {
+	storeImage(id: string, imageData: string): Promise<void>;
+	getImage(id: string): Promise<string | null>;
+}
+
+// Regenerating keeps adding candidates, so the oldest are dropped past this
+const MAX_KEPT_CANDIDATES = 8;
+
+function candidateImageId(id: string, index: number): string {
+	return `${id}-candidate-${index}`;
+}
+
+function toCandidate(item: ImageCandidate): ImageCandidate {
+	return {
+		image: item.image,
+		...(item.generation ? { generation: item.generation } : {}),
+	};
+}
+
+export function withoutImages<T extends ImageWithCandidates>(
+	item: T,
+): WithoutImages<T> {
+	const { image: _image, candidates, ...rest } = item;
+	return {
+		...rest,
+		...(candidates
+			? { candidates: candidates.map(({ image, ...candidate }) => candidate) }
+			: {}),
+	};
+}
+
+/**
+ * Stores the selected image under id and each candidate under
+ * "<id>-candidate-<index>"
+ */
+export async function storeImages(
+	store: ImageStore,
+	id: string,
+	item: ImageWithCandidates,
+): Promise<void> {
+	if (item.image) {
+		await store.storeImage(id, item.image);
+	}
+	for (const [index, candidate] of (item.candidates ?? []).entries()) {
+		if (candidate.image) {
+			await store.storeImage(candidateImageId(id, index), candidate.image);
+		}
+	}
+}
+
+/**
+ * Restores the images stored by storeImages; missing images come back empty
+ */
+export async function loadImages<T extends ImageWithCandidates>(
+	store: ImageStore,
+	id: string,
+	item: WithoutImages<T>,
+): Promise<T> {
+	const image = (await store.getImage(id)) ?? "";
+	const candidates = item.candidates
+		? await Promise.all(
+				item.candidates.map(async (candidate, index) => ({
+					...candidate,
+					image: (await store.getImage(candidateImageId(id, index))) ?? "",
+				})),
+			)
+		: undefined;
+	return { ...item, image, ...(candidates ? { candidates } : {}) } as T;
+}
+
+/**
+ * Adds newly generated images to the existing candidates instead of
+ * replacing them, selecting the first new one
+ */
+export function mergeCandidates<T extends ImageWithCandidates>(
+	existing: T | undefined,
+	generated: T,
+): T {
+	const previous = existing
+		? (existing.candidates ?? [toCandidate(existing)]).filter(
+				(candidate) => candidate.image,
+			)
+		: [];
+	const added = generated.candidates ?? [toCandidate(generated)];
+	if (previous.length === 0 && added.length === 1) {
+		return generated;
+	}
+
+	const candidates = [...previous, ...added].slice(-MAX_KEPT_CANDIDATES);
+	return {
+		...generated,
+		candidates,
+		selectedCandidate: candidates.length - added.length,
+	};
+}
+
+/**
+ * Makes the candidate at index the image used for display and exports
+ */
+export function selectCandidate<T extends ImageWithCandidates>(
+	item: T,
+	index: number,
+): T {
+	const candidate = item.candidates?.[index];
+	if (!candidate?.image) {
+		return item;
+	}
+	// The candidate's generation replaces the previous one, or is left out
+	const { generation: _generation, ...rest } = item;
+	return {
+		...rest,
+		...toCandidate(candidate),
+		selectedCandidate: index,
+	} as T;
+}
@@ -0,0 +1,49 @@
+import type { RenderedPrompt } from "@/lib/prompts";
+import type { ApiResponse, GeneratedImage } from "@/lib/providers/types";
+import type { ImageGenerationMetadata } from "@/types";
+
+/**
+ * Records how an image was generated, so it can be regenerated with the same
+ * seed and parameters later. A provider that sent its own prompt (Titan gets
+ * the short one) is recorded with that prompt and the short template.
+ */
+export function getImageGenerationMetadata(
+	response: ApiResponse<GeneratedImage>,
+	prompt: RenderedPrompt,
+	shortPrompt: RenderedPrompt,
+): ImageGenerationMetadata {
+	const sentPrompt = response.result.prompt;
+	return {
+		provider: response.source,
+		model: response.model,
+		seed: response.result.seed,
+		prompt: sentPrompt ?? prompt.text,
+		parameters: response.result.parameters,
+		createdAt: new Date().toISOString(),
+		promptTemplate:
+			sentPrompt !== undefined ? shortPrompt.template : prompt.template,
+	};
+}
+
+/**
+ * Most images a single request may ask for
+ */
+export const MAX_IMAGE_CANDIDATES = 4;
+
+/**
+ * Reads how many candidate images a request asks for, defaulting to one
+ */
+export function readCandidateCount(value: unknown): number {
+	return typeof value === "number" && Number.isInteger(value)
+		? Math.min(Math.max(value, 1), MAX_IMAGE_CANDIDATES)
+		: 1;
+}
+
+/**
+ * Reads an optional seed from a request body, ignoring anything that isn't an integer
+ */
+export function readSeed(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isInteger(value) && value >= 0
+		? value
+		: undefined;
+}
@@ -1,26 +1,395 @@
 /**
- * Utility function to parse JSON from Gemini responses that might be wrapped in markdown code blocks
+ * Removes the markdown code block model responses are sometimes wrapped in
  */
-export function parseGeminiJSON<T = object>(text: string): T {
-	// Remove markdown code block formatting if present
-	let cleanedText = text.trim();
+function stripCodeFence(text: string): string {
+	const cleanedText = text.trim();
 
 	// Remove ```json prefix and ``` suffix if present
 	if (cleanedText.startsWith("```json")) {
-		cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-	} else if (cleanedText.startsWith("```")) {
-		cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
+		return cleanedText
+			.replace(/^```json\s*/, "")
+			.replace(/\s*```$/, "")
+			.trim();
+	}
+	if (cleanedText.startsWith("```")) {
+		return cleanedText
+			.replace(/^```\s*/, "")
+			.replace(/\s*```$/, "")
+			.trim();
+	}
+	return cleanedText;
+}
+
+/**
+ * Value reconstructed from a truncated JSON document. Array elements are only
+ * included once fully parsed, so every item in a partial array is final.
+ */
+export type PartialJSON<T> =
+	T extends Array<infer U>
+		? U[]
+		: T extends object
+			? { [K in keyof T]?: PartialJSON<T[K]> }
+			: T;
+
+interface ParsedValue {
+	value: unknown;
+	complete: boolean;
+}
+
+/**
+ * JSON produced after repairing malformed or truncated model output
+ */
+export interface RecoveredJSON<T> {
+	value: T;
+	// Human-readable descriptions of each kind of repair, empty for valid JSON
+	repairs: string[];
+	// The output ended mid-document; only complete values were kept
+	truncated: boolean;
+}
+
+const VALID_ESCAPES = new Set(['"', "\\", "/", "b", "f", "n", "r", "t", "u"]);
+
+/**
+ * Recursive descent parser that stops at the end of the input (or at the first
+ * malformed character) instead of throwing. Incomplete strings, numbers and
+ * array elements are dropped; incomplete objects and arrays are closed off.
+ * Common model mistakes (comments, single quotes, bare keys, trailing or
+ * missing commas, raw control characters in strings, numbers ending in a
+ * decimal point) are accepted and recorded as repairs.
+ */
+class PartialJSONScanner {
+	private readonly text: string;
+	private pos: number;
+	private readonly repairs = new Map<string, number>();
+
+	constructor(text: string, start: number) {
+		this.text = text;
+		this.pos = start;
+	}
+
+	public get position(): number {
+		return this.pos;
+	}
+
+	/**
+	 * Whether only whitespace and comments remain after the current position
+	 */
+	public reachedEnd(): boolean {
+		this.skipWhitespace();
+		return this.pos >= this.text.length;
+	}
+
+	public getRepairs(): string[] {
+		return [...this.repairs].map(([repair, count]) =>
+			count > 1 ? `${repair} (${count}x)` : repair,
+		);
+	}
+
+	public parseValue(): ParsedValue | undefined {
+		this.skipWhitespace();
+		const char = this.text[this.pos];
+		if (char === "{") {
+			return this.parseObject();
+		}
+		if (char === "[") {
+			return this.parseArray();
+		}
+		if (char === '"' || char === "'") {
+			const value = this.parseString();
+			return value === undefined ? undefined : { value, complete: true };
+		}
+		return this.parseLiteral();
+	}
+
+	private parseObject(): ParsedValue {
+		const result: Record<string, unknown> = {};
+		this.pos++;
+
+		while (true) {
+			this.skipWhitespace();
+			if (this.text[this.pos] === "}") {
+				this.pos++;
+				return { value: result, complete: true };
+			}
+			const key = this.parseKey();
+			this.skipWhitespace();
+			if (key === undefined || this.text[this.pos] !== ":") {
+				return { value: result, complete: false };
+			}
+			this.pos++;
+
+			const parsed = this.parseValue();
+			if (!parsed) {
+				return { value: result, complete: false };
+			}
+			if (parsed.complete || typeof parsed.value === "object") {
+				result[key] = parsed.value;
+			}
+			if (!parsed.complete) {
+				return { value: result, complete: false };
+			}
+
+			if (!this.skipSeparator("}", /["'A-Za-z_$]/)) {
+				return { value: result, complete: false };
+			}
+		}
+	}
+
+	private parseArray(): ParsedValue {
+		const result: unknown[] = [];
+		this.pos++;
+
+		while (true) {
+			this.skipWhitespace();
+			if (this.text[this.pos] === "]") {
+				this.pos++;
+				return { value: result, complete: true };
+			}
+
+			const parsed = this.parseValue();
+			if (!parsed?.complete) {
+				return { value: result, complete: false };
+			}
+			result.push(parsed.value);
+
+			if (!this.skipSeparator("]", /["'{[\d\-tfn]/)) {
+				return { value: result, complete: false };
+			}
+		}
+	}
+
+	/**
+	 * Moves past the comma after a member or element, dropping a trailing comma
+	 * before the closing bracket and inserting a missing one before the next
+	 * member. Returns false when neither follows.
+	 */
+	private skipSeparator(close: string, memberStart: RegExp): boolean {
+		this.skipWhitespace();
+		const char = this.text[this.pos];
+		if (char === ",") {
+			this.pos++;
+			this.skipWhitespace();
+			if (this.text[this.pos] === close) {
+				this.record("removed trailing comma");
+			}
+			return true;
+		}
+		if (char === close) {
+			return true;
+		}
+		if (char !== undefined && memberStart.test(char)) {
+			this.record("inserted missing comma");
+			return true;
+		}
+		return false;
 	}
 
-	// Try to parse the cleaned JSON
+	private parseKey(): string | undefined {
+		const char = this.text[this.pos];
+		if (char === '"' || char === "'") {
+			return this.parseString();
+		}
+		const match = /^[A-Za-z_$][\w$]*/.exec(this.text.slice(this.pos));
+		if (!match) {
+			return undefined;
+		}
+		this.pos += match[0].length;
+		this.record("quoted bare object key");
+		return match[0];
+	}
+
+	private parseString(): string | undefined {
+		const quote = this.text[this.pos];
+		this.pos++;
+		// The string's contents re-escaped as a double-quoted JSON string
+		let escaped = "";
+
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos] as string;
+			if (char === "\\") {
+				const next = this.text[this.pos + 1];
+				if (next === undefined) {
+					this.pos++;
+					return undefined;
+				}
+				if (next === "'") {
+					escaped += "'";
+				} else if (VALID_ESCAPES.has(next)) {
+					escaped += `\\${next}`;
+				} else {
+					// Drop the backslash and read the next character as is
+					this.record("removed invalid escape sequence");
+					this.pos++;
+					continue;
+				}
+				this.pos += 2;
+			} else if (char === quote) {
+				this.pos++;
+				if (quote === "'") {
+					this.record("replaced single quotes with double quotes");
+				}
+				try {
+					return JSON.parse(`"${escaped}"`) as string;
+				} catch {
+					return undefined;
+				}
+			} else if (char === '"') {
+				escaped += '\\"';
+				this.pos++;
+			} else if (char < " ") {
+				this.record("escaped control character in string");
+				escaped += JSON.stringify(char).slice(1, -1);
+				this.pos++;
+			} else {
+				escaped += char;
+				this.pos++;
+			}
+		}
+		return undefined;
+	}
+
+	private parseLiteral(): ParsedValue | undefined {
+		const rest = this.text.slice(this.pos);
+		const match = /^(?:-?\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+			rest,
+		);
+		const end = this.pos + (match?.[0].length ?? 0);
+		// Until a delimiter follows, the literal may still be growing (e.g. "1." of "1.5")
+		if (!match || !/[\s,\]}/]/.test(this.text[end] ?? "")) {
+			// A literal cut off by the end of the input counts as truncation
+			if (/^[\w.+-]+$/.test(rest)) {
+				this.pos = this.text.length;
+			}
+			return undefined;
+		}
+		this.pos = end;
+		// A decimal point with no digits after it, as in "1." or "1.e5"
+		const literal = match[0].replace(/\.(?=[eE]|$)/, "");
+		if (literal !== match[0]) {
+			this.record("completed number ending in a decimal point");
+		}
+		return { value: JSON.parse(literal), complete: true };
+	}
+
+	/**
+	 * Skips whitespace as well as line and block comments
+	 */
+	private skipWhitespace(): void {
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos] as string;
+			if (/\s/.test(char)) {
+				this.pos++;
+			} else if (char === "/" && this.text[this.pos + 1] === "/") {
+				const end = this.text.indexOf("\n", this.pos);
+				this.pos = end === -1 ? this.text.length : end + 1;
+				this.record("removed comment");
+			} else if (char === "/" && this.text[this.pos + 1] === "*") {
+				const end = this.text.indexOf("*/", this.pos + 2);
+				this.pos = end === -1 ? this.text.length : end + 2;
+				this.record("removed comment");
+			} else if (char === "/" && this.pos === this.text.length - 1) {
+				// Possibly the start of a comment that is still being streamed
+				this.pos++;
+			} else {
+				return;
+			}
+		}
+	}
+
+	private record(repair: string): void {
+		this.repairs.set(repair, (this.repairs.get(repair) ?? 0) + 1);
+	}
+}
+
+/**
+ * Parses as much as possible of a JSON document that is still being streamed.
+ * Leading markdown fences or prose before the first object/array are skipped.
+ */
+function parsePartialJSON<T = object>(
+	text: string,
+): PartialJSON<T> | undefined {
+	const start = text.search(/[{[]/);
+	if (start === -1) {
+		return undefined;
+	}
+	return new PartialJSONScanner(text, start).parseValue()?.value as
+		| PartialJSON<T>
+		| undefined;
+}
+
+/**
+ * Parses model output that should be JSON, repairing common syntax errors and
+ * closing off output that was truncated (e.g. by a token limit). Throws when
+ * the output cannot be recovered.
+ */
+export function recoverJSON<T = object>(rawText: string): RecoveredJSON<T> {
+	const text = stripCodeFence(rawText);
 	try {
-		return JSON.parse(cleanedText.trim()) as T;
+		return { value: JSON.parse(text) as T, repairs: [], truncated: false };
 	} catch (error) {
-		// If parsing fails, try to extract JSON from the text
-		const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-		if (jsonMatch) {
-			return JSON.parse(jsonMatch[0]) as T;
+		// Everything that isn't plain JSON goes through the scanner, so any text
+		// around the value is reported as a repair
+		const start = text.search(/[{[]/);
+		if (start === -1) {
+			throw error;
+		}
+
+		const scanner = new PartialJSONScanner(text, start);
+		const parsed = scanner.parseValue();
+		if (!parsed) {
+			throw error;
+		}
+		const truncated = !parsed.complete;
+		if (truncated && !scanner.reachedEnd()) {
+			const position = scanner.position;
+			throw new SyntaxError(
+				`Unrecoverable JSON: unexpected ${JSON.stringify(text[position])} at position ${position}`,
+			);
+		}
+
+		// Anything after a complete value is either a second JSON value, which
+		// leaves it unclear which one was meant, or text that can be dropped
+		const trailing = !truncated && !scanner.reachedEnd();
+		if (trailing && /[{[]/.test(text[scanner.position] ?? "")) {
+			throw new SyntaxError(
+				`Unrecoverable JSON: another value starts at position ${scanner.position}`,
+			);
+		}
+
+		const repairs = scanner.getRepairs();
+		if (text.slice(0, start).trim()) {
+			repairs.unshift("dropped text before the JSON value");
+		}
+		if (trailing) {
+			repairs.push("dropped text after the JSON value");
 		}
-		throw error;
+		if (truncated) {
+			repairs.push(
+				"closed truncated output, dropping its incomplete last value",
+			);
+		}
+		return { value: parsed.value as T, repairs, truncated };
+	}
+}
+
+/**
+ * Accumulates streamed text chunks and exposes the partial value parsed so far.
+ * Re-parses the whole buffer on every push; model responses are small enough
+ * for this to stay cheap.
+ */
+export class IncrementalJSONParser<T = object> {
+	private buffer = "";
+
+	public push(chunk: string): PartialJSON<T> | undefined {
+		this.buffer += chunk;
+		return parsePartialJSON<T>(this.buffer);
+	}
+
+	public reset(): void {
+		this.buffer = "";
+	}
+
+	public get text(): string {
+		return this.buffer;
 	}
 }
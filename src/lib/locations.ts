@@ -0,0 +1,47 @@
+import type { StoryAnalysis } from "@/types";
+
+export type StoryLocation = NonNullable<StoryAnalysis["locations"]>[number];
+
+/**
+ * Turns a name into a location id: lowercase words joined by hyphens
+ */
+export function toLocationId(name: string): string {
+	return (
+		name
+			.normalize("NFKD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.toLowerCase()
+			.replace(/['’]/g, "")
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "location"
+	);
+}
+
+/**
+ * The location a panel is set in, or null when the panel has none or the
+ * location no longer exists
+ */
+export function findPanelLocation(
+	locations: StoryLocation[],
+	locationId: string | undefined,
+): StoryLocation | null {
+	return locations.find(({ id }) => id === locationId) ?? null;
+}
+
+/**
+ * The uploaded setting references for a panel: those bound to its location,
+ * and those that aren't bound to any location
+ */
+export function selectSettingReferences<T extends { id: string }>(
+	references: T[],
+	locations: StoryLocation[],
+	location: StoryLocation | null,
+): T[] {
+	const bound = new Set(
+		locations.flatMap(({ settingReferenceIds }) => settingReferenceIds ?? []),
+	);
+	return references.filter(
+		({ id }) =>
+			!bound.has(id) || location?.settingReferenceIds?.includes(id) === true,
+	);
+}
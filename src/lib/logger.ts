@@ -30,6 +30,7 @@ const createModuleLogger = (module: string) => {
 // Pre-configured loggers for different parts of the app
 export const storyAnalysisLogger = createModuleLogger("story-analysis");
 export const characterGenLogger = createModuleLogger("character-generation");
+export const propGenLogger = createModuleLogger("prop-generation");
 export const storyChunkingLogger = createModuleLogger("story-chunking");
 export const panelLogger = createModuleLogger("panel-generation");
 
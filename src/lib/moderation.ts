@@ -0,0 +1,167 @@
+import type { Logger } from "pino";
+import { getExcerpt } from "@/lib/prompts/safety";
+import type { ContentBlockDetails, ContentSafetyCategory } from "@/types";
+
+/**
+ * Thrown when content is refused, either by the moderation pre-check or by a
+ * provider's safety filter. Unlike other failures it is not retried or sent
+ * to the next provider, since the content itself has to change.
+ */
+export class ContentBlockedError extends Error {
+	readonly code = "CONTENT_BLOCKED";
+	readonly details: ContentBlockDetails;
+
+	constructor(details: ContentBlockDetails, options?: ErrorOptions) {
+		super(details.message, options);
+		this.name = "ContentBlockedError";
+		this.details = details;
+	}
+}
+
+const CATEGORY_LABELS: Record<ContentSafetyCategory, string> = {
+	sexual: "sexual content",
+	minors: "sexual content involving minors",
+	violence: "graphic violence",
+	"self-harm": "self-harm",
+	hate: "hateful content",
+	harassment: "harassment",
+	dangerous: "dangerous content",
+	unspecified: "unsafe content",
+};
+
+export function describeCategory(category: ContentSafetyCategory): string {
+	return CATEGORY_LABELS[category];
+}
+
+/**
+ * Builds the error for a provider's safety filter refusing a request
+ */
+export function providerBlockedError(
+	source: string,
+	category: ContentSafetyCategory,
+	cause?: unknown,
+): ContentBlockedError {
+	return new ContentBlockedError(
+		{
+			message: `Blocked by ${source} safety filters (${describeCategory(category)})`,
+			category,
+			source,
+		},
+		{ cause },
+	);
+}
+
+/**
+ * Response body for a blocked request, served with status 422
+ */
+export function getContentBlockedBody(
+	error: ContentBlockedError,
+): Record<string, unknown> {
+	const { message, ...details } = error.details;
+	return { error: message, code: error.code, ...details };
+}
+
+// Aimed at content image providers refuse outright. Fights and peril are
+// everyday comic material, so only graphic violence is screened.
+const MODERATION_RULES: {
+	category: Exclude<ContentSafetyCategory, "minors">;
+	pattern: RegExp;
+}[] = [
+	{
+		category: "sexual",
+		pattern:
+			/\b(porn\w*|hentai|explicit sex\w*|sex scenes?|(sexual )?intercourse|having sex|genitals?|genitalia|erotic\w*|nudity|topless|(naked|nude)\b(?! eye))/i,
+	},
+	{
+		category: "violence",
+		pattern:
+			/\b(gore|gory|disembowel\w*|decapitat\w*|dismember\w*|mutilat\w*|eviscerat\w*|entrails|severed (head|limbs?))\b/i,
+	},
+	{
+		category: "self-harm",
+		pattern:
+			/\b(self[- ]harm\w*|slit(s|ting)? (his|her|their|my|your) wrists|(hang|hangs|hanged|hanging|kill|kills|killed|killing) (him|her|them|my|your)sel(f|ves))\b/i,
+	},
+	{
+		category: "hate",
+		pattern: /\b(ethnic cleansing|heil hitler|white power|racial slurs?)\b/i,
+	},
+];
+
+// Combined with sexual content in the same sentence or clause, a mention of
+// a minor escalates the category
+const MINOR_PATTERN =
+	/\b(child(ren)?|kids?|minors?|underage|toddlers?|infants?|([1-9]|1[0-7])[- ]years?[- ]old|school ?(girl|boy)s?|loli)\b/i;
+
+const CLAUSE_BOUNDARY = /[.!?;\n]/;
+
+type ModerationMode = "block" | "warn" | "off";
+
+/**
+ * CONTENT_MODERATION=warn (default) only logs flagged content, block refuses
+ * it and off skips the screen. The rules are keyword matches, so blocking is
+ * opt-in.
+ */
+function readModerationMode(): ModerationMode {
+	const value = process.env["CONTENT_MODERATION"]?.trim().toLowerCase();
+	return value === "block" || value === "off" ? value : "warn";
+}
+
+/**
+ * The sentence or clause around a match
+ */
+function getClause(value: string, match: RegExpExecArray): string {
+	let start = match.index;
+	while (start > 0 && !CLAUSE_BOUNDARY.test(value.charAt(start - 1))) {
+		start--;
+	}
+	let end = match.index + match[0].length;
+	while (end < value.length && !CLAUSE_BOUNDARY.test(value.charAt(end))) {
+		end++;
+	}
+	return value.slice(start, end);
+}
+
+/**
+ * Screens user-controlled fields before they reach a model. Throws a
+ * ContentBlockedError for the first flagged field when moderation is set to
+ * block; in warn mode flagged fields are only logged.
+ */
+export function screenContent(
+	fields: Record<string, string | undefined>,
+	logger: Logger,
+	context: Record<string, unknown> = {},
+): void {
+	const mode = readModerationMode();
+	if (mode === "off") return;
+
+	for (const [field, value] of Object.entries(fields)) {
+		if (!value) continue;
+
+		for (const rule of MODERATION_RULES) {
+			const match = rule.pattern.exec(value);
+			if (!match) continue;
+
+			const category =
+				rule.category === "sexual" &&
+				MINOR_PATTERN.test(getClause(value, match))
+					? "minors"
+					: rule.category;
+			const details: ContentBlockDetails = {
+				message: `Blocked by content moderation: the ${field} appears to contain ${describeCategory(category)}`,
+				category,
+				source: "moderation",
+				field,
+				excerpt: getExcerpt(value, match),
+			};
+
+			logger.warn(
+				{ ...context, mode, field, category, excerpt: details.excerpt },
+				"Content flagged by moderation",
+			);
+			if (mode === "block") {
+				throw new ContentBlockedError(details);
+			}
+		}
+	}
+}
@@ -0,0 +1,222 @@
+import { deflateSync } from "node:zlib";
+
+/**
+ * 5x7 bitmap font used to label placeholder images.
+ * Each glyph is seven rows encoded as two hex digits (5 low bits per row).
+ */
+const FONT: Record<string, string> = {
+	A: "0e11111f111111",
+	B: "1e11111e11111e",
+	C: "0e11101010110e",
+	D: "1e11111111111e",
+	E: "1f10101e10101f",
+	F: "1f10101e101010",
+	G: "0e11101711110f",
+	H: "1111111f111111",
+	I: "0e04040404040e",
+	J: "0702020202120c",
+	K: "11121418141211",
+	L: "1010101010101f",
+	M: "111b1515111111",
+	N: "11111915131111",
+	O: "0e11111111110e",
+	P: "1e11111e101010",
+	Q: "0e11111115120d",
+	R: "1e11111e141211",
+	S: "0f10100e01011e",
+	T: "1f040404040404",
+	U: "1111111111110e",
+	V: "11111111110a04",
+	W: "1111111515150a",
+	X: "11110a040a1111",
+	Y: "11110a04040404",
+	Z: "1f01020408101f",
+	"0": "0e11131519110e",
+	"1": "040c040404040e",
+	"2": "0e11010204081f",
+	"3": "1f02040201110e",
+	"4": "02060a121f0202",
+	"5": "1f101e0101110e",
+	"6": "0608101e11110e",
+	"7": "1f010204080808",
+	"8": "0e11110e11110e",
+	"9": "0e11110f01020c",
+	"-": "0000001f000000",
+	".": "00000000000c0c",
+	":": "000c0c000c0c00",
+	"?": "0e110102040004",
+	"!": "04040404040004",
+	"'": "04040000000000",
+	"/": "01010204081010",
+	"#": "0a0a1f0a1f0a0a",
+	" ": "00000000000000",
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const TEXT_SCALE = 4;
+const BORDER_WIDTH = 8;
+
+type Rgb = [number, number, number];
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(typeAndData));
+	return Buffer.concat([length, typeAndData, crc]);
+}
+
+function encodePng(width: number, height: number, pixels: Buffer): Buffer {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header[8] = 8; // bit depth
+	header[9] = 2; // color type: RGB
+	header[10] = 0; // compression
+	header[11] = 0; // filter
+	header[12] = 0; // interlace
+
+	// Prefix every scanline with filter type 0 (none)
+	const rowLength = width * 3;
+	const raw = Buffer.alloc((rowLength + 1) * height);
+	for (let y = 0; y < height; y++) {
+		pixels.copy(
+			raw,
+			y * (rowLength + 1) + 1,
+			y * rowLength,
+			(y + 1) * rowLength,
+		);
+	}
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk("IHDR", header),
+		pngChunk("IDAT", deflateSync(raw)),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+/**
+ * Picks a stable pastel background color for a label
+ */
+function backgroundFor(seedText: string): Rgb {
+	let hash = 0;
+	for (const char of seedText) {
+		hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+	}
+	return [
+		180 + (hash % 60),
+		180 + ((hash >>> 8) % 60),
+		180 + ((hash >>> 16) % 60),
+	];
+}
+
+function wrapText(text: string, maxChars: number): string[] {
+	const lines: string[] = [];
+	let current = "";
+	for (const word of text.toUpperCase().split(/\s+/).filter(Boolean)) {
+		const candidate = current ? `${current} ${word}` : word;
+		if (candidate.length <= maxChars) {
+			current = candidate;
+		} else {
+			if (current) lines.push(current);
+			current = word.slice(0, maxChars);
+		}
+	}
+	if (current) lines.push(current);
+	return lines;
+}
+
+/**
+ * Creates a labelled placeholder PNG and returns it as a base64 data URL
+ */
+export function createPlaceholderPng(
+	labelLines: string[],
+	width = 512,
+	height = 512,
+): string {
+	const pixels = Buffer.alloc(width * height * 3);
+	const background = backgroundFor(labelLines.join("\n"));
+
+	const setPixel = (x: number, y: number, color: Rgb) => {
+		if (x < 0 || y < 0 || x >= width || y >= height) return;
+		const offset = (y * width + x) * 3;
+		pixels[offset] = color[0];
+		pixels[offset + 1] = color[1];
+		pixels[offset + 2] = color[2];
+	};
+
+	// Background with a black panel border
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const isBorder =
+				x < BORDER_WIDTH ||
+				y < BORDER_WIDTH ||
+				x >= width - BORDER_WIDTH ||
+				y >= height - BORDER_WIDTH;
+			setPixel(x, y, isBorder ? [0, 0, 0] : background);
+		}
+	}
+
+	// Label text, wrapped and centered
+	const charWidth = (GLYPH_WIDTH + 1) * TEXT_SCALE;
+	const lineHeight = (GLYPH_HEIGHT + 3) * TEXT_SCALE;
+	const maxChars = Math.max(
+		1,
+		Math.floor((width - BORDER_WIDTH * 4) / charWidth),
+	);
+	const lines = labelLines.flatMap((line) => wrapText(line, maxChars));
+	const maxLines = Math.max(
+		1,
+		Math.floor((height - BORDER_WIDTH * 4) / lineHeight),
+	);
+	const visibleLines = lines.slice(0, maxLines);
+	const textTop = Math.floor((height - visibleLines.length * lineHeight) / 2);
+
+	for (const [lineIndex, line] of visibleLines.entries()) {
+		const lineLeft = Math.floor((width - line.length * charWidth) / 2);
+		for (const [charIndex, char] of [...line].entries()) {
+			const glyph = FONT[char] ?? FONT["?"] ?? "";
+			for (let row = 0; row < GLYPH_HEIGHT; row++) {
+				const bits = Number.parseInt(glyph.slice(row * 2, row * 2 + 2), 16);
+				for (let col = 0; col < GLYPH_WIDTH; col++) {
+					if (!(bits & (1 << (GLYPH_WIDTH - 1 - col)))) continue;
+					for (let dy = 0; dy < TEXT_SCALE; dy++) {
+						for (let dx = 0; dx < TEXT_SCALE; dx++) {
+							setPixel(
+								lineLeft + charIndex * charWidth + col * TEXT_SCALE + dx,
+								textTop + lineIndex * lineHeight + row * TEXT_SCALE + dy,
+								[0, 0, 0],
+							);
+						}
+					}
+				}
+			}
+		}
+	}
+
+	const png = encodePng(width, height, pixels);
+	return `data:image/png;base64,${png.toString("base64")}`;
+}
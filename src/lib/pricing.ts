@@ -0,0 +1,68 @@
+/**
+ * Price table used to estimate generation costs, keyed by model id.
+ * Defaults reflect public list prices in USD; override or extend them with a
+ * JSON object in MODEL_PRICES, e.g.
+ * MODEL_PRICES='{"qwen2.5:14b":{"inputPerMillionTokens":0.1,"outputPerMillionTokens":0.3}}'
+ * Models without an entry (e.g. self-hosted ones) are estimated at zero cost.
+ */
+
+interface ModelPrice {
+	inputPerMillionTokens?: number;
+	outputPerMillionTokens?: number;
+	perImage?: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+	"gemini-2.5-flash": {
+		inputPerMillionTokens: 0.3,
+		outputPerMillionTokens: 2.5,
+	},
+	// Image output is billed as tokens (1290 per image)
+	"gemini-2.5-flash-image-preview": {
+		inputPerMillionTokens: 0.3,
+		outputPerMillionTokens: 30,
+	},
+	"anthropic.claude-sonnet-4-20250514-v1:0": {
+		inputPerMillionTokens: 3,
+		outputPerMillionTokens: 15,
+	},
+	"stability.sd3-5-large-v1:0": { perImage: 0.08 },
+	"amazon.titan-image-generator-v1": { perImage: 0.01 },
+	"amazon.titan-image-generator-v2:0": { perImage: 0.01 },
+};
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+function getPriceTable(): Record<string, ModelPrice> {
+	if (cachedPrices) return cachedPrices;
+
+	let overrides: Record<string, ModelPrice> = {};
+	const configured = process.env["MODEL_PRICES"];
+	if (configured) {
+		try {
+			overrides = JSON.parse(configured);
+		} catch {
+			console.warn("⚠️ Ignoring MODEL_PRICES: not valid JSON");
+		}
+	}
+
+	cachedPrices = { ...DEFAULT_PRICES, ...overrides };
+	return cachedPrices;
+}
+
+/**
+ * Estimates the cost in USD of a single generation call
+ */
+export function estimateCost(
+	model: string,
+	usage: { inputTokens: number; outputTokens: number; images: number },
+): number {
+	const price = getPriceTable()[model];
+	if (!price) return 0;
+
+	return (
+		(usage.inputTokens * (price.inputPerMillionTokens || 0)) / 1_000_000 +
+		(usage.outputTokens * (price.outputPerMillionTokens || 0)) / 1_000_000 +
+		usage.images * (price.perImage || 0)
+	);
+}
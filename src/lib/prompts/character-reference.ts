@@ -0,0 +1,74 @@
+import type { ComicStyle, StoryAnalysis } from "@/types";
+import { asSentence, STYLE_FRAGMENTS } from "./fragments";
+import type { PromptTemplate } from "./types";
+
+export interface CharacterReferenceVariables {
+	style: ComicStyle;
+	character: StoryAnalysis["characters"][number];
+	setting: StoryAnalysis["setting"];
+	// Uploaded references whose name matches this character
+	hasMatchingUploads: boolean;
+	hasUploads: boolean;
+}
+
+export const characterReferenceTemplates: PromptTemplate<CharacterReferenceVariables>[] =
+	[
+		{
+			id: "character-reference",
+			version: 1,
+			description: "Full body reference sheet on a plain background",
+			render: ({
+				style,
+				character,
+				setting,
+				hasMatchingUploads,
+				hasUploads,
+			}) => {
+				const stylePrefix = STYLE_FRAGMENTS[style].characterSheet;
+
+				let prompt = `
+Character reference sheet in ${stylePrefix}. 
+
+Full body character design showing front view of ${character.name}:
+- Physical appearance: ${character.physicalDescription}
+- Personality: ${character.personality}
+- Role: ${character.role}
+- Setting context: ${setting.timePeriod}, ${setting.location}
+`;
+
+				if (hasMatchingUploads) {
+					prompt += `
+
+IMPORTANT: Use the provided reference images as inspiration for this character's design. The reference images show visual elements that should be incorporated while adapting them to the ${stylePrefix} aesthetic. Maintain the essence and key visual features shown in the references.
+`;
+				} else if (hasUploads) {
+					prompt += `
+
+Note: Reference images are provided, but use them as general style inspiration for this character design.
+`;
+				}
+
+				prompt += `
+
+The character should be drawn in a neutral pose against a plain background, showing their full design clearly for reference purposes. This is a character reference sheet that will be used to maintain consistency across multiple comic panels.
+`;
+				return prompt;
+			},
+		},
+	];
+
+export const shortCharacterReferenceTemplates: PromptTemplate<CharacterReferenceVariables>[] =
+	[
+		{
+			id: "short-character-reference",
+			version: 1,
+			description:
+				"Compact full body reference sheet for models with a short prompt limit",
+			render: ({ style, character, setting }) =>
+				[
+					`Full body character reference sheet, front view, neutral pose, plain background, ${STYLE_FRAGMENTS[style].short}.`,
+					`${character.name}: ${asSentence(character.physicalDescription)}`,
+					asSentence(setting.timePeriod),
+				].join(" "),
+		},
+	];
@@ -0,0 +1,113 @@
+import type { PromptTemplateRef } from "@/types";
+import {
+	type CharacterReferenceVariables,
+	characterReferenceTemplates,
+	shortCharacterReferenceTemplates,
+} from "./character-reference";
+import {
+	type PanelVariables,
+	panelTemplates,
+	shortPanelTemplates,
+} from "./panel";
+import {
+	type PanelDirectionVariables,
+	panelDirectionTemplates,
+} from "./panel-direction";
+import {
+	type PropReferenceVariables,
+	propReferenceTemplates,
+	shortPropReferenceTemplates,
+} from "./prop-reference";
+import { sanitizePromptVariables } from "./safety";
+import {
+	longStoryAnalysisTemplates,
+	type StoryAnalysisVariables,
+	storyAnalysisTemplates,
+} from "./story-analysis";
+import {
+	type StoryBreakdownVariables,
+	storyBreakdownTemplates,
+} from "./story-breakdown";
+import type { PromptTemplate } from "./types";
+
+interface PromptVariables {
+	"story-analysis": StoryAnalysisVariables;
+	"long-story-analysis": StoryAnalysisVariables;
+	"story-breakdown": StoryBreakdownVariables;
+	"panel-direction": PanelDirectionVariables;
+	"character-reference": CharacterReferenceVariables;
+	"prop-reference": PropReferenceVariables;
+	panel: PanelVariables;
+	"short-character-reference": CharacterReferenceVariables;
+	"short-prop-reference": PropReferenceVariables;
+	"short-panel": PanelVariables;
+}
+
+type PromptId = keyof PromptVariables;
+
+const TEMPLATES: { [Id in PromptId]: PromptTemplate<PromptVariables[Id]>[] } = {
+	"story-analysis": storyAnalysisTemplates,
+	"long-story-analysis": longStoryAnalysisTemplates,
+	"story-breakdown": storyBreakdownTemplates,
+	"panel-direction": panelDirectionTemplates,
+	"character-reference": characterReferenceTemplates,
+	"prop-reference": propReferenceTemplates,
+	panel: panelTemplates,
+	"short-character-reference": shortCharacterReferenceTemplates,
+	"short-prop-reference": shortPropReferenceTemplates,
+	"short-panel": shortPanelTemplates,
+};
+
+export interface RenderedPrompt {
+	text: string;
+	template: PromptTemplateRef;
+}
+
+/**
+ * Reads version pins from PROMPT_TEMPLATE_VERSIONS, e.g. "panel=1,story-breakdown=2"
+ */
+function getPinnedVersions(): Map<string, number> {
+	const pins = new Map<string, number>();
+	for (const entry of (process.env["PROMPT_TEMPLATE_VERSIONS"] ?? "").split(
+		",",
+	)) {
+		const [id, version] = entry.split("=").map((part) => part.trim());
+		const parsed = Number(version);
+		if (id && Number.isInteger(parsed)) {
+			pins.set(id, parsed);
+		}
+	}
+	return pins;
+}
+
+/**
+ * Picks the pinned version of a template, or the latest one when it isn't
+ * pinned or the pinned version doesn't exist
+ */
+function getActiveTemplate<Id extends PromptId>(
+	id: Id,
+): PromptTemplate<PromptVariables[Id]> {
+	const versions = TEMPLATES[id] as PromptTemplate<PromptVariables[Id]>[];
+	const pinned = getPinnedVersions().get(id);
+	const match = versions.find((template) => template.version === pinned);
+	if (match) {
+		return match;
+	}
+	return versions.reduce((a, b) => (b.version > a.version ? b : a));
+}
+
+/**
+ * Renders the active version of a prompt template from sanitized variables.
+ * The returned template reference should be stored with whatever the prompt
+ * produces.
+ */
+export function renderPrompt<Id extends PromptId>(
+	id: Id,
+	variables: PromptVariables[Id],
+): RenderedPrompt {
+	const template = getActiveTemplate(id);
+	return {
+		text: template.render(sanitizePromptVariables(variables)),
+		template: { id: template.id, version: template.version },
+	};
+}
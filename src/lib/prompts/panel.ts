@@ -0,0 +1,239 @@
+import { describeAspectRatio } from "@/lib/aspect-ratio";
+import type { StoryLocation } from "@/lib/locations";
+import type { StoryProp } from "@/lib/story-props";
+import type {
+	ComicStyle,
+	PanelAspectRatio,
+	StoryAnalysis,
+	StoryBreakdown,
+} from "@/types";
+import { asSentence, STYLE_FRAGMENTS } from "./fragments";
+import type { PromptTemplate } from "./types";
+
+export interface PanelVariables {
+	style: ComicStyle;
+	setting: StoryAnalysis["setting"];
+	// The location the panel is set in, if it has one
+	location: StoryLocation | null;
+	panel: StoryBreakdown["panels"][number];
+	// Characters in the panel that have a generated reference image
+	charactersWithReferences: string[];
+	// Key props shown in the panel, and those of them with a reference image
+	props: StoryProp[];
+	propsWithReferences: string[];
+	aspectRatio: PanelAspectRatio;
+	noDialogue: boolean;
+	hasSettingReferences: boolean;
+}
+
+const panelV1: PromptTemplate<PanelVariables> = {
+	id: "panel",
+	version: 1,
+	description: "Single panel guided by character and setting references",
+	render: ({
+		style,
+		setting,
+		panel,
+		charactersWithReferences,
+		aspectRatio,
+		noDialogue,
+		hasSettingReferences,
+	}) => {
+		const stylePrefix = STYLE_FRAGMENTS[style].panel;
+		const charactersInPanel = panel.characters
+			.map((charName) =>
+				charactersWithReferences.includes(charName)
+					? `${charName} (matching the character design shown in reference image)`
+					: charName,
+			)
+			.join(" and ");
+
+		let prompt = `
+Create a single comic panel in ${stylePrefix}.
+
+Setting: ${setting.location}, ${setting.timePeriod}, mood: ${setting.mood}
+
+Panel Details:
+Panel ${panel.panelNumber}: ${panel.cameraAngle} shot of ${charactersInPanel}. Scene: ${panel.sceneDescription}. ${noDialogue ? "NO DIALOGUE MODE - Focus on pure visual storytelling." : panel.dialogue ? `Dialogue: "${panel.dialogue}"` : "No dialogue."}. Mood: ${panel.visualMood}.
+
+IMPORTANT: Use the character reference images provided to maintain visual consistency. Each character should match their appearance from the reference images exactly.
+`;
+
+		if (hasSettingReferences) {
+			prompt += `
+IMPORTANT: Use the provided setting/environment reference images to guide the visual style, atmosphere, and environmental details of this panel. Incorporate the visual elements, lighting, and mood shown in the setting references while adapting them to the ${stylePrefix} aesthetic.
+`;
+		}
+
+		prompt += `
+The panel should include:
+- Framing composed for ${describeAspectRatio(aspectRatio)}, filling the whole image
+- Clear panel border
+${
+	noDialogue
+		? `- NO speech bubbles or dialogue text - pure visual storytelling only
+- Emphasize character expressions, body language, and visual details
+- Environmental storytelling without any text or speech`
+		: `- Speech bubbles with dialogue text (if any) - IMPORTANT: If dialogue includes character attribution like "Character: 'text'", only put the spoken text in the speech bubble, NOT the character name
+- Thought bubbles if needed`
+}
+- Sound effects where appropriate
+- Consistent character designs matching the references
+
+Generate a single comic panel image with proper framing and composition.
+`;
+		return prompt;
+	},
+};
+
+export const panelTemplates: PromptTemplate<PanelVariables>[] = [
+	panelV1,
+	{
+		id: "panel",
+		version: 2,
+		description: "v1 set in the panel's own location",
+		render: (variables) => {
+			const { setting, location } = variables;
+			return panelV1.render({
+				...variables,
+				setting: location
+					? {
+							...setting,
+							location: `${location.name} (${location.description})`,
+						}
+					: setting,
+			});
+		},
+	},
+	{
+		id: "panel",
+		version: 3,
+		description:
+			"v2 with the key props in the panel and their reference images",
+		render: ({
+			style,
+			setting,
+			location,
+			panel,
+			charactersWithReferences,
+			props,
+			propsWithReferences,
+			aspectRatio,
+			noDialogue,
+			hasSettingReferences,
+		}) => {
+			const stylePrefix = STYLE_FRAGMENTS[style].panel;
+			const charactersInPanel = panel.characters
+				.map((charName) =>
+					charactersWithReferences.includes(charName)
+						? `${charName} (matching the character design shown in reference image)`
+						: charName,
+				)
+				.join(" and ");
+			const propsInPanel = props
+				.map(
+					(prop) =>
+						`${prop.name} (${prop.description}${propsWithReferences.includes(prop.name) ? ", matching the prop shown in reference image" : ""})`,
+				)
+				.join("; ");
+
+			let prompt = `
+Create a single comic panel in ${stylePrefix}.
+
+Setting: ${location ? `${location.name} (${location.description})` : setting.location}, ${setting.timePeriod}, mood: ${setting.mood}
+
+Panel Details:
+Panel ${panel.panelNumber}: ${panel.cameraAngle} shot of ${charactersInPanel}. Scene: ${panel.sceneDescription}. ${noDialogue ? "NO DIALOGUE MODE - Focus on pure visual storytelling." : panel.dialogue ? `Dialogue: "${panel.dialogue}"` : "No dialogue."}. Mood: ${panel.visualMood}.
+${propsInPanel ? `Props in this panel: ${propsInPanel}.\n` : ""}
+IMPORTANT: Use the character reference images provided to maintain visual consistency. Each character should match their appearance from the reference images exactly.
+`;
+
+			if (propsWithReferences.length > 0) {
+				prompt += `
+IMPORTANT: Reference images of the props are provided after the character references. Draw each prop exactly as its reference shows it (shape, colours, markings), at a size that fits the scene.
+`;
+			}
+
+			if (hasSettingReferences) {
+				prompt += `
+IMPORTANT: Use the provided setting/environment reference images to guide the visual style, atmosphere, and environmental details of this panel. Incorporate the visual elements, lighting, and mood shown in the setting references while adapting them to the ${stylePrefix} aesthetic.
+`;
+			}
+
+			prompt += `
+The panel should include:
+- Framing composed for ${describeAspectRatio(aspectRatio)}, filling the whole image
+- Clear panel border
+${
+	noDialogue
+		? `- NO speech bubbles or dialogue text - pure visual storytelling only
+- Emphasize character expressions, body language, and visual details
+- Environmental storytelling without any text or speech`
+		: `- Speech bubbles with dialogue text (if any) - IMPORTANT: If dialogue includes character attribution like "Character: 'text'", only put the spoken text in the speech bubble, NOT the character name
+- Thought bubbles if needed`
+}
+- Sound effects where appropriate
+- Consistent character designs${props.length > 0 ? " and props" : ""} matching the references
+
+Generate a single comic panel image with proper framing and composition.
+`;
+			return prompt;
+		},
+	},
+];
+
+const shortPanelV1: PromptTemplate<PanelVariables> = {
+	id: "short-panel",
+	version: 1,
+	description: "Compact single panel for models with a short prompt limit",
+	render: ({ style, setting, panel, noDialogue }) =>
+		[
+			`${panel.cameraAngle} comic panel, ${STYLE_FRAGMENTS[style].short}.`,
+			asSentence(panel.sceneDescription),
+			panel.characters.length > 0
+				? `Characters: ${panel.characters.join(", ")}.`
+				: "",
+			`Setting: ${setting.location}, ${setting.timePeriod}.`,
+			`Mood: ${asSentence(panel.visualMood)}`,
+			noDialogue ? "No text or speech bubbles." : "",
+		]
+			.filter(Boolean)
+			.join(" "),
+};
+
+export const shortPanelTemplates: PromptTemplate<PanelVariables>[] = [
+	shortPanelV1,
+	{
+		id: "short-panel",
+		version: 2,
+		description: "v1 set in the panel's own location",
+		render: (variables) => {
+			const { setting, location } = variables;
+			return shortPanelV1.render({
+				...variables,
+				setting: location ? { ...setting, location: location.name } : setting,
+			});
+		},
+	},
+	{
+		id: "short-panel",
+		version: 3,
+		description: "v2 with the key props in the panel",
+		render: ({ style, setting, location, panel, props, noDialogue }) =>
+			[
+				`${panel.cameraAngle} comic panel, ${STYLE_FRAGMENTS[style].short}.`,
+				asSentence(panel.sceneDescription),
+				panel.characters.length > 0
+					? `Characters: ${panel.characters.join(", ")}.`
+					: "",
+				props.length > 0
+					? `Props: ${props.map((prop) => prop.name).join(", ")}.`
+					: "",
+				`Setting: ${location?.name ?? setting.location}, ${setting.timePeriod}.`,
+				`Mood: ${asSentence(panel.visualMood)}`,
+				noDialogue ? "No text or speech bubbles." : "",
+			]
+				.filter(Boolean)
+				.join(" "),
+	},
+];
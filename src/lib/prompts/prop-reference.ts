@@ -0,0 +1,51 @@
+import type { StoryProp } from "@/lib/story-props";
+import type { ComicStyle, StoryAnalysis } from "@/types";
+import { asSentence, STYLE_FRAGMENTS } from "./fragments";
+import type { PromptTemplate } from "./types";
+
+export interface PropReferenceVariables {
+	style: ComicStyle;
+	prop: StoryProp;
+	setting: StoryAnalysis["setting"];
+}
+
+export const propReferenceTemplates: PromptTemplate<PropReferenceVariables>[] =
+	[
+		{
+			id: "prop-reference",
+			version: 1,
+			description: "Prop design sheet on a plain background",
+			render: ({ style, prop, setting }) => {
+				const stylePrefix = STYLE_FRAGMENTS[style].characterSheet;
+
+				return `
+Prop reference sheet in ${stylePrefix}.
+
+Object design showing ${prop.name}:
+- Appearance: ${prop.description}
+- Setting context: ${setting.timePeriod}, ${setting.location}
+
+Draw only the object, with no people, against a plain background: a large three-quarter view and a smaller side view, so its shape, colours, materials and markings are clear. This is a prop reference sheet that will be used to keep the object consistent across multiple comic panels.
+`;
+			},
+		},
+	];
+
+/**
+ * Compact prop sheet prompt for image models with a short prompt limit
+ */
+export const shortPropReferenceTemplates: PromptTemplate<PropReferenceVariables>[] =
+	[
+		{
+			id: "short-prop-reference",
+			version: 1,
+			description:
+				"Compact prop design sheet for models with a short prompt limit",
+			render: ({ style, prop, setting }) =>
+				[
+					`Prop reference sheet, the object only with no people, plain background, ${STYLE_FRAGMENTS[style].short}.`,
+					`${prop.name}: ${asSentence(prop.description)}`,
+					asSentence(setting.timePeriod),
+				].join(" "),
+		},
+	];
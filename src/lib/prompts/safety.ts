@@ -0,0 +1,155 @@
+import type { PromptInjectionWarning } from "@/types";
+
+// Single-line fields (names, descriptions, dialogue) are capped so a pasted
+// wall of text can't crowd out the rest of the prompt
+const MAX_INLINE_LENGTH = 2000;
+
+// Tags the templates use to fence off user content; stripped from user input
+// so it can't close the fence early
+const DELIMITER_TAG = /<\/?\s*user-[\w-]*\s*>/gi;
+
+const INSTRUCTION_PATTERNS: { pattern: RegExp; reason: string }[] = [
+	{
+		pattern:
+			/\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|directions|guidelines)\b/i,
+		reason: "Asks the model to ignore its instructions",
+	},
+	{
+		pattern: /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+		reason: "Refers to the system prompt",
+	},
+	{
+		pattern:
+			/(^\s*(system|assistant|developer)\s*:)|<\|?\s*(im_start|im_end|endoftext)\s*\|?>|\[\/?INST\]/im,
+		reason: "Contains chat role markers",
+	},
+	{
+		pattern:
+			/\b(you are now|from now on,? you (are|will|must)|pretend (that )?you are|you must now)\b/i,
+		reason: "Tries to change the model's role",
+	},
+	{
+		pattern: /\b(new|updated|additional)\s+instructions?\s*:/i,
+		reason: "Introduces new instructions",
+	},
+	{
+		pattern:
+			/\b(respond|reply|answer|output|return)\s+(only\s+)?(with|in)\s+(json|the following|exactly)\b/i,
+		reason: "Dictates the response format",
+	},
+	{
+		pattern:
+			/\b(reveal|print|show|repeat)\b[^.\n]{0,30}\b(prompt|instructions|api keys?|secrets?)\b/i,
+		reason: "Asks the model to reveal its instructions or secrets",
+	},
+	{
+		pattern: new RegExp(DELIMITER_TAG.source, "i"),
+		reason: "Contains prompt delimiter tags",
+	},
+];
+
+/**
+ * Control, zero-width and bidirectional override characters, which can hide
+ * text from the user while the model still reads it
+ */
+function isInvisibleCharacter(codePoint: number): boolean {
+	return (
+		(codePoint < 0x20 && codePoint !== 0x09 && codePoint !== 0x0a) ||
+		codePoint === 0x7f ||
+		(codePoint >= 0x200b && codePoint <= 0x200f) ||
+		(codePoint >= 0x202a && codePoint <= 0x202e) ||
+		(codePoint >= 0x2060 && codePoint <= 0x2069) ||
+		codePoint === 0xfeff
+	);
+}
+
+/**
+ * Cleans multi-line user text (the story) before it goes into a prompt
+ */
+function sanitizePromptText(text: string): string {
+	return Array.from(text.normalize("NFKC").replace(/\r\n?/g, "\n"))
+		.filter((char) => !isInvisibleCharacter(char.codePointAt(0) ?? 0))
+		.join("")
+		.replace(DELIMITER_TAG, "")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Cleans a single-line field. Line breaks are collapsed so the value can't
+ * start what looks like a new instruction, and double quotes are swapped for
+ * single ones so it can't break out of the quotes the templates put around it.
+ */
+function sanitizePromptInline(text: string): string {
+	return sanitizePromptText(text)
+		.replace(/\s+/g, " ")
+		.replace(/"/g, "'")
+		.slice(0, MAX_INLINE_LENGTH);
+}
+
+/**
+ * Sanitizes every string in a template's variables. Only the story itself
+ * may span multiple lines.
+ */
+export function sanitizePromptVariables<T>(variables: T): T {
+	const sanitize = (value: unknown, key?: string): unknown => {
+		if (typeof value === "string") {
+			return key === "story"
+				? sanitizePromptText(value)
+				: sanitizePromptInline(value);
+		}
+		if (Array.isArray(value)) {
+			return value.map((item) => sanitize(item));
+		}
+		if (value && typeof value === "object") {
+			return Object.fromEntries(
+				Object.entries(value).map(([entryKey, entryValue]) => [
+					entryKey,
+					sanitize(entryValue, entryKey),
+				]),
+			);
+		}
+		return value;
+	};
+	return sanitize(variables) as T;
+}
+
+/**
+ * Fences off user text in a prompt. Used by the text templates; image
+ * prompts only get sanitized, since image models would draw the tags.
+ */
+export function delimitUserText(label: string, text: string): string {
+	return `<user-${label}>\n${text}\n</user-${label}>`;
+}
+
+/**
+ * A single-line excerpt of the text around a match, for showing the user
+ * what was flagged
+ */
+export function getExcerpt(value: string, match: RegExpExecArray): string {
+	const start = Math.max(0, match.index - 30);
+	const end = Math.min(value.length, match.index + match[0].length + 30);
+	return `${start > 0 ? "…" : ""}${value.slice(start, end).replace(/\s+/g, " ").trim()}${end < value.length ? "…" : ""}`;
+}
+
+/**
+ * Flags user-controlled fields that read like instructions to the model.
+ * Flagged content is still used (after sanitizing); the warnings are shown
+ * to the user so they can check the generated results.
+ */
+export function detectInstructionLikeContent(
+	fields: Record<string, string | undefined>,
+): PromptInjectionWarning[] {
+	const warnings: PromptInjectionWarning[] = [];
+	for (const [field, value] of Object.entries(fields)) {
+		if (!value) continue;
+
+		for (const { pattern, reason } of INSTRUCTION_PATTERNS) {
+			const match = pattern.exec(value);
+			if (!match) continue;
+
+			warnings.push({ field, reason, excerpt: getExcerpt(value, match) });
+		}
+	}
+	return warnings;
+}
@@ -0,0 +1,227 @@
+import type { ComicStyle } from "@/types";
+import { STORY_DELIMITER_NOTICE } from "./fragments";
+import { delimitUserText } from "./safety";
+import type { PromptTemplate } from "./types";
+
+export interface StoryAnalysisVariables {
+	story: string;
+	style: ComicStyle;
+}
+
+export const storyAnalysisTemplates: PromptTemplate<StoryAnalysisVariables>[] =
+	[
+		{
+			id: "story-analysis",
+			version: 1,
+			description: "Title, 1-4 main characters and setting",
+			render: ({ story, style }) => `
+Analyze this story and extract the main characters with their detailed characteristics:
+
+Story: "${story}"
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of main characters (1-4 maximum, choose based on story complexity) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, location, mood)
+`,
+		},
+		{
+			id: "story-analysis",
+			version: 2,
+			description: "v1 with the story delimited as untrusted input",
+			render: ({ story, style }) => `
+Analyze this story and extract the main characters with their detailed characteristics.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of main characters (1-4 maximum, choose based on story complexity) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, location, mood)
+`,
+		},
+		{
+			id: "story-analysis",
+			version: 3,
+			description: "v2 plus the distinct locations scenes are set in",
+			render: ({ story, style }) => `
+Analyze this story and extract the main characters with their detailed characteristics.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of main characters (1-4 maximum, choose based on story complexity) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, the location where most of the story takes place, mood)
+
+4. The distinct locations scenes take place in (1-8, in order of first appearance; a story that stays in one place has one), each with:
+   - Id: a short lowercase slug, e.g. "rooftop" or "maya-kitchen"
+   - Name
+   - Visual description (architecture, furnishings, landmarks, lighting) so the place can be drawn the same way every time
+`,
+		},
+		{
+			id: "story-analysis",
+			version: 4,
+			description:
+				"v3 plus the key props that need to look the same in every panel",
+			render: ({ story, style }) => `
+Analyze this story and extract the main characters with their detailed characteristics.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of main characters (1-4 maximum, choose based on story complexity) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, the location where most of the story takes place, mood)
+
+4. The distinct locations scenes take place in (1-8, in order of first appearance; a story that stays in one place has one), each with:
+   - Id: a short lowercase slug, e.g. "rooftop" or "maya-kitchen"
+   - Name
+   - Visual description (architecture, furnishings, landmarks, lighting) so the place can be drawn the same way every time
+
+5. Key props (0-6): objects that appear in several scenes or matter to the plot, such as a sword, a red umbrella or a letter. Leave out everyday objects that are only mentioned in passing and clothing a character always wears. Each with:
+   - Name, as the story refers to it (e.g. "red umbrella")
+   - Visual description (shape, size, colour, material, markings) so it can be drawn the same way in every panel
+`,
+		},
+	];
+
+/**
+ * For long stories, which are analyzed whole so that every chapter shares
+ * the cast: a larger cast and, from v2, more locations and, from v3, more
+ * props
+ */
+export const longStoryAnalysisTemplates: PromptTemplate<StoryAnalysisVariables>[] =
+	[
+		{
+			id: "long-story-analysis",
+			version: 1,
+			description:
+				"story-analysis v2 for long stories, with up to 12 recurring characters",
+			render: ({ story, style }) => `
+Analyze this long story, which will be drawn as a comic chapter by chapter, and extract the recurring characters with their detailed characteristics. Every chapter is drawn from this analysis, so include each character who appears in more than one scene, not only the protagonists.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of the recurring characters (1-12 maximum, most important first; leave out characters who appear only once) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, location, mood)
+`,
+		},
+		{
+			id: "long-story-analysis",
+			version: 2,
+			description:
+				"story-analysis v3 for long stories, with up to 12 recurring characters and 16 locations",
+			render: ({ story, style }) => `
+Analyze this long story, which will be drawn as a comic chapter by chapter, and extract the recurring characters with their detailed characteristics. Every chapter is drawn from this analysis, so include each character who appears in more than one scene, not only the protagonists.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of the recurring characters (1-12 maximum, most important first; leave out characters who appear only once) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, the location where most of the story takes place, mood)
+
+4. The distinct locations scenes take place in (1-16, in order of first appearance), each with:
+   - Id: a short lowercase slug, e.g. "rooftop" or "maya-kitchen"
+   - Name
+   - Visual description (architecture, furnishings, landmarks, lighting) so the place can be drawn the same way every time
+`,
+		},
+		{
+			id: "long-story-analysis",
+			version: 3,
+			description:
+				"story-analysis v4 for long stories, with up to 12 recurring characters, 16 locations and 10 props",
+			render: ({ story, style }) => `
+Analyze this long story, which will be drawn as a comic chapter by chapter, and extract the recurring characters with their detailed characteristics. Every chapter is drawn from this analysis, so include each character who appears in more than one scene, not only the protagonists.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Style: ${style}
+
+Please provide:
+1. A title for this story (create a catchy, appropriate title if one isn't explicitly mentioned)
+
+2. A list of the recurring characters (1-12 maximum, most important first; leave out characters who appear only once) with:
+   - Name
+   - Physical description (age, build, hair, clothing, distinctive features)
+   - Personality traits
+   - Role in the story
+
+3. Setting description (time period, the location where most of the story takes place, mood)
+
+4. The distinct locations scenes take place in (1-16, in order of first appearance), each with:
+   - Id: a short lowercase slug, e.g. "rooftop" or "maya-kitchen"
+   - Name
+   - Visual description (architecture, furnishings, landmarks, lighting) so the place can be drawn the same way every time
+
+5. Key props (0-10): objects that appear in several scenes or matter to the plot, such as a sword, a red umbrella or a letter. Leave out everyday objects that are only mentioned in passing and clothing a character always wears. Each with:
+   - Name, as the story refers to it (e.g. "red umbrella")
+   - Visual description (shape, size, colour, material, markings) so it can be drawn the same way in every panel
+`,
+		},
+	];
@@ -0,0 +1,188 @@
+import { PANEL_ASPECT_RATIOS } from "@/lib/aspect-ratio";
+import type { StoryLocation } from "@/lib/locations";
+import type { StoryProp } from "@/lib/story-props";
+import type { ComicStyle, StoryAnalysis } from "@/types";
+import { LAYOUT_GUIDANCE, STORY_DELIMITER_NOTICE } from "./fragments";
+import { delimitUserText } from "./safety";
+import type { PromptTemplate } from "./types";
+
+export interface StoryBreakdownVariables {
+	story: string;
+	characterNames: string[];
+	setting: StoryAnalysis["setting"];
+	// Empty for analyses from before stories had several locations
+	locations: StoryLocation[];
+	// Empty for analyses from before props were tracked
+	props: StoryProp[];
+	style: ComicStyle;
+	noDialogue: boolean;
+}
+
+export const storyBreakdownTemplates: PromptTemplate<StoryBreakdownVariables>[] =
+	[
+		{
+			id: "story-breakdown",
+			version: 1,
+			description: "2-15 panels with camera, mood and aspect ratio",
+			render: ({ story, characterNames, setting, style, noDialogue }) => `
+Break down this story into individual comic panels with detailed descriptions.
+
+Story: "${story}"
+Characters: ${characterNames.join(", ")}
+Setting: ${setting.location}, ${setting.timePeriod}, ${setting.mood}
+Style: ${style}
+
+${LAYOUT_GUIDANCE[style]}
+
+Create 2-15 panels based on the story's complexity and pacing needs. Choose the optimal number of panels to tell this story effectively - simple stories may need fewer panels (2-6), while complex narratives may require more (8-12).
+
+${
+	noDialogue
+		? `IMPORTANT: This is NO DIALOGUE MODE - do not include any dialogue, speech bubbles, or spoken words. Focus purely on visual storytelling through actions, expressions, and scene composition.`
+		: ""
+}
+
+For each panel, describe:
+- Characters present
+- Action/scene description${noDialogue ? " (emphasize visual storytelling without dialogue)" : ""}${!noDialogue ? "\n- Dialogue (if any)" : ""}
+- Camera angle (close-up, medium shot, wide shot, etc.)
+- Visual mood/atmosphere
+- Panel aspect ratio, one of ${PANEL_ASPECT_RATIOS.join(", ")} (width:height). Match the shape to the shot: wide 16:9 or 21:9 panels for establishing shots and panoramas, tall 9:16 or 2:3 panels for dramatic vertical moments, falls and full-body reveals, 1:1 or 3:2 for dialogue and reactions
+
+Return as a flat array of panels with sequential panel numbers.
+`,
+		},
+		{
+			id: "story-breakdown",
+			version: 2,
+			description: "v1 with the story delimited as untrusted input",
+			render: ({ story, characterNames, setting, style, noDialogue }) => `
+Break down this story into individual comic panels with detailed descriptions.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Characters: ${characterNames.join(", ")}
+Setting: ${setting.location}, ${setting.timePeriod}, ${setting.mood}
+Style: ${style}
+
+${LAYOUT_GUIDANCE[style]}
+
+Create 2-15 panels based on the story's complexity and pacing needs. Choose the optimal number of panels to tell this story effectively - simple stories may need fewer panels (2-6), while complex narratives may require more (8-12).
+
+${
+	noDialogue
+		? `IMPORTANT: This is NO DIALOGUE MODE - do not include any dialogue, speech bubbles, or spoken words. Focus purely on visual storytelling through actions, expressions, and scene composition.`
+		: ""
+}
+
+For each panel, describe:
+- Characters present
+- Action/scene description${noDialogue ? " (emphasize visual storytelling without dialogue)" : ""}${!noDialogue ? "\n- Dialogue (if any)" : ""}
+- Camera angle (close-up, medium shot, wide shot, etc.)
+- Visual mood/atmosphere
+- Panel aspect ratio, one of ${PANEL_ASPECT_RATIOS.join(", ")} (width:height). Match the shape to the shot: wide 16:9 or 21:9 panels for establishing shots and panoramas, tall 9:16 or 2:3 panels for dramatic vertical moments, falls and full-body reveals, 1:1 or 3:2 for dialogue and reactions
+
+Return as a flat array of panels with sequential panel numbers.
+`,
+		},
+		{
+			id: "story-breakdown",
+			version: 3,
+			description: "v2 with each panel set in one of the story's locations",
+			render: ({
+				story,
+				characterNames,
+				setting,
+				locations,
+				style,
+				noDialogue,
+			}) => `
+Break down this story into individual comic panels with detailed descriptions.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Characters: ${characterNames.join(", ")}
+Setting: ${setting.location}, ${setting.timePeriod}, ${setting.mood}
+${
+	locations.length > 0
+		? `Locations (id: name - description):
+${locations.map((location) => `- ${location.id}: ${location.name} - ${location.description}`).join("\n")}`
+		: ""
+}
+Style: ${style}
+
+${LAYOUT_GUIDANCE[style]}
+
+Create 2-15 panels based on the story's complexity and pacing needs. Choose the optimal number of panels to tell this story effectively - simple stories may need fewer panels (2-6), while complex narratives may require more (8-12).
+
+${
+	noDialogue
+		? `IMPORTANT: This is NO DIALOGUE MODE - do not include any dialogue, speech bubbles, or spoken words. Focus purely on visual storytelling through actions, expressions, and scene composition.`
+		: ""
+}
+
+For each panel, describe:
+- Characters present
+- Action/scene description${noDialogue ? " (emphasize visual storytelling without dialogue)" : ""}${!noDialogue ? "\n- Dialogue (if any)" : ""}
+- Camera angle (close-up, medium shot, wide shot, etc.)
+- Visual mood/atmosphere
+- Panel aspect ratio, one of ${PANEL_ASPECT_RATIOS.join(", ")} (width:height). Match the shape to the shot: wide 16:9 or 21:9 panels for establishing shots and panoramas, tall 9:16 or 2:3 panels for dramatic vertical moments, falls and full-body reveals, 1:1 or 3:2 for dialogue and reactions${locations.length > 0 ? "\n- Location id: the id of the location the panel takes place in, exactly as listed above" : ""}
+
+Return as a flat array of panels with sequential panel numbers.
+`,
+		},
+		{
+			id: "story-breakdown",
+			version: 4,
+			description: "v3 with the key props shown in each panel",
+			render: ({
+				story,
+				characterNames,
+				setting,
+				locations,
+				props,
+				style,
+				noDialogue,
+			}) => `
+Break down this story into individual comic panels with detailed descriptions.
+
+${STORY_DELIMITER_NOTICE}
+
+${delimitUserText("story", story)}
+
+Characters: ${characterNames.join(", ")}
+Setting: ${setting.location}, ${setting.timePeriod}, ${setting.mood}
+${
+	locations.length > 0
+		? `Locations (id: name - description):
+${locations.map((location) => `- ${location.id}: ${location.name} - ${location.description}`).join("\n")}`
+		: ""
+}
+${props.length > 0 ? `Key props: ${props.map((prop) => prop.name).join(", ")}` : ""}
+Style: ${style}
+
+${LAYOUT_GUIDANCE[style]}
+
+Create 2-15 panels based on the story's complexity and pacing needs. Choose the optimal number of panels to tell this story effectively - simple stories may need fewer panels (2-6), while complex narratives may require more (8-12).
+
+${
+	noDialogue
+		? `IMPORTANT: This is NO DIALOGUE MODE - do not include any dialogue, speech bubbles, or spoken words. Focus purely on visual storytelling through actions, expressions, and scene composition.`
+		: ""
+}
+
+For each panel, describe:
+- Characters present
+- Action/scene description${noDialogue ? " (emphasize visual storytelling without dialogue)" : ""}${!noDialogue ? "\n- Dialogue (if any)" : ""}
+- Camera angle (close-up, medium shot, wide shot, etc.)
+- Visual mood/atmosphere
+- Panel aspect ratio, one of ${PANEL_ASPECT_RATIOS.join(", ")} (width:height). Match the shape to the shot: wide 16:9 or 21:9 panels for establishing shots and panoramas, tall 9:16 or 2:3 panels for dramatic vertical moments, falls and full-body reveals, 1:1 or 3:2 for dialogue and reactions${locations.length > 0 ? "\n- Location id: the id of the location the panel takes place in, exactly as listed above" : ""}${props.length > 0 ? "\n- Props: the key props visible in the panel, named exactly as listed above (an empty list if none)" : ""}
+
+Return as a flat array of panels with sequential panel numbers.
+`,
+		},
+	];
@@ -0,0 +1,11 @@
+/**
+ * A named prompt with typed variables. A new version is added (rather than
+ * editing an existing one) whenever the wording changes, so outputs can be
+ * traced back to the exact prompt and older versions can be pinned again.
+ */
+export interface PromptTemplate<TVariables> {
+	id: string;
+	version: number;
+	description: string;
+	render: (variables: TVariables) => string;
+}
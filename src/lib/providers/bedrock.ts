@@ -0,0 +1,107 @@
+import {
+	bedrockImageModelSupportsReferences,
+	callBedrockWithRetry,
+	getBedrockModel,
+	prepareImageForBedrock,
+} from "@/lib/bedrock-helper";
+import type { GenerationProvider, ProviderCapability } from "./types";
+
+export const bedrockProvider: GenerationProvider = {
+	id: "bedrock",
+	// Titan uses reference images for image variation and SD3 starts from the
+	// primary reference; other Stability models are text-to-image only, so
+	// reference images are dropped for them
+	get capabilities() {
+		return new Set<ProviderCapability>(
+			bedrockImageModelSupportsReferences()
+				? ["text", "multimodalText", "image", "imageWithReferences"]
+				: ["text", "multimodalText", "image"],
+		);
+	},
+	getModel: getBedrockModel,
+
+	generateText: async (request, { logger, context }) => {
+		const result = await callBedrockWithRetry(
+			request.images?.length
+				? {
+						messages: [
+							{
+								role: "user",
+								content: [
+									{ type: "text", text: request.prompt },
+									...request.images.map((image) => ({
+										type: "image",
+										image: prepareImageForBedrock(image),
+									})),
+								],
+							},
+						],
+						maxTokens: request.maxTokens || 4096,
+						temperature: request.temperature || 0.7,
+					}
+				: {
+						prompt: request.prompt,
+						maxTokens: request.maxTokens || 4096,
+						temperature: request.temperature || 0.7,
+					},
+			logger,
+			"text",
+			context,
+		);
+
+		if (!("text" in result)) {
+			throw new Error("Unexpected Bedrock response format for text generation");
+		}
+		return {
+			text: result.text,
+			usage: {
+				model: result.usage.modelId,
+				inputTokens: result.usage.inputTokens,
+				outputTokens: result.usage.outputTokens,
+				images: 0,
+			},
+		};
+	},
+
+	generateImage: async (request, { logger, context }) => {
+		const initImage =
+			request.primaryReference !== undefined
+				? request.referenceImages?.[request.primaryReference]
+				: undefined;
+		const result = await callBedrockWithRetry(
+			{
+				prompt: request.prompt,
+				...(request.shortPrompt ? { shortPrompt: request.shortPrompt } : {}),
+				...(request.referenceImages?.length
+					? { referenceImages: request.referenceImages }
+					: {}),
+				...(initImage ? { initImage } : {}),
+				...(request.seed !== undefined ? { seed: request.seed } : {}),
+				...(request.aspectRatio ? { aspectRatio: request.aspectRatio } : {}),
+			},
+			logger,
+			"image",
+			context,
+		);
+
+		if (!("image" in result)) {
+			throw new Error(
+				"Unexpected Bedrock response format for image generation",
+			);
+		}
+		return {
+			image: result.image,
+			seed: result.seed,
+			parameters: result.parameters,
+			...(result.prompt !== undefined && result.prompt !== request.prompt
+				? { prompt: result.prompt }
+				: {}),
+			usage: {
+				model: result.usage.modelId,
+				inputTokens: 0,
+				outputTokens: 0,
+				images: 1,
+			},
+		};
+	},
+};
@@ -0,0 +1,208 @@
+import type { ProviderId } from "./types";
+
+type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Provider operations tracked by separate circuits, since e.g. Gemini text and
+ * image generation use different models, keys and quotas
+ */
+export type CircuitOperation = "text" | "image";
+
+interface CallRecord {
+	success: boolean;
+	latencyMs: number;
+}
+
+export interface CircuitSnapshot {
+	state: CircuitState;
+	consecutiveFailures: number;
+	openedAt: number | null;
+	nextProbeAt: number | null;
+	totalCalls: number;
+	totalFailures: number;
+	lastError: string | null;
+	lastSuccessAt: number | null;
+	lastFailureAt: number | null;
+	recent: {
+		calls: number;
+		successRate: number | null;
+		averageLatencyMs: number | null;
+		p95LatencyMs: number | null;
+	};
+}
+
+const ROLLING_WINDOW_SIZE = 50;
+
+function readNumber(envVar: string, fallback: number): number {
+	const value = Number(process.env[envVar]);
+	return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Opens after a number of consecutive failures so callers skip the provider,
+ * then lets a single probe request through once the cooldown has passed
+ * (half-open). A successful probe closes the circuit, a failed one reopens it.
+ */
+class CircuitBreaker {
+	private state: CircuitState = "closed";
+	private consecutiveFailures = 0;
+	private openedAt: number | null = null;
+	private probeInFlight = false;
+	private history: CallRecord[] = [];
+	private totalCalls = 0;
+	private totalFailures = 0;
+	private lastError: string | null = null;
+	private lastSuccessAt: number | null = null;
+	private lastFailureAt: number | null = null;
+	private readonly failureThreshold: number;
+	private readonly cooldownMs: number;
+
+	constructor(failureThreshold: number, cooldownMs: number) {
+		this.failureThreshold = failureThreshold;
+		this.cooldownMs = cooldownMs;
+	}
+
+	/**
+	 * Whether a call may go to the provider right now.
+	 * Claims the half-open probe slot when the cooldown has expired.
+	 */
+	public tryAcquire(): boolean {
+		if (this.state === "open") {
+			if (Date.now() - (this.openedAt ?? 0) < this.cooldownMs) {
+				return false;
+			}
+			this.state = "half-open";
+			this.probeInFlight = false;
+		}
+
+		if (this.state === "half-open") {
+			if (this.probeInFlight) {
+				return false;
+			}
+			this.probeInFlight = true;
+		}
+
+		return true;
+	}
+
+	public recordSuccess(latencyMs: number): void {
+		this.record({ success: true, latencyMs });
+		this.lastSuccessAt = Date.now();
+		this.consecutiveFailures = 0;
+		this.state = "closed";
+		this.openedAt = null;
+		this.probeInFlight = false;
+	}
+
+	public recordFailure(latencyMs: number, error: unknown): void {
+		this.record({ success: false, latencyMs });
+		this.totalFailures++;
+		this.lastFailureAt = Date.now();
+		this.lastError = error instanceof Error ? error.message : String(error);
+		this.consecutiveFailures++;
+		this.probeInFlight = false;
+
+		if (
+			this.state === "half-open" ||
+			this.consecutiveFailures >= this.failureThreshold
+		) {
+			this.state = "open";
+			this.openedAt = Date.now();
+		}
+	}
+
+	/**
+	 * A failure that says nothing about the provider's health, such as a
+	 * rejected request or missing configuration. It is kept as the last error
+	 * but doesn't count towards opening the circuit.
+	 */
+	public recordIgnoredFailure(error: unknown): void {
+		this.lastError = error instanceof Error ? error.message : String(error);
+		this.probeInFlight = false;
+	}
+
+	public getState(): CircuitState {
+		return this.currentState();
+	}
+
+	public snapshot(): CircuitSnapshot {
+		const latencies = this.history
+			.map((call) => call.latencyMs)
+			.sort((a, b) => a - b);
+		const successes = this.history.filter((call) => call.success).length;
+
+		const state = this.currentState();
+
+		return {
+			state,
+			consecutiveFailures: this.consecutiveFailures,
+			openedAt: this.openedAt,
+			nextProbeAt:
+				state === "open" && this.openedAt !== null
+					? this.openedAt + this.cooldownMs
+					: null,
+			totalCalls: this.totalCalls,
+			totalFailures: this.totalFailures,
+			lastError: this.lastError,
+			lastSuccessAt: this.lastSuccessAt,
+			lastFailureAt: this.lastFailureAt,
+			recent: {
+				calls: this.history.length,
+				successRate:
+					this.history.length > 0 ? successes / this.history.length : null,
+				averageLatencyMs:
+					latencies.length > 0
+						? Math.round(
+								latencies.reduce((sum, latency) => sum + latency, 0) /
+									latencies.length,
+							)
+						: null,
+				p95LatencyMs:
+					latencies.length > 0
+						? (latencies[Math.ceil(latencies.length * 0.95) - 1] ?? null)
+						: null,
+			},
+		};
+	}
+
+	// An open circuit whose cooldown has passed accepts a probe, so it is
+	// reported as half-open before the next call claims the probe slot
+	private currentState(): CircuitState {
+		return this.state === "open" &&
+			Date.now() - (this.openedAt ?? 0) >= this.cooldownMs
+			? "half-open"
+			: this.state;
+	}
+
+	private record(call: CallRecord): void {
+		this.totalCalls++;
+		this.history.push(call);
+		if (this.history.length > ROLLING_WINDOW_SIZE) {
+			this.history.shift();
+		}
+	}
+}
+
+// Route handlers can be bundled separately, so the circuits live on globalThis
+// to be shared by every route in the server process
+const globalForCircuits = globalThis as typeof globalThis & {
+	providerCircuits?: Map<string, CircuitBreaker>;
+};
+globalForCircuits.providerCircuits ??= new Map();
+const circuits = globalForCircuits.providerCircuits;
+
+export function getCircuitBreaker(
+	providerId: ProviderId,
+	operation: CircuitOperation,
+): CircuitBreaker {
+	const key = `${providerId}:${operation}`;
+	let circuit = circuits.get(key);
+	if (!circuit) {
+		circuit = new CircuitBreaker(
+			readNumber("CIRCUIT_BREAKER_FAILURE_THRESHOLD", 5),
+			readNumber("CIRCUIT_BREAKER_COOLDOWN_MS", 30000),
+		);
+		circuits.set(key, circuit);
+	}
+	return circuit;
+}
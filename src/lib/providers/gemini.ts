@@ -0,0 +1,279 @@
+import { type GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import type { Logger } from "pino";
+import { getGoogleAiApiKey } from "@/lib/api-keys";
+import {
+	callGeminiWithRetry,
+	getGeminiModel,
+	streamGeminiWithRetry,
+} from "@/lib/gemini-helper";
+import { providerBlockedError } from "@/lib/moderation";
+import type { ContentSafetyCategory } from "@/types";
+import type {
+	GenerationProvider,
+	ProviderUsage,
+	TextGenerationRequest,
+} from "./types";
+
+/**
+ * Gemini clients are created lazily so that routes can be loaded without a
+ * Google AI key when Gemini is not part of the configured provider chain
+ */
+let textClient: GoogleGenAI | null = null;
+let imageClient: GoogleGenAI | null = null;
+
+function getGeminiClient(generationType: "text" | "image"): GoogleGenAI {
+	if (generationType === "text") {
+		if (!textClient) {
+			textClient = new GoogleGenAI({ apiKey: getGoogleAiApiKey(true) });
+		}
+		return textClient;
+	}
+	if (!imageClient) {
+		imageClient = new GoogleGenAI({ apiKey: getGoogleAiApiKey(false) });
+	}
+	return imageClient;
+}
+
+// Helper function to convert base64 to format expected by Gemini
+function prepareImageForGemini(base64Image: string) {
+	const mimeType =
+		base64Image.match(/^data:(image\/[^;]+);base64,/)?.[1] || "image/jpeg";
+	// Remove data:image/xxx;base64, prefix if present
+	const base64Data = base64Image.replace(/^data:image\/[^;]+;base64,/, "");
+	return {
+		inlineData: {
+			data: base64Data,
+			mimeType,
+		},
+	};
+}
+
+// Finish reasons that mean the response was withheld by a safety filter
+const SAFETY_FINISH_REASONS = new Set([
+	"SAFETY",
+	"PROHIBITED_CONTENT",
+	"BLOCKLIST",
+	"SPII",
+	"IMAGE_SAFETY",
+	"IMAGE_PROHIBITED_CONTENT",
+]);
+
+const HARM_CATEGORIES: Record<string, ContentSafetyCategory> = {
+	HARM_CATEGORY_SEXUALLY_EXPLICIT: "sexual",
+	HARM_CATEGORY_HATE_SPEECH: "hate",
+	HARM_CATEGORY_HARASSMENT: "harassment",
+	HARM_CATEGORY_DANGEROUS_CONTENT: "dangerous",
+};
+
+/**
+ * Throws a ContentBlockedError when the prompt or the response was blocked,
+ * naming the harm category Gemini rated as blocked where it reports one
+ */
+function checkSafetyBlock(
+	result: GenerateContentResponse | undefined,
+	logger: Logger,
+	context: Record<string, unknown>,
+): void {
+	const candidate = result?.candidates?.[0];
+	const blockReason = result?.promptFeedback?.blockReason;
+	const finishReason = candidate?.finishReason;
+	if (
+		!blockReason &&
+		!(finishReason && SAFETY_FINISH_REASONS.has(finishReason))
+	) {
+		return;
+	}
+
+	const ratings = [
+		...(candidate?.safetyRatings ?? []),
+		...(result?.promptFeedback?.safetyRatings ?? []),
+	];
+	const blockedCategory = ratings.find((rating) => rating.blocked)?.category;
+	const category =
+		(blockedCategory && HARM_CATEGORIES[blockedCategory]) || "unspecified";
+
+	logger.warn(
+		{
+			...context,
+			block_reason: blockReason,
+			finish_reason: finishReason,
+			category,
+		},
+		"Content blocked by safety filters",
+	);
+	throw providerBlockedError("gemini", category, result);
+}
+
+/**
+ * Reads token counts from a response; thinking tokens are billed as output
+ */
+function getUsage(
+	result: GenerateContentResponse | undefined,
+	generationType: "text" | "image",
+	images: number,
+): ProviderUsage {
+	const metadata = result?.usageMetadata;
+	return {
+		model: getGeminiModel(generationType),
+		inputTokens: metadata?.promptTokenCount || 0,
+		outputTokens:
+			(metadata?.candidatesTokenCount || 0) +
+			(metadata?.thoughtsTokenCount || 0),
+		images,
+	};
+}
+
+/**
+ * Builds the contents and config shared by streamed and non-streamed text calls
+ */
+function buildTextInput(request: TextGenerationRequest) {
+	const config: Record<string, unknown> = {};
+	if (request.thinkingBudget !== undefined) {
+		config["thinkingConfig"] = { thinkingBudget: request.thinkingBudget };
+	}
+	if (request.responseSchema) {
+		config["responseMimeType"] = "application/json";
+		config["responseSchema"] = request.responseSchema;
+	}
+
+	const contents = request.images?.length
+		? [
+				{ text: request.prompt },
+				...request.images.map((image) => prepareImageForGemini(image)),
+			]
+		: request.prompt;
+
+	return {
+		contents,
+		config: Object.keys(config).length > 0 ? config : undefined,
+	};
+}
+
+export const geminiProvider: GenerationProvider = {
+	id: "gemini",
+	capabilities: new Set([
+		"text",
+		"multimodalText",
+		"image",
+		"imageWithReferences",
+	]),
+	getModel: getGeminiModel,
+
+	generateText: async (request, { logger, context }) => {
+		const { contents, config } = buildTextInput(request);
+
+		return callGeminiWithRetry(
+			getGeminiClient("text"),
+			contents,
+			config,
+			(result) => {
+				checkSafetyBlock(result, logger, context);
+				logger.debug(
+					{
+						...context,
+						response_length: result.text?.length || 0,
+					},
+					"Received response from Gemini API",
+				);
+				return {
+					text: result.text || "",
+					usage: getUsage(result, "text", 0),
+				};
+			},
+			logger,
+			"text",
+			context,
+		);
+	},
+
+	streamText: async (request, { logger, context }, onText) => {
+		const { contents, config } = buildTextInput(request);
+
+		const { text, lastChunk } = await streamGeminiWithRetry(
+			getGeminiClient("text"),
+			contents,
+			config,
+			onText,
+			logger,
+			context,
+		);
+		checkSafetyBlock(lastChunk, logger, context);
+		return { text, usage: getUsage(lastChunk, "text", 0) };
+	},
+
+	generateImage: async (request, { logger, context }) => {
+		const inputParts: Array<
+			{ text: string } | { inlineData: { data: string; mimeType: string } }
+		> = [{ text: request.prompt }];
+
+		for (const image of request.referenceImages || []) {
+			inputParts.push(prepareImageForGemini(image));
+		}
+
+		const config: Record<string, unknown> = {};
+		if (request.seed !== undefined) {
+			config["seed"] = request.seed;
+		}
+		if (request.aspectRatio) {
+			config["imageConfig"] = { aspectRatio: request.aspectRatio };
+		}
+
+		return callGeminiWithRetry(
+			getGeminiClient("image"),
+			inputParts,
+			Object.keys(config).length > 0 ? config : undefined,
+			(result) => {
+				checkSafetyBlock(result, logger, context);
+
+				// Process the response following the official pattern
+				const candidate = result.candidates?.[0];
+
+				if (!candidate?.content?.parts) {
+					throw new Error("No content parts received", { cause: result });
+				}
+
+				for (const part of candidate.content.parts) {
+					if (part.text) {
+						logger.info(
+							{
+								...context,
+								text_response: part.text,
+								text_length: part.text.length,
+							},
+							"Received text response from model (full content)",
+						);
+					} else if (part.inlineData?.data) {
+						const imageData = part.inlineData.data;
+						const mimeType = part.inlineData.mimeType || "image/jpeg";
+
+						logger.debug(
+							{
+								...context,
+								mime_type: mimeType,
+								image_size_kb: Math.round((imageData.length * 0.75) / 1024),
+							},
+							"Received image from Gemini API",
+						);
+
+						return {
+							image: `data:${mimeType};base64,${imageData}`,
+							seed: request.seed ?? null,
+							parameters: request.aspectRatio
+								? { aspectRatio: request.aspectRatio }
+								: {},
+							usage: getUsage(result, "image", 1),
+						};
+					}
+				}
+
+				throw new Error("No image data received in response parts");
+			},
+			logger,
+			"image",
+			{
+				...context,
+				input_parts_count: inputParts.length,
+			},
+		);
+	},
+};
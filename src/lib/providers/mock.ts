@@ -0,0 +1,520 @@
+import { type Schema, Type } from "@google/genai";
+import { getImageDimensions } from "@/lib/aspect-ratio";
+import { createPlaceholderPng } from "@/lib/placeholder-image";
+import { escapeRegExp } from "@/lib/regexp";
+import type { PanelAspectRatio } from "@/types";
+import type {
+	GenerationProvider,
+	GenerationTask,
+	ProviderUsage,
+	TextGenerationRequest,
+} from "./types";
+
+/**
+ * Offline provider that derives deterministic analyses and breakdowns from the
+ * story text and returns labelled placeholder images. Enabled with MOCK_PROVIDERS=true.
+ */
+
+const NON_NAME_WORDS = new Set([
+	"A",
+	"After",
+	"All",
+	"An",
+	"And",
+	"As",
+	"At",
+	"Before",
+	"But",
+	"Finally",
+	"For",
+	"Good",
+	"He",
+	"Her",
+	"Hey",
+	"His",
+	"I",
+	"If",
+	"In",
+	"It",
+	"No",
+	"Not",
+	"Now",
+	"Of",
+	"On",
+	"One",
+	"Or",
+	"She",
+	"So",
+	"That",
+	"The",
+	"Their",
+	"Then",
+	"There",
+	"These",
+	"They",
+	"This",
+	"To",
+	"We",
+	"What",
+	"When",
+	"Where",
+	"Why",
+	"With",
+	"Yes",
+	"You",
+]);
+
+const AGES = [
+	"teenager",
+	"young adult",
+	"adult in their thirties",
+	"middle-aged adult",
+];
+const BUILDS = ["slender", "athletic", "stocky", "tall", "petite"];
+const HAIR = [
+	"short black hair",
+	"long auburn hair",
+	"messy brown hair",
+	"silver hair tied back",
+	"curly red hair",
+];
+const CLOTHING = [
+	"a worn denim jacket",
+	"a neat school uniform",
+	"a grey hoodie",
+	"a long trench coat",
+	"a simple sundress",
+];
+const PERSONALITIES = [
+	"Determined and quick-witted",
+	"Calm, observant and dry-humored",
+	"Energetic and impulsive",
+	"Cautious but fiercely loyal",
+	"Warm, curious and talkative",
+];
+
+const LOCATIONS: Array<{
+	pattern: RegExp;
+	id: string;
+	name: string;
+	description: string;
+}> = [
+	{
+		pattern: /\b(cafe|café|coffee)/i,
+		id: "cafe",
+		name: "A cozy café",
+		description: "Small tables, a long wooden counter and warm pendant lights",
+	},
+	{
+		pattern: /\b(school|class|teacher)\b/i,
+		id: "school",
+		name: "A school",
+		description: "Rows of desks, a chalkboard and tall windows onto a yard",
+	},
+	{
+		pattern: /\b(forest|woods|trees?)\b/i,
+		id: "forest",
+		name: "A forest",
+		description:
+			"Tall pines, a mossy floor and light slanting through branches",
+	},
+	{
+		pattern: /\b(office|desk|meeting|whiteboard)\b/i,
+		id: "office",
+		name: "An office",
+		description: "Open-plan desks, monitors and a glass-walled meeting room",
+	},
+	{
+		pattern: /\b(city|street|rooftop)\b/i,
+		id: "city-street",
+		name: "A city street",
+		description:
+			"Narrow street of brick buildings, neon signs and water towers",
+	},
+	{
+		pattern: /\b(home|kitchen|house|bedroom)\b/i,
+		id: "home",
+		name: "A family home",
+		description: "Lived-in rooms with worn furniture and family photos",
+	},
+	{
+		pattern: /\b(sea|ocean|beach|ship)\b/i,
+		id: "seaside",
+		name: "The seaside",
+		description: "A pebble beach, a wooden pier and grey waves",
+	},
+];
+
+const PROPS: Array<{ pattern: RegExp; name: string; description: string }> = [
+	{
+		pattern: /\bswords?\b/i,
+		name: "sword",
+		description: "A long straight blade with a worn leather grip",
+	},
+	{
+		pattern: /\bumbrellas?\b/i,
+		name: "umbrella",
+		description: "A bright red umbrella with a curved wooden handle",
+	},
+	{
+		pattern: /\bletters?\b/i,
+		name: "letter",
+		description: "A folded cream envelope sealed with red wax",
+	},
+	{
+		pattern: /\bkeys?\b/i,
+		name: "key",
+		description: "An old brass key with a ring-shaped bow",
+	},
+	{
+		pattern: /\bnecklace\b/i,
+		name: "necklace",
+		description: "A thin silver chain with a round blue pendant",
+	},
+	{
+		pattern: /\bmaps?\b/i,
+		name: "map",
+		description: "A creased paper map with hand-drawn red markings",
+	},
+];
+
+const CAMERA_ANGLES = [
+	"medium shot",
+	"close-up",
+	"medium shot",
+	"over-the-shoulder shot",
+];
+
+const ASPECT_RATIOS_BY_CAMERA_ANGLE: Record<string, PanelAspectRatio> = {
+	"wide shot": "16:9",
+	"close-up": "2:3",
+};
+
+function hashString(text: string): number {
+	let hash = 0;
+	for (const char of text) {
+		hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+	}
+	return hash;
+}
+
+function pick<T>(items: T[], seed: number): T {
+	return items[seed % items.length] as T;
+}
+
+function detectMood(text: string): string {
+	if (/\b(dark|fear|scream|blood|alone|panic)\b/i.test(text)) return "Tense";
+	if (/\b(laugh|smile|happy|grin|joke)\b/i.test(text)) return "Lighthearted";
+	if (/\b(hurry|fast|run|rush|timer)\b/i.test(text)) return "Urgent";
+	return "Reflective";
+}
+
+function extractCharacterNames(story: string): string[] {
+	const counts = new Map<string, number>();
+	for (const match of story.matchAll(/\b[A-Z][a-z]+(?:['’]s)?\b/g)) {
+		const name = match[0].replace(/['’]s$/, "");
+		if (NON_NAME_WORDS.has(name)) continue;
+		counts.set(name, (counts.get(name) || 0) + 1);
+	}
+
+	const names = [...counts.entries()]
+		.filter(([, count]) => count >= 2)
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, 4)
+		.map(([name]) => name);
+
+	return names.length > 0 ? names : ["Protagonist"];
+}
+
+/**
+ * Returns the story's first line if it reads like a title (short, no closing punctuation)
+ */
+function findTitleLine(story: string): string | undefined {
+	const firstLine = story.trim().split("\n")[0]?.trim() || "";
+	const wordCount = firstLine.split(/\s+/).filter(Boolean).length;
+	return wordCount > 0 && wordCount <= 8 && !/[.!?"”]$/.test(firstLine)
+		? firstLine
+		: undefined;
+}
+
+function extractTitle(story: string, characterNames: string[]): string {
+	return findTitleLine(story) || `The Story of ${characterNames[0]}`;
+}
+
+function analyzeStory(story: string) {
+	const characterNames = extractCharacterNames(story);
+	const locations = LOCATIONS.filter(({ pattern }) => pattern.test(story));
+
+	return {
+		title: extractTitle(story, characterNames),
+		characters: characterNames.map((name, index) => {
+			const seed = hashString(name);
+			return {
+				name,
+				physicalDescription: `${pick(AGES, seed)}, ${pick(BUILDS, seed >>> 3)} build, ${pick(HAIR, seed >>> 6)}, wearing ${pick(CLOTHING, seed >>> 9)}`,
+				personality: pick(PERSONALITIES, seed >>> 12),
+				role: index === 0 ? "Protagonist" : "Supporting character",
+			};
+		}),
+		setting: {
+			timePeriod: /\b(castle|sword|king|knight)\b/i.test(story)
+				? "Medieval era"
+				: /\b(spaceship|robot|planet|android)\b/i.test(story)
+					? "Distant future"
+					: "Present day",
+			location: locations[0]?.name || "A small town",
+			mood: detectMood(story),
+		},
+		props: PROPS.filter(({ pattern }) => pattern.test(story)).map(
+			({ name, description }) => ({ name, description }),
+		),
+		locations:
+			locations.length > 0
+				? locations.map(({ id, name, description }) => ({
+						id,
+						name,
+						description,
+					}))
+				: [
+						{
+							id: "town",
+							name: "A small town",
+							description: "A quiet main street with low shops and a square",
+						},
+					],
+	};
+}
+
+/**
+ * Picks the location a passage mentions, or keeps the previous one the way a
+ * scene stays put until the story moves on
+ */
+function findLocationId(
+	text: string,
+	locationIds: string[],
+	previous: string | undefined,
+): string | undefined {
+	const mentioned = LOCATIONS.find(
+		({ pattern, id }) => locationIds.includes(id) && pattern.test(text),
+	);
+	return mentioned?.id ?? previous ?? locationIds[0];
+}
+
+function splitIntoBeats(story: string): string[] {
+	const titleLine = findTitleLine(story);
+	const body = titleLine
+		? story.trim().slice(titleLine.length).trim() || story
+		: story;
+	const sentences = body
+		.split(/\n+|(?<=[.!?…]["”]?)\s+/)
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+
+	if (sentences.length >= 2) {
+		return sentences;
+	}
+
+	// Single sentence: split it in half so there are at least two panels
+	const words = body.trim().split(/\s+/);
+	const middle = Math.ceil(words.length / 2);
+	return [words.slice(0, middle).join(" "), words.slice(middle).join(" ")];
+}
+
+function breakDownStory(
+	story: string,
+	characterNames: string[],
+	locationIds: string[],
+	propNames: string[],
+	noDialogue: boolean,
+) {
+	const beats = splitIntoBeats(story);
+	const panelCount = Math.min(15, Math.max(2, Math.ceil(beats.length / 2)));
+	const beatsPerPanel = beats.length / panelCount;
+	let locationId: string | undefined;
+
+	const panels = Array.from({ length: panelCount }, (_, index) => {
+		const text = beats
+			.slice(
+				Math.round(index * beatsPerPanel),
+				Math.round((index + 1) * beatsPerPanel),
+			)
+			.join(" ");
+		const dialogue = text.match(/[“"]([^”"]+)[”"]/)?.[1];
+		const sceneDescription = text.replace(/[“"][^”"]*[”"]/g, "").trim();
+		const isBookend = index === 0 || index === panelCount - 1;
+		const cameraAngle = isBookend ? "wide shot" : pick(CAMERA_ANGLES, index);
+		locationId = findLocationId(text, locationIds, locationId);
+
+		return {
+			panelNumber: index + 1,
+			characters: characterNames.filter((name) =>
+				new RegExp(
+					`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`,
+					"u",
+				).test(text),
+			),
+			sceneDescription: (sceneDescription || text).slice(0, 240),
+			...(!noDialogue && dialogue ? { dialogue } : {}),
+			cameraAngle,
+			visualMood: detectMood(text),
+			aspectRatio: ASPECT_RATIOS_BY_CAMERA_ANGLE[cameraAngle] || "1:1",
+			...(locationId ? { locationId } : {}),
+			...(propNames.length > 0
+				? {
+						props: propNames.filter((name) =>
+							PROPS.some(
+								(prop) => prop.name === name && prop.pattern.test(text),
+							),
+						),
+					}
+				: {}),
+		};
+	});
+
+	return { panels };
+}
+
+// Directs panels taken from a screenplay the way breakDownStory directs its own
+function directPanels(sceneDescriptions: string[], locationIds: string[]) {
+	let locationId: string | undefined;
+	return {
+		panels: sceneDescriptions.map((text, index) => {
+			const isBookend = index === 0 || index === sceneDescriptions.length - 1;
+			locationId = findLocationId(text, locationIds, locationId);
+			return {
+				panelNumber: index + 1,
+				cameraAngle: isBookend ? "wide shot" : pick(CAMERA_ANGLES, index),
+				visualMood: detectMood(text),
+				...(locationId ? { locationId } : {}),
+			};
+		}),
+	};
+}
+
+/**
+ * Builds a minimal value matching a response schema, for tasks the mock
+ * provider has no specific knowledge of
+ */
+function synthesizeFromSchema(schema: Schema): unknown {
+	switch (schema.type) {
+		case Type.OBJECT:
+			return Object.fromEntries(
+				Object.entries(schema.properties || {}).map(([key, property]) => [
+					key,
+					synthesizeFromSchema(property),
+				]),
+			);
+		case Type.ARRAY:
+			return schema.items ? [synthesizeFromSchema(schema.items)] : [];
+		case Type.NUMBER:
+		case Type.INTEGER:
+			return 1;
+		case Type.BOOLEAN:
+			return false;
+		default:
+			return schema.enum?.[0] ?? "mock";
+	}
+}
+
+function placeholderLabel(task: GenerationTask | undefined): string[] {
+	switch (task?.kind) {
+		case "character-reference":
+			return ["Character", task.characterName];
+		case "prop-reference":
+			return ["Prop", task.propName];
+		case "panel":
+			return [`Panel ${task.panelNumber}`, task.sceneDescription];
+		default:
+			return ["Mock image"];
+	}
+}
+
+function mockText(request: TextGenerationRequest): string {
+	switch (request.task?.kind) {
+		case "story-analysis":
+			return JSON.stringify(analyzeStory(request.task.story));
+		case "story-breakdown":
+			return JSON.stringify(
+				breakDownStory(
+					request.task.story,
+					request.task.characterNames,
+					request.task.locationIds,
+					request.task.propNames,
+					request.task.noDialogue,
+				),
+			);
+		case "panel-direction":
+			return JSON.stringify(
+				directPanels(request.task.sceneDescriptions, request.task.locationIds),
+			);
+		default:
+			return request.responseSchema
+				? JSON.stringify(synthesizeFromSchema(request.responseSchema))
+				: "Mock response";
+	}
+}
+
+// Streamed responses are cut into small delayed chunks so offline runs show
+// the same progressive output as a real model
+const MOCK_STREAM_CHUNK_LENGTH = 48;
+const MOCK_STREAM_DELAY_MS = 25;
+
+function mockUsage(images: number): ProviderUsage {
+	return { model: "mock", inputTokens: 0, outputTokens: 0, images };
+}
+
+export const mockProvider: GenerationProvider = {
+	id: "mock",
+	capabilities: new Set([
+		"text",
+		"multimodalText",
+		"image",
+		"imageWithReferences",
+	]),
+	getModel: () => "mock",
+
+	generateText: async (request, { logger, context }) => {
+		logger.debug(
+			{ ...context, task: request.task?.kind },
+			"Generating mock text response",
+		);
+
+		return { text: mockText(request), usage: mockUsage(0) };
+	},
+
+	streamText: async (request, { logger, context }, onText) => {
+		logger.debug(
+			{ ...context, task: request.task?.kind },
+			"Streaming mock text response",
+		);
+
+		const text = mockText(request);
+		for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK_LENGTH) {
+			await new Promise((resolve) => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+			onText(text.slice(i, i + MOCK_STREAM_CHUNK_LENGTH));
+		}
+		return { text, usage: mockUsage(0) };
+	},
+
+	generateImage: async (request, { logger, context }) => {
+		logger.debug(
+			{ ...context, task: request.task?.kind },
+			"Generating mock placeholder image",
+		);
+
+		const size = request.aspectRatio
+			? getImageDimensions(request.aspectRatio, 512)
+			: { width: 512, height: 512 };
+
+		return {
+			image: createPlaceholderPng(
+				placeholderLabel(request.task),
+				size.width,
+				size.height,
+			),
+			seed: request.seed ?? null,
+			parameters: size,
+			usage: mockUsage(1),
+		};
+	},
+};
@@ -0,0 +1,336 @@
+import { type Schema, Type } from "@google/genai";
+import {
+	getOpenAiCompatibleApiKey,
+	getOpenAiCompatibleBaseUrl,
+	getOpenAiCompatibleModel,
+} from "@/lib/api-keys";
+import { recoverJSON } from "@/lib/json-parser";
+import type { GenerationProvider, TextGenerationRequest } from "./types";
+
+/**
+ * Text provider for any server speaking the OpenAI chat completions protocol
+ * (OpenAI, Ollama, vLLM, llama.cpp server, LM Studio, ...).
+ * Structured output is requested via `response_format: json_schema`, converted
+ * from the same Gemini `responseSchema` the routes already declare.
+ */
+
+const REQUEST_TIMEOUT_MS = 300_000; // Local models can be slow on long stories
+const RETRY_DELAY_MS = 1500;
+
+type JsonSchema = Record<string, unknown>;
+
+interface ChatCompletionResponse {
+	choices?: Array<{
+		message?: { content?: string | null; refusal?: string | null };
+		finish_reason?: string;
+	}>;
+	usage?: { prompt_tokens?: number; completion_tokens?: number };
+	error?: { message?: string };
+}
+
+class OpenAiCompatibleError extends Error {
+	readonly status: number | undefined;
+
+	constructor(message: string, status?: number) {
+		super(message);
+		this.name = "OpenAiCompatibleError";
+		this.status = status;
+	}
+}
+
+const JSON_SCHEMA_TYPES: Partial<Record<Type, string>> = {
+	[Type.STRING]: "string",
+	[Type.NUMBER]: "number",
+	[Type.INTEGER]: "integer",
+	[Type.BOOLEAN]: "boolean",
+	[Type.ARRAY]: "array",
+	[Type.OBJECT]: "object",
+	[Type.NULL]: "null",
+};
+
+/**
+ * Converts a Gemini response schema into standard JSON Schema
+ */
+function toJsonSchema(schema: Schema): JsonSchema {
+	const jsonSchema: JsonSchema = {};
+	const type = schema.type ? JSON_SCHEMA_TYPES[schema.type] : undefined;
+
+	if (type) {
+		jsonSchema["type"] = schema.nullable ? [type, "null"] : type;
+	}
+	if (schema.description) jsonSchema["description"] = schema.description;
+	if (schema.enum) jsonSchema["enum"] = schema.enum;
+	if (schema.minimum !== undefined) jsonSchema["minimum"] = schema.minimum;
+	if (schema.maximum !== undefined) jsonSchema["maximum"] = schema.maximum;
+	if (schema.minItems !== undefined) {
+		jsonSchema["minItems"] = Number(schema.minItems);
+	}
+	if (schema.maxItems !== undefined) {
+		jsonSchema["maxItems"] = Number(schema.maxItems);
+	}
+	if (schema.items) jsonSchema["items"] = toJsonSchema(schema.items);
+	if (schema.anyOf) jsonSchema["anyOf"] = schema.anyOf.map(toJsonSchema);
+
+	if (schema.properties) {
+		jsonSchema["properties"] = Object.fromEntries(
+			Object.entries(schema.properties).map(([key, property]) => [
+				key,
+				toJsonSchema(property),
+			]),
+		);
+		jsonSchema["required"] = schema.required || [];
+		jsonSchema["additionalProperties"] = false;
+	}
+
+	return jsonSchema;
+}
+
+/**
+ * Whether every object in the schema marks all of its properties as required,
+ * which OpenAI's strict structured output mode demands
+ */
+function isStrictCompatible(schema: Schema): boolean {
+	if (schema.properties) {
+		const required = new Set(schema.required || []);
+		for (const [key, property] of Object.entries(schema.properties)) {
+			if (!required.has(key) || !isStrictCompatible(property)) return false;
+		}
+	}
+	if (schema.items && !isStrictCompatible(schema.items)) return false;
+	return (schema.anyOf || []).every(isStrictCompatible);
+}
+
+/**
+ * Checks a parsed response against the Gemini schema, returning the first
+ * violation found. Servers that ignore `response_format` are caught here
+ * so the registry can fall back to another provider.
+ */
+function findSchemaViolation(
+	value: unknown,
+	schema: Schema,
+	path = "$",
+): string | null {
+	if (value === null) {
+		return schema.nullable ? null : `${path} must not be null`;
+	}
+	if (schema.anyOf?.length) {
+		const matches = schema.anyOf.some(
+			(option) => findSchemaViolation(value, option, path) === null,
+		);
+		return matches ? null : `${path} does not match any allowed schema`;
+	}
+
+	switch (schema.type) {
+		case Type.STRING:
+			if (typeof value !== "string") return `${path} must be a string`;
+			if (schema.enum && !schema.enum.includes(value)) {
+				return `${path} must be one of ${schema.enum.join(", ")}`;
+			}
+			return null;
+		case Type.NUMBER:
+			return typeof value === "number" ? null : `${path} must be a number`;
+		case Type.INTEGER:
+			return Number.isInteger(value) ? null : `${path} must be an integer`;
+		case Type.BOOLEAN:
+			return typeof value === "boolean" ? null : `${path} must be a boolean`;
+		case Type.ARRAY: {
+			if (!Array.isArray(value)) return `${path} must be an array`;
+			for (const [index, item] of value.entries()) {
+				const violation = schema.items
+					? findSchemaViolation(item, schema.items, `${path}[${index}]`)
+					: null;
+				if (violation) return violation;
+			}
+			return null;
+		}
+		case Type.OBJECT: {
+			if (typeof value !== "object" || Array.isArray(value)) {
+				return `${path} must be an object`;
+			}
+			const record = value as Record<string, unknown>;
+			for (const key of schema.required || []) {
+				if (!(key in record)) return `${path}.${key} is required`;
+			}
+			for (const [key, property] of Object.entries(schema.properties || {})) {
+				if (record[key] === undefined) continue;
+				const violation = findSchemaViolation(
+					record[key],
+					property,
+					`${path}.${key}`,
+				);
+				if (violation) return violation;
+			}
+			return null;
+		}
+		default:
+			return null;
+	}
+}
+
+function buildRequestBody(request: TextGenerationRequest, model: string) {
+	const content = request.images?.length
+		? [
+				{ type: "text", text: request.prompt },
+				...request.images.map((image) => ({
+					type: "image_url",
+					image_url: { url: image },
+				})),
+			]
+		: request.prompt;
+
+	const body: Record<string, unknown> = {
+		model,
+		messages: [{ role: "user", content }],
+		stream: false,
+	};
+	if (request.maxTokens !== undefined) body["max_tokens"] = request.maxTokens;
+	if (request.temperature !== undefined) {
+		body["temperature"] = request.temperature;
+	}
+	if (request.responseSchema) {
+		body["response_format"] = {
+			type: "json_schema",
+			json_schema: {
+				name: "response",
+				schema: toJsonSchema(request.responseSchema),
+				strict: isStrictCompatible(request.responseSchema),
+			},
+		};
+	}
+	return body;
+}
+
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof OpenAiCompatibleError) {
+		return (
+			error.status === undefined || error.status === 429 || error.status >= 500
+		);
+	}
+	// fetch() rejects with a TypeError on network failures, and with a
+	// TimeoutError once AbortSignal.timeout fires
+	return (
+		error instanceof TypeError ||
+		(error instanceof Error && error.name === "TimeoutError")
+	);
+}
+
+async function requestCompletion(body: Record<string, unknown>): Promise<{
+	text: string;
+	inputTokens: number;
+	outputTokens: number;
+}> {
+	const headers: Record<string, string> = {
+		"Content-Type": "application/json",
+	};
+	const apiKey = getOpenAiCompatibleApiKey();
+	if (apiKey) {
+		headers["Authorization"] = `Bearer ${apiKey}`;
+	}
+
+	const response = await fetch(
+		`${getOpenAiCompatibleBaseUrl()}/chat/completions`,
+		{
+			method: "POST",
+			headers,
+			body: JSON.stringify(body),
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		},
+	);
+
+	const data = (await response
+		.json()
+		.catch(() => ({}))) as ChatCompletionResponse;
+
+	if (!response.ok) {
+		throw new OpenAiCompatibleError(
+			`OpenAI-compatible server returned ${response.status}: ${data.error?.message || response.statusText}`,
+			response.status,
+		);
+	}
+
+	const choice = data.choices?.[0];
+	if (choice?.message?.refusal) {
+		throw new OpenAiCompatibleError(
+			`Model refused the request: ${choice.message.refusal}`,
+			400,
+		);
+	}
+	if (!choice?.message?.content) {
+		throw new OpenAiCompatibleError("No content received in completion");
+	}
+	return {
+		text: choice.message.content,
+		inputTokens: data.usage?.prompt_tokens || 0,
+		outputTokens: data.usage?.completion_tokens || 0,
+	};
+}
+
+export const openAiCompatibleProvider: GenerationProvider = {
+	id: "openai",
+	capabilities: new Set(["text", "multimodalText"]),
+	getModel: getOpenAiCompatibleModel,
+
+	generateText: async (request, { logger, context }) => {
+		const startTime = Date.now();
+		const model = getOpenAiCompatibleModel();
+		const body = buildRequestBody(request, model);
+
+		let completion: Awaited<ReturnType<typeof requestCompletion>>;
+		try {
+			logger.debug(
+				{ ...context, model, attempt: 1 },
+				"Calling OpenAI-compatible API",
+			);
+			completion = await requestCompletion(body);
+		} catch (error) {
+			if (!isRetryableError(error)) {
+				throw error;
+			}
+			logger.warn(
+				{
+					...context,
+					model,
+					error_message:
+						error instanceof Error ? error.message : "Unknown error",
+					duration_ms: Date.now() - startTime,
+				},
+				"First attempt failed with transient error, retrying once",
+			);
+			await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+			completion = await requestCompletion(body);
+		}
+		const { text, inputTokens, outputTokens } = completion;
+
+		logger.debug(
+			{
+				...context,
+				model,
+				response_length: text.length,
+				duration_ms: Date.now() - startTime,
+			},
+			"Received response from OpenAI-compatible API",
+		);
+
+		if (request.responseSchema) {
+			let parsed: unknown;
+			try {
+				parsed = recoverJSON<unknown>(text).value;
+			} catch {
+				throw new OpenAiCompatibleError(
+					"Response is not valid JSON despite a response schema being set",
+				);
+			}
+			const violation = findSchemaViolation(parsed, request.responseSchema);
+			if (violation) {
+				throw new OpenAiCompatibleError(
+					`Response does not match the response schema: ${violation}`,
+				);
+			}
+		}
+
+		return {
+			text,
+			usage: { model, inputTokens, outputTokens, images: 0 },
+		};
+	},
+};
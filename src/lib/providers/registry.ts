@@ -0,0 +1,619 @@
+import type { Logger } from "pino";
+import { ContentBlockedError } from "@/lib/moderation";
+import { estimateCost } from "@/lib/pricing";
+import { EMPTY_USAGE } from "@/lib/usage";
+import { bedrockProvider } from "./bedrock";
+import {
+	type CircuitOperation,
+	type CircuitSnapshot,
+	getCircuitBreaker,
+} from "./circuit-breaker";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openAiCompatibleProvider } from "./openai-compatible";
+import { getCacheKey, getResponseCache } from "./response-cache";
+import { stableDiffusionProvider } from "./stable-diffusion";
+import type {
+	ApiResponse,
+	GeneratedImage,
+	GenerationProvider,
+	ImageGenerationRequest,
+	ProviderCapability,
+	ProviderId,
+	ProviderUsage,
+	TextGenerationRequest,
+} from "./types";
+
+/**
+ * Default fallback order when no chain is configured
+ */
+const DEFAULT_PROVIDER_CHAIN: ProviderId[] = ["gemini", "bedrock"];
+
+/**
+ * Largest seed accepted by every image backend (Titan's limit)
+ */
+const MAX_IMAGE_SEED = 2147483646;
+
+/**
+ * Messages of transient failures from errors without an HTTP status
+ */
+const TRANSIENT_ERROR_PATTERN =
+	/timeout|timed out|network|fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|throttl|rate limit|too many requests|unavailable|overloaded|internal error|no content parts received/i;
+
+const providers = new Map<ProviderId, GenerationProvider>();
+
+function registerProvider(provider: GenerationProvider): void {
+	providers.set(provider.id, provider);
+}
+
+registerProvider(geminiProvider);
+registerProvider(bedrockProvider);
+registerProvider(openAiCompatibleProvider);
+registerProvider(stableDiffusionProvider);
+registerProvider(mockProvider);
+
+/**
+ * Reads a comma-separated provider chain from the environment,
+ * e.g. TEXT_PROVIDER_CHAIN="gemini,bedrock".
+ * MOCK_PROVIDERS=true replaces every chain with the offline mock provider.
+ */
+function readConfiguredChain(envVar: string): ProviderId[] {
+	if (process.env["MOCK_PROVIDERS"] === "true") {
+		return ["mock"];
+	}
+
+	const configured = process.env[envVar];
+	if (!configured?.trim()) {
+		return DEFAULT_PROVIDER_CHAIN;
+	}
+	return configured
+		.split(",")
+		.map((id) => id.trim())
+		.filter((id) => id.length > 0);
+}
+
+/**
+ * Resolves the ordered list of providers able to serve a capability.
+ * Image providers without reference support are kept for reference requests
+ * so they can act as a degraded fallback.
+ */
+function getProviderChain(
+	capability: ProviderCapability,
+	logger: Logger,
+): GenerationProvider[] {
+	const envVar =
+		capability === "text" || capability === "multimodalText"
+			? "TEXT_PROVIDER_CHAIN"
+			: "IMAGE_PROVIDER_CHAIN";
+
+	const chain: GenerationProvider[] = [];
+	for (const id of readConfiguredChain(envVar)) {
+		const provider = providers.get(id);
+		if (!provider) {
+			logger.warn({ provider: id, env_var: envVar }, "Unknown provider id");
+			continue;
+		}
+		const supported =
+			provider.capabilities.has(capability) ||
+			(capability === "imageWithReferences" &&
+				provider.capabilities.has("image"));
+		if (supported) {
+			chain.push(provider);
+		}
+	}
+
+	if (chain.length === 0) {
+		throw new Error(`No provider configured for ${capability} generation`);
+	}
+	return chain;
+}
+
+/**
+ * Per-call options for the generate functions
+ */
+interface GenerationOptions {
+	// Skips cached responses; the fresh response still replaces the cached one
+	bypassCache?: boolean;
+	// Index of the image when several candidates are generated from the same
+	// request, so that each candidate is cached separately
+	candidate?: number;
+}
+
+/**
+ * Options for text generation
+ */
+interface TextGenerationOptions extends GenerationOptions {
+	// Only responses it accepts are cached, so output the caller rejects
+	// (e.g. JSON that fails validation) isn't replayed to the next request
+	cacheIf?: (text: string) => boolean;
+}
+
+/**
+ * What callWithFallback needs to look up and store cached responses
+ */
+interface CacheLookup<T> {
+	request: ImageGenerationRequest | TextGenerationRequest;
+	bypass: boolean;
+	candidate?: number;
+	cacheIf?: (result: T) => boolean;
+}
+
+/**
+ * A cached response, or undefined when there is none or it can't be read
+ * (an unreadable entry is treated as a miss rather than failing the call)
+ */
+async function readCachedResponse<T>(
+	cache: NonNullable<ReturnType<typeof getResponseCache>>,
+	cacheKey: string,
+	logger: Logger,
+	context: Record<string, unknown>,
+): Promise<{ result: T; model: string } | undefined> {
+	try {
+		const cached = await cache.get(cacheKey);
+		return cached === undefined
+			? undefined
+			: (JSON.parse(cached) as { result: T; model: string });
+	} catch (error) {
+		logger.warn(
+			{
+				...context,
+				cache_key: cacheKey,
+				error_message: error instanceof Error ? error.message : "Unknown error",
+			},
+			"Failed to read cached response",
+		);
+		return undefined;
+	}
+}
+
+function getOperation(capability: ProviderCapability): CircuitOperation {
+	return capability === "text" || capability === "multimodalText"
+		? "text"
+		: "image";
+}
+
+/**
+ * Whether a failed call says the provider is unhealthy: a server error, rate
+ * limit, timeout or network failure. Rejected requests (other 4xx), invalid
+ * output and missing configuration are about the call, not the provider.
+ */
+function isCircuitFailure(error: unknown): boolean {
+	if (!(error instanceof Error)) {
+		return false;
+	}
+
+	// Provider errors carry the HTTP status as status (fetch-based providers
+	// and @google/genai) or $metadata.httpStatusCode (AWS SDK)
+	const { status, $metadata } = error as {
+		status?: unknown;
+		$metadata?: { httpStatusCode?: unknown };
+	};
+	const httpStatus =
+		typeof status === "number" ? status : $metadata?.httpStatusCode;
+	if (typeof httpStatus === "number") {
+		return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+	}
+
+	// fetch() rejects with a TypeError on network failures
+	return (
+		error instanceof TypeError ||
+		error.name === "TimeoutError" ||
+		TRANSIENT_ERROR_PATTERN.test(error.message)
+	);
+}
+
+/**
+ * Calls each provider in the chain in order until one succeeds.
+ * A cached response for the provider is returned instead of calling it, and
+ * providers whose circuit is open are skipped. Only failures that say the
+ * provider is unhealthy count towards opening its circuit.
+ * Throws the first provider's error if every provider fails, or a
+ * ContentBlockedError as soon as a provider refuses the content.
+ */
+async function callWithFallback<T>(
+	capability: ProviderCapability,
+	logger: Logger,
+	context: Record<string, unknown>,
+	call: (
+		provider: GenerationProvider,
+	) => Promise<{ result: T; usage: ProviderUsage }>,
+	cacheLookup?: CacheLookup<T>,
+): Promise<ApiResponse<T>> {
+	const startTime = Date.now();
+	const operation = getOperation(capability);
+	const chain = getProviderChain(capability, logger);
+	const cache = cacheLookup ? getResponseCache() : null;
+	let previousProvider: ProviderId | undefined;
+	let firstError: unknown;
+
+	for (const provider of chain) {
+		let cacheKey: string | undefined;
+		if (cache && cacheLookup) {
+			// The key names the provider's model, which a provider that isn't
+			// configured can't resolve; it is skipped as if it had failed
+			try {
+				cacheKey = getCacheKey({
+					provider: provider.id,
+					model: provider.getModel(operation),
+					request: cacheLookup.request,
+					...(cacheLookup.candidate
+						? { candidate: cacheLookup.candidate }
+						: {}),
+				});
+			} catch (error) {
+				firstError ??= error;
+				previousProvider = provider.id;
+				logger.error(
+					{
+						...context,
+						provider: provider.id,
+						error_message:
+							error instanceof Error ? error.message : "Unknown error",
+					},
+					`Skipping ${provider.id}, its model can't be resolved`,
+				);
+				continue;
+			}
+		}
+
+		if (cache && cacheKey && !cacheLookup?.bypass) {
+			const cached = await readCachedResponse<T>(cache, cacheKey, logger, {
+				...context,
+				provider: provider.id,
+			});
+			if (cached) {
+				logger.info(
+					{
+						...context,
+						provider: provider.id,
+						model: cached.model,
+						cache_key: cacheKey,
+					},
+					`Serving cached ${provider.id} response`,
+				);
+				return {
+					result: cached.result,
+					source: provider.id,
+					model: cached.model,
+					usage: EMPTY_USAGE,
+					cached: true,
+				};
+			}
+		}
+
+		const circuit = getCircuitBreaker(provider.id, operation);
+		if (!circuit.tryAcquire()) {
+			logger.warn(
+				{ ...context, provider: provider.id, operation },
+				`Skipping ${provider.id}, circuit is open`,
+			);
+			continue;
+		}
+
+		if (previousProvider) {
+			logger.warn(
+				{
+					...context,
+					provider: provider.id,
+					previous_provider: previousProvider,
+					duration_ms: Date.now() - startTime,
+				},
+				`Attempting ${provider.id} fallback`,
+			);
+		}
+
+		const callStartTime = Date.now();
+		try {
+			const { result, usage } = await call(provider);
+			circuit.recordSuccess(Date.now() - callStartTime);
+			const estimatedCostUsd = estimateCost(usage.model, usage);
+			logger.debug(
+				{
+					...context,
+					provider: provider.id,
+					model: usage.model,
+					input_tokens: usage.inputTokens,
+					output_tokens: usage.outputTokens,
+					images: usage.images,
+					estimated_cost_usd: estimatedCostUsd,
+				},
+				"Recorded generation usage",
+			);
+			if (previousProvider) {
+				logger.info(
+					{
+						...context,
+						provider: provider.id,
+						duration_ms: Date.now() - startTime,
+					},
+					`${provider.id} fallback successful`,
+				);
+			}
+			if (cache && cacheKey && (cacheLookup?.cacheIf?.(result) ?? true)) {
+				try {
+					await cache.set(
+						cacheKey,
+						JSON.stringify({ result, model: usage.model }),
+					);
+				} catch (error) {
+					logger.warn(
+						{
+							...context,
+							provider: provider.id,
+							error_message:
+								error instanceof Error ? error.message : "Unknown error",
+						},
+						"Failed to cache response",
+					);
+				}
+			}
+			return {
+				result,
+				source: provider.id,
+				model: usage.model,
+				usage: {
+					inputTokens: usage.inputTokens,
+					outputTokens: usage.outputTokens,
+					images: usage.images,
+					estimatedCostUsd,
+				},
+				cached: false,
+			};
+		} catch (error) {
+			firstError ??= error;
+			previousProvider = provider.id;
+			logger.error(
+				{
+					...context,
+					provider: provider.id,
+					error_message:
+						error instanceof Error ? error.message : "Unknown error",
+					duration_ms: Date.now() - startTime,
+				},
+				`${provider.id} failed`,
+			);
+
+			// Safety blocks are about the content, not the provider's health, so
+			// they neither open the circuit nor get sent to the next provider
+			if (error instanceof ContentBlockedError) {
+				circuit.recordSuccess(Date.now() - callStartTime);
+				throw error;
+			}
+			if (!isCircuitFailure(error)) {
+				circuit.recordIgnoredFailure(error);
+				continue;
+			}
+			const wasOpen = circuit.getState() === "open";
+			circuit.recordFailure(Date.now() - callStartTime, error);
+			if (!wasOpen && circuit.getState() === "open") {
+				logger.error(
+					{
+						...context,
+						provider: provider.id,
+						operation,
+						consecutive_failures: circuit.snapshot().consecutiveFailures,
+					},
+					`Circuit opened for ${provider.id} ${operation} generation`,
+				);
+			}
+		}
+	}
+
+	if (!previousProvider) {
+		throw new Error(
+			`All providers for ${capability} generation are temporarily unavailable`,
+		);
+	}
+
+	logger.error(
+		{
+			...context,
+			providers: chain.map((provider) => provider.id),
+			duration_ms: Date.now() - startTime,
+		},
+		"All providers failed",
+	);
+	throw firstError;
+}
+
+/**
+ * Generates text (optionally from text + images) using the configured text provider chain
+ */
+export async function generateText(
+	request: TextGenerationRequest,
+	logger: Logger,
+	context: Record<string, unknown> = {},
+	options: TextGenerationOptions = {},
+): Promise<ApiResponse<string>> {
+	const capability: ProviderCapability = request.images?.length
+		? "multimodalText"
+		: "text";
+
+	return callWithFallback(
+		capability,
+		logger,
+		context,
+		async (provider) => {
+			if (!provider.generateText) {
+				throw new Error(`Provider ${provider.id} does not support text`);
+			}
+			const { text, usage } = await provider.generateText(request, {
+				logger,
+				context,
+			});
+			return { result: text, usage };
+		},
+		{
+			request,
+			bypass: !!options.bypassCache,
+			...(options.cacheIf ? { cacheIf: options.cacheIf } : {}),
+		},
+	);
+}
+
+/**
+ * Callbacks for streamed text generation
+ */
+interface TextStreamHandlers {
+	onText: (delta: string) => void;
+	// Called before a fallback provider starts over after the previous one
+	// had already streamed part of its response
+	onRestart: () => void;
+}
+
+/**
+ * Generates text like generateText, forwarding the response as it is produced
+ */
+export async function streamText(
+	request: TextGenerationRequest,
+	logger: Logger,
+	context: Record<string, unknown>,
+	handlers: TextStreamHandlers,
+	options: TextGenerationOptions = {},
+): Promise<ApiResponse<string>> {
+	const capability: ProviderCapability = request.images?.length
+		? "multimodalText"
+		: "text";
+	let hasStreamed = false;
+	const onText = (delta: string) => {
+		hasStreamed = true;
+		handlers.onText(delta);
+	};
+
+	const response = await callWithFallback(
+		capability,
+		logger,
+		context,
+		async (provider) => {
+			if (hasStreamed) {
+				hasStreamed = false;
+				handlers.onRestart();
+			}
+
+			if (provider.streamText) {
+				const { text, usage } = await provider.streamText(
+					request,
+					{ logger, context },
+					onText,
+				);
+				return { result: text, usage };
+			}
+			if (!provider.generateText) {
+				throw new Error(`Provider ${provider.id} does not support text`);
+			}
+			const { text, usage } = await provider.generateText(request, {
+				logger,
+				context,
+			});
+			onText(text);
+			return { result: text, usage };
+		},
+		{
+			request,
+			bypass: !!options.bypassCache,
+			...(options.cacheIf ? { cacheIf: options.cacheIf } : {}),
+		},
+	);
+
+	// Cached responses are delivered as a single chunk
+	if (response.cached) {
+		if (hasStreamed) {
+			handlers.onRestart();
+		}
+		handlers.onText(response.result);
+	}
+	return response;
+}
+
+/**
+ * Generates an image (optionally guided by reference images) using the configured image provider chain.
+ * A random seed is chosen when none is given, so every image can be reproduced.
+ */
+export async function generateImage(
+	imageRequest: ImageGenerationRequest,
+	logger: Logger,
+	context: Record<string, unknown> = {},
+	options: GenerationOptions = {},
+): Promise<ApiResponse<GeneratedImage>> {
+	const request: ImageGenerationRequest = {
+		...imageRequest,
+		seed: imageRequest.seed ?? Math.floor(Math.random() * MAX_IMAGE_SEED),
+	};
+	const capability: ProviderCapability = request.referenceImages?.length
+		? "imageWithReferences"
+		: "image";
+
+	// Keyed by the request as given: without a requested seed, a repeat request
+	// is served the cached image along with the seed it was generated with
+	return callWithFallback(
+		capability,
+		logger,
+		context,
+		async (provider) => {
+			if (!provider.generateImage) {
+				throw new Error(`Provider ${provider.id} does not support images`);
+			}
+			if (
+				capability === "imageWithReferences" &&
+				!provider.capabilities.has("imageWithReferences")
+			) {
+				logger.warn(
+					{
+						...context,
+						provider: provider.id,
+						reference_images: request.referenceImages?.length,
+					},
+					"Provider does not support reference images, generating from prompt only",
+				);
+				const { usage, ...result } = await provider.generateImage(
+					{ ...request, referenceImages: [] },
+					{ logger, context },
+				);
+				return { result, usage };
+			}
+			const { usage, ...result } = await provider.generateImage(request, {
+				logger,
+				context,
+			});
+			return { result, usage };
+		},
+		{
+			request: imageRequest,
+			bypass: !!options.bypassCache,
+			...(options.candidate !== undefined
+				? { candidate: options.candidate }
+				: {}),
+		},
+	);
+}
+
+/**
+ * Health of every registered provider: configured chains and circuit state
+ * with rolling success/latency stats per operation
+ */
+export function getProviderHealth() {
+	const chains = {
+		text: readConfiguredChain("TEXT_PROVIDER_CHAIN"),
+		image: readConfiguredChain("IMAGE_PROVIDER_CHAIN"),
+	};
+
+	return {
+		chains,
+		providers: [...providers.values()].map((provider) => {
+			const circuits: Partial<Record<CircuitOperation, CircuitSnapshot>> = {};
+			if (provider.generateText) {
+				circuits.text = getCircuitBreaker(provider.id, "text").snapshot();
+			}
+			if (provider.generateImage) {
+				circuits.image = getCircuitBreaker(provider.id, "image").snapshot();
+			}
+			return {
+				id: provider.id,
+				capabilities: [...provider.capabilities],
+				inTextChain: chains.text.includes(provider.id),
+				inImageChain: chains.image.includes(provider.id),
+				circuits,
+			};
+		}),
+	};
+}
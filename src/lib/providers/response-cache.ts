@@ -0,0 +1,135 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Storage for cached model responses, keyed by a content hash
+ */
+interface ResponseCacheBackend {
+	get(key: string): Promise<string | undefined>;
+	set(key: string, value: string): Promise<void>;
+}
+
+const DEFAULT_MEMORY_LIMIT_MB = 256;
+const DEFAULT_CACHE_DIR = ".cache/responses";
+
+function readNumber(envVar: string, fallback: number): number {
+	const value = Number(process.env[envVar]);
+	return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Least-recently-used cache bounded by the total size of its values,
+ * since a cached image is thousands of times larger than a cached analysis
+ */
+class MemoryCache implements ResponseCacheBackend {
+	private entries = new Map<string, string>();
+	private size = 0;
+	private readonly maxSize: number;
+
+	constructor(maxSize: number) {
+		this.maxSize = maxSize;
+	}
+
+	async get(key: string): Promise<string | undefined> {
+		const value = this.entries.get(key);
+		if (value !== undefined) {
+			// Map iteration follows insertion order, so re-inserting marks it as recent
+			this.entries.delete(key);
+			this.entries.set(key, value);
+		}
+		return value;
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		if (value.length > this.maxSize) return;
+
+		const existing = this.entries.get(key);
+		if (existing !== undefined) {
+			this.entries.delete(key);
+			this.size -= existing.length;
+		}
+		this.entries.set(key, value);
+		this.size += value.length;
+
+		for (const [oldestKey, oldestValue] of this.entries) {
+			if (this.size <= this.maxSize) break;
+			this.entries.delete(oldestKey);
+			this.size -= oldestValue.length;
+		}
+	}
+}
+
+/**
+ * One JSON file per response, so the cache survives restarts and can be
+ * shared between server processes. Clear it by deleting the directory.
+ */
+class FilesystemCache implements ResponseCacheBackend {
+	private readonly directory: string;
+
+	constructor(directory: string) {
+		this.directory = directory;
+	}
+
+	async get(key: string): Promise<string | undefined> {
+		try {
+			return await readFile(this.filePath(key), "utf8");
+		} catch {
+			return undefined;
+		}
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+		// Write then rename, so concurrent readers never see a partial file
+		const tempPath = `${this.filePath(key)}.${process.pid}.tmp`;
+		await writeFile(tempPath, value, "utf8");
+		await rename(tempPath, this.filePath(key));
+	}
+
+	private filePath(key: string): string {
+		return path.join(this.directory, `${key}.json`);
+	}
+}
+
+function createBackend(): ResponseCacheBackend | null {
+	switch (process.env["RESPONSE_CACHE"]) {
+		case "memory":
+			return new MemoryCache(
+				readNumber("RESPONSE_CACHE_MAX_MB", DEFAULT_MEMORY_LIMIT_MB) *
+					1024 *
+					1024,
+			);
+		case "filesystem":
+			return new FilesystemCache(
+				path.resolve(process.env["RESPONSE_CACHE_DIR"] || DEFAULT_CACHE_DIR),
+			);
+		default:
+			return null;
+	}
+}
+
+// Route handlers can be bundled separately, so the cache lives on globalThis
+// to be shared by every route in the server process
+const globalForCache = globalThis as typeof globalThis & {
+	responseCache?: ResponseCacheBackend | null;
+};
+
+/**
+ * The configured cache backend (RESPONSE_CACHE=memory|filesystem),
+ * or null when caching is off
+ */
+export function getResponseCache(): ResponseCacheBackend | null {
+	if (globalForCache.responseCache === undefined) {
+		globalForCache.responseCache = createBackend();
+	}
+	return globalForCache.responseCache;
+}
+
+/**
+ * Hashes everything that determines a response: provider, model and the
+ * full request (prompt, reference images, schema, seed and other parameters)
+ */
+export function getCacheKey(parts: Record<string, unknown>): string {
+	return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
@@ -0,0 +1,579 @@
+import { readFile } from "node:fs/promises";
+import type { Logger } from "pino";
+import { getImageDimensions } from "@/lib/aspect-ratio";
+import type { GenerationProvider, ImageGenerationRequest } from "./types";
+
+/**
+ * Image provider for a self-hosted Stable Diffusion server, speaking either the
+ * Automatic1111 (and Forge) web UI API or the ComfyUI API.
+ *
+ * Reference images are applied with IP-Adapter when an adapter model is
+ * configured (Automatic1111 ControlNet extension, or a custom ComfyUI
+ * workflow), and otherwise as the init image of an img2img pass.
+ */
+
+const REQUEST_TIMEOUT_MS = 300_000;
+const RETRY_DELAY_MS = 2000;
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+const MAX_IP_ADAPTER_UNITS = 3; // ControlNet's default unit limit
+
+const DEFAULT_NEGATIVE_PROMPT =
+	"lowres, blurry, jpeg artifacts, deformed, bad anatomy, extra limbs, watermark, signature";
+
+interface StableDiffusionConfig {
+	api: "automatic1111" | "comfyui";
+	baseUrl: string;
+	model: string | undefined;
+	width: number;
+	height: number;
+	steps: number;
+	cfgScale: number;
+	sampler: string;
+	negativePrompt: string;
+	denoisingStrength: number;
+	ipAdapterModel: string | undefined;
+	ipAdapterModule: string;
+	ipAdapterWeight: number;
+	comfyWorkflowPath: string | undefined;
+}
+
+class StableDiffusionError extends Error {
+	readonly status: number | undefined;
+
+	constructor(message: string, status?: number) {
+		super(message);
+		this.name = "StableDiffusionError";
+		this.status = status;
+	}
+}
+
+function readNumber(envVar: string, fallback: number): number {
+	const value = Number(process.env[envVar]);
+	return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function readConfig(): StableDiffusionConfig {
+	const api =
+		process.env["STABLE_DIFFUSION_API"] === "comfyui"
+			? "comfyui"
+			: "automatic1111";
+
+	return {
+		api,
+		baseUrl: (
+			process.env["STABLE_DIFFUSION_URL"] ||
+			(api === "comfyui" ? "http://127.0.0.1:8188" : "http://127.0.0.1:7860")
+		).replace(/\/+$/, ""),
+		model: process.env["STABLE_DIFFUSION_MODEL"] || undefined,
+		width: readNumber("STABLE_DIFFUSION_WIDTH", 1024),
+		height: readNumber("STABLE_DIFFUSION_HEIGHT", 1024),
+		steps: readNumber("STABLE_DIFFUSION_STEPS", 30),
+		cfgScale: readNumber("STABLE_DIFFUSION_CFG_SCALE", 7),
+		sampler: process.env["STABLE_DIFFUSION_SAMPLER"] || "euler",
+		negativePrompt:
+			process.env["STABLE_DIFFUSION_NEGATIVE_PROMPT"] ||
+			DEFAULT_NEGATIVE_PROMPT,
+		denoisingStrength: readNumber("STABLE_DIFFUSION_DENOISING_STRENGTH", 0.75),
+		ipAdapterModel:
+			process.env["STABLE_DIFFUSION_IP_ADAPTER_MODEL"] || undefined,
+		ipAdapterModule:
+			process.env["STABLE_DIFFUSION_IP_ADAPTER_MODULE"] || "ip-adapter_clip_h",
+		ipAdapterWeight: readNumber("STABLE_DIFFUSION_IP_ADAPTER_WEIGHT", 0.7),
+		comfyWorkflowPath:
+			process.env["STABLE_DIFFUSION_COMFYUI_WORKFLOW"] || undefined,
+	};
+}
+
+function stripDataUrlPrefix(image: string): string {
+	return image.replace(/^data:image\/[^;]+;base64,/, "");
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+	const response = await fetch(url, {
+		...init,
+		signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		const detail = await response.text().catch(() => "");
+		throw new StableDiffusionError(
+			`Stable Diffusion server returned ${response.status}: ${detail.slice(0, 500) || response.statusText}`,
+			response.status,
+		);
+	}
+	return (await response.json()) as T;
+}
+
+function postJson<T>(url: string, body: unknown): Promise<T> {
+	return fetchJson<T>(url, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+/**
+ * The reference used as the img2img init image: the one most relevant to the
+ * image (e.g. the panel's lead character), if the request names one
+ */
+function getInitImage(request: ImageGenerationRequest): string | undefined {
+	return request.primaryReference !== undefined
+		? request.referenceImages?.[request.primaryReference]
+		: undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Automatic1111 / Forge
+// ---------------------------------------------------------------------------
+
+async function generateWithAutomatic1111(
+	request: ImageGenerationRequest,
+	config: StableDiffusionConfig,
+	logger: Logger,
+	context: Record<string, unknown>,
+): Promise<string> {
+	const references = request.referenceImages || [];
+	const initImage = getInitImage(request);
+	const body: Record<string, unknown> = {
+		prompt: request.prompt,
+		negative_prompt: config.negativePrompt,
+		width: config.width,
+		height: config.height,
+		steps: config.steps,
+		cfg_scale: config.cfgScale,
+		sampler_name: config.sampler,
+		seed: request.seed ?? -1,
+		batch_size: 1,
+		n_iter: 1,
+	};
+	if (config.model) {
+		body["override_settings"] = { sd_model_checkpoint: config.model };
+	}
+
+	let endpoint = "/sdapi/v1/txt2img";
+	if (references.length > 0 && config.ipAdapterModel) {
+		const units = references.slice(0, MAX_IP_ADAPTER_UNITS);
+		logger.debug(
+			{ ...context, reference_images: units.length },
+			"Applying reference images with IP-Adapter",
+		);
+		body["alwayson_scripts"] = {
+			controlnet: {
+				args: units.map((image) => ({
+					enabled: true,
+					image: stripDataUrlPrefix(image),
+					module: config.ipAdapterModule,
+					model: config.ipAdapterModel,
+					weight: config.ipAdapterWeight / units.length,
+					pixel_perfect: true,
+				})),
+			},
+		};
+	} else if (initImage) {
+		logger.debug(
+			{
+				...context,
+				reference_images: references.length,
+				primary_reference: request.primaryReference,
+			},
+			"Using primary reference image as img2img init image",
+		);
+		endpoint = "/sdapi/v1/img2img";
+		body["init_images"] = [stripDataUrlPrefix(initImage)];
+		body["denoising_strength"] = config.denoisingStrength;
+		body["resize_mode"] = 1; // crop and resize to the target size
+	}
+
+	const result = await postJson<{ images?: string[] }>(
+		`${config.baseUrl}${endpoint}`,
+		body,
+	);
+	const image = result.images?.[0];
+	if (!image) {
+		throw new StableDiffusionError("No image data received from Automatic1111");
+	}
+	return `data:image/png;base64,${stripDataUrlPrefix(image)}`;
+}
+
+// ---------------------------------------------------------------------------
+// ComfyUI
+// ---------------------------------------------------------------------------
+
+type ComfyWorkflow = Record<
+	string,
+	{ class_type: string; inputs: Record<string, unknown> }
+>;
+
+interface ComfyImageRef {
+	filename: string;
+	subfolder: string;
+	type: string;
+}
+
+interface ComfyHistoryEntry {
+	status?: { status_str?: string; completed?: boolean };
+	outputs?: Record<string, { images?: ComfyImageRef[] }>;
+}
+
+/**
+ * Built-in workflow: text-to-image, or img2img from the primary reference
+ * image
+ */
+function buildDefaultWorkflow(
+	request: ImageGenerationRequest,
+	config: StableDiffusionConfig,
+	seed: number,
+	referenceNames: string[],
+): ComfyWorkflow {
+	if (!config.model) {
+		throw new StableDiffusionError(
+			"STABLE_DIFFUSION_MODEL must name a checkpoint when using ComfyUI",
+		);
+	}
+
+	const workflow: ComfyWorkflow = {
+		checkpoint: {
+			class_type: "CheckpointLoaderSimple",
+			inputs: { ckpt_name: config.model },
+		},
+		positive: {
+			class_type: "CLIPTextEncode",
+			inputs: { text: request.prompt, clip: ["checkpoint", 1] },
+		},
+		negative: {
+			class_type: "CLIPTextEncode",
+			inputs: { text: config.negativePrompt, clip: ["checkpoint", 1] },
+		},
+		latent: {
+			class_type: "EmptyLatentImage",
+			inputs: { width: config.width, height: config.height, batch_size: 1 },
+		},
+		sampler: {
+			class_type: "KSampler",
+			inputs: {
+				seed,
+				steps: config.steps,
+				cfg: config.cfgScale,
+				sampler_name: config.sampler,
+				scheduler: "normal",
+				denoise: 1,
+				model: ["checkpoint", 0],
+				positive: ["positive", 0],
+				negative: ["negative", 0],
+				latent_image: ["latent", 0],
+			},
+		},
+		decode: {
+			class_type: "VAEDecode",
+			inputs: { samples: ["sampler", 0], vae: ["checkpoint", 2] },
+		},
+		save: {
+			class_type: "SaveImage",
+			inputs: { filename_prefix: "story-to-manga", images: ["decode", 0] },
+		},
+	};
+
+	const initImage = referenceNames[0];
+	if (initImage) {
+		workflow["reference"] = {
+			class_type: "LoadImage",
+			inputs: { image: initImage },
+		};
+		workflow["reference_scaled"] = {
+			class_type: "ImageScale",
+			inputs: {
+				image: ["reference", 0],
+				upscale_method: "bicubic",
+				width: config.width,
+				height: config.height,
+				crop: "center",
+			},
+		};
+		workflow["reference_latent"] = {
+			class_type: "VAEEncode",
+			inputs: { pixels: ["reference_scaled", 0], vae: ["checkpoint", 2] },
+		};
+		const sampler = workflow["sampler"];
+		if (sampler) {
+			sampler.inputs["latent_image"] = ["reference_latent", 0];
+			sampler.inputs["denoise"] = config.denoisingStrength;
+		}
+	}
+
+	return workflow;
+}
+
+/**
+ * Loads a user-supplied workflow (exported with "Save (API Format)") and fills
+ * in placeholder strings: $PROMPT, $NEGATIVE_PROMPT, $SEED, $WIDTH, $HEIGHT and
+ * $REFERENCE_IMAGE_1..n (uploaded file names; $REFERENCE_IMAGE is the first).
+ * This is how IP-Adapter workflows from custom nodes are used with ComfyUI.
+ */
+async function loadCustomWorkflow(
+	path: string,
+	request: ImageGenerationRequest,
+	config: StableDiffusionConfig,
+	seed: number,
+	referenceNames: string[],
+): Promise<ComfyWorkflow> {
+	const replacements: Record<string, unknown> = {
+		$PROMPT: request.prompt,
+		$NEGATIVE_PROMPT: config.negativePrompt,
+		$SEED: seed,
+		$WIDTH: config.width,
+		$HEIGHT: config.height,
+		$REFERENCE_IMAGE: referenceNames[0],
+	};
+	for (const [index, name] of referenceNames.entries()) {
+		replacements[`$REFERENCE_IMAGE_${index + 1}`] = name;
+	}
+
+	const fill = (value: unknown): unknown => {
+		if (typeof value === "string" && value in replacements) {
+			const replacement = replacements[value];
+			if (replacement === undefined) {
+				throw new StableDiffusionError(
+					`ComfyUI workflow needs ${value} but not enough reference images were provided`,
+				);
+			}
+			return replacement;
+		}
+		if (Array.isArray(value)) return value.map(fill);
+		if (value && typeof value === "object") {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, entry]) => [key, fill(entry)]),
+			);
+		}
+		return value;
+	};
+
+	return fill(JSON.parse(await readFile(path, "utf8"))) as ComfyWorkflow;
+}
+
+async function uploadComfyImage(
+	baseUrl: string,
+	image: string,
+	index: number,
+): Promise<string> {
+	const mimeType =
+		image.match(/^data:(image\/[^;]+);base64,/)?.[1] || "image/png";
+	const extension = mimeType.split("/")[1] || "png";
+	const form = new FormData();
+	form.append(
+		"image",
+		new Blob([Buffer.from(stripDataUrlPrefix(image), "base64")], {
+			type: mimeType,
+		}),
+		`story-to-manga-ref-${Date.now()}-${index}.${extension}`,
+	);
+	form.append("overwrite", "true");
+
+	const uploaded = await fetchJson<{ name: string; subfolder?: string }>(
+		`${baseUrl}/upload/image`,
+		{ method: "POST", body: form },
+	);
+	return uploaded.subfolder
+		? `${uploaded.subfolder}/${uploaded.name}`
+		: uploaded.name;
+}
+
+async function waitForComfyImage(
+	baseUrl: string,
+	promptId: string,
+): Promise<ComfyImageRef> {
+	const deadline = Date.now() + REQUEST_TIMEOUT_MS;
+
+	while (Date.now() < deadline) {
+		const history = await fetchJson<Record<string, ComfyHistoryEntry>>(
+			`${baseUrl}/history/${promptId}`,
+		);
+		const entry = history[promptId];
+
+		if (entry?.status?.status_str === "error") {
+			throw new StableDiffusionError("ComfyUI workflow execution failed");
+		}
+		if (entry?.outputs) {
+			for (const output of Object.values(entry.outputs)) {
+				const image = output.images?.find((ref) => ref.type === "output");
+				if (image) return image;
+			}
+			if (entry.status?.completed) {
+				throw new StableDiffusionError(
+					"ComfyUI workflow finished without an output image",
+				);
+			}
+		}
+
+		await new Promise((resolve) =>
+			setTimeout(resolve, COMFYUI_POLL_INTERVAL_MS),
+		);
+	}
+
+	throw new StableDiffusionError("Timed out waiting for ComfyUI image");
+}
+
+async function generateWithComfyUI(
+	request: ImageGenerationRequest,
+	config: StableDiffusionConfig,
+	logger: Logger,
+	context: Record<string, unknown>,
+): Promise<string> {
+	// The built-in workflow only uses the primary reference as its init image
+	const initImage = getInitImage(request);
+	const references = config.comfyWorkflowPath
+		? request.referenceImages || []
+		: initImage
+			? [initImage]
+			: [];
+	const referenceNames = await Promise.all(
+		references.map((image, index) =>
+			uploadComfyImage(config.baseUrl, image, index),
+		),
+	);
+	const seed = request.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+	const workflow = config.comfyWorkflowPath
+		? await loadCustomWorkflow(
+				config.comfyWorkflowPath,
+				request,
+				config,
+				seed,
+				referenceNames,
+			)
+		: buildDefaultWorkflow(request, config, seed, referenceNames);
+
+	const queued = await postJson<{ prompt_id: string }>(
+		`${config.baseUrl}/prompt`,
+		{ prompt: workflow },
+	);
+	logger.debug(
+		{
+			...context,
+			prompt_id: queued.prompt_id,
+			reference_images: referenceNames.length,
+			custom_workflow: !!config.comfyWorkflowPath,
+		},
+		"Queued ComfyUI workflow",
+	);
+
+	const imageRef = await waitForComfyImage(config.baseUrl, queued.prompt_id);
+	const params = new URLSearchParams({
+		filename: imageRef.filename,
+		subfolder: imageRef.subfolder,
+		type: imageRef.type,
+	});
+	const response = await fetch(`${config.baseUrl}/view?${params}`, {
+		signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new StableDiffusionError(
+			`Failed to download ComfyUI image: ${response.status}`,
+			response.status,
+		);
+	}
+
+	const mimeType = response.headers.get("content-type") || "image/png";
+	const data = Buffer.from(await response.arrayBuffer()).toString("base64");
+	return `data:${mimeType};base64,${data}`;
+}
+
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof StableDiffusionError) {
+		return error.status !== undefined && error.status >= 500;
+	}
+	// fetch() rejects with a TypeError on network failures, and with a
+	// TimeoutError once AbortSignal.timeout fires
+	return (
+		error instanceof TypeError ||
+		(error instanceof Error && error.name === "TimeoutError")
+	);
+}
+
+export const stableDiffusionProvider: GenerationProvider = {
+	id: "stable-diffusion",
+	capabilities: new Set(["image", "imageWithReferences"]),
+	getModel: () => {
+		const config = readConfig();
+		return config.model || `stable-diffusion-${config.api}`;
+	},
+
+	generateImage: async (request, { logger, context }) => {
+		const startTime = Date.now();
+		// Panels keep the configured pixel area, reshaped to their aspect ratio
+		const baseConfig = readConfig();
+		const config = request.aspectRatio
+			? {
+					...baseConfig,
+					...getImageDimensions(
+						request.aspectRatio,
+						Math.sqrt(baseConfig.width * baseConfig.height),
+					),
+				}
+			: baseConfig;
+		const generate =
+			config.api === "comfyui"
+				? generateWithComfyUI
+				: generateWithAutomatic1111;
+
+		logger.debug(
+			{
+				...context,
+				api: config.api,
+				base_url: config.baseUrl,
+				model: config.model,
+				reference_images: request.referenceImages?.length || 0,
+			},
+			"Calling Stable Diffusion API",
+		);
+
+		let image: string;
+		try {
+			image = await generate(request, config, logger, context);
+		} catch (error) {
+			if (!isRetryableError(error)) {
+				throw error;
+			}
+			logger.warn(
+				{
+					...context,
+					api: config.api,
+					error_message:
+						error instanceof Error ? error.message : "Unknown error",
+					duration_ms: Date.now() - startTime,
+				},
+				"First attempt failed with transient error, retrying once",
+			);
+			await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+			image = await generate(request, config, logger, context);
+		}
+
+		logger.debug(
+			{
+				...context,
+				api: config.api,
+				image_size_kb: Math.round((image.length * 0.75) / 1024),
+				duration_ms: Date.now() - startTime,
+			},
+			"Received image from Stable Diffusion API",
+		);
+
+		return {
+			image,
+			seed: request.seed ?? null,
+			parameters: {
+				api: config.api,
+				width: config.width,
+				height: config.height,
+				steps: config.steps,
+				cfgScale: config.cfgScale,
+				sampler: config.sampler,
+				negativePrompt: config.negativePrompt,
+			},
+			usage: {
+				model: config.model || `stable-diffusion-${config.api}`,
+				inputTokens: 0,
+				outputTokens: 0,
+				images: 1,
+			},
+		};
+	},
+};
@@ -0,0 +1,144 @@
+import type { Schema } from "@google/genai";
+import type { Logger } from "pino";
+import type { GenerationUsage, PanelAspectRatio } from "@/types";
+
+/**
+ * Identifier of a registered provider (e.g. "gemini", "bedrock")
+ */
+export type ProviderId = string;
+
+/**
+ * Operations a provider can perform
+ */
+export type ProviderCapability =
+	| "text"
+	| "multimodalText"
+	| "image"
+	| "imageWithReferences";
+
+/**
+ * Response from a provider call with source information
+ */
+export interface ApiResponse<T = string> {
+	result: T;
+	source: ProviderId;
+	model: string;
+	usage: GenerationUsage;
+	cached: boolean; // served from the response cache, at no cost
+}
+
+/**
+ * Token and image counts reported by a single provider call
+ */
+export interface ProviderUsage {
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	images: number;
+}
+
+/**
+ * Describes what a call is for, so offline providers can synthesize output
+ * without having to interpret the prompt
+ */
+export type GenerationTask =
+	| { kind: "story-analysis"; story: string }
+	| {
+			kind: "story-breakdown";
+			story: string;
+			characterNames: string[];
+			locationIds: string[];
+			propNames: string[];
+			noDialogue: boolean;
+	  }
+	| {
+			kind: "panel-direction";
+			sceneDescriptions: string[];
+			locationIds: string[];
+	  }
+	| { kind: "character-reference"; characterName: string }
+	| { kind: "prop-reference"; propName: string }
+	| { kind: "panel"; panelNumber: number; sceneDescription: string };
+
+/**
+ * Request for text generation, optionally with images as additional input
+ */
+export interface TextGenerationRequest {
+	prompt: string;
+	task?: GenerationTask;
+	images?: string[]; // base64 data URLs
+	responseSchema?: Schema;
+	thinkingBudget?: number;
+	maxTokens?: number;
+	temperature?: number;
+}
+
+/**
+ * Request for image generation, optionally guided by reference images
+ */
+export interface ImageGenerationRequest {
+	prompt: string;
+	// A compact version of the prompt for models with a short prompt limit
+	shortPrompt?: string;
+	task?: GenerationTask;
+	referenceImages?: string[]; // base64 data URLs
+	// Index of the reference most relevant to the image (e.g. the panel's lead
+	// character), for providers that can only be guided by one
+	primaryReference?: number;
+	seed?: number;
+	aspectRatio?: PanelAspectRatio; // square when not given
+}
+
+/**
+ * A generated image with the seed and backend parameters it was made with
+ */
+export interface GeneratedImage {
+	image: string; // base64 data URL
+	seed: number | null; // null when the provider ignores seeds
+	parameters: Record<string, unknown>;
+	// The prompt as sent, when the provider sent something other than
+	// request.prompt (e.g. Titan, which is sent request.shortPrompt)
+	prompt?: string;
+}
+
+interface TextGenerationResult {
+	text: string;
+	usage: ProviderUsage;
+}
+
+interface ImageGenerationResult extends GeneratedImage {
+	usage: ProviderUsage;
+}
+
+/**
+ * Per-call information handed to providers for logging
+ */
+interface ProviderCallContext {
+	logger: Logger;
+	context: Record<string, unknown>;
+}
+
+/**
+ * A text and/or image generation backend. Providers handle their own
+ * retries for transient failures; the registry handles fallback between them.
+ * Providers without streamText deliver streamed requests as a single chunk.
+ */
+export interface GenerationProvider {
+	id: ProviderId;
+	capabilities: ReadonlySet<ProviderCapability>;
+	// Model a call would use; part of the response cache key
+	getModel: (generationType: "text" | "image") => string;
+	generateText?: (
+		request: TextGenerationRequest,
+		call: ProviderCallContext,
+	) => Promise<TextGenerationResult>;
+	streamText?: (
+		request: TextGenerationRequest,
+		call: ProviderCallContext,
+		onText: (delta: string) => void,
+	) => Promise<TextGenerationResult>;
+	generateImage?: (
+		request: ImageGenerationRequest,
+		call: ProviderCallContext,
+	) => Promise<ImageGenerationResult>;
+}
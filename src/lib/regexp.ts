@@ -0,0 +1,6 @@
+/**
+ * Escapes text for use as a literal inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,433 @@
+import { normalizeAspectRatio } from "@/lib/aspect-ratio";
+import { type StoryLocation, toLocationId } from "@/lib/locations";
+import type { StoryProp } from "@/lib/story-props";
+import type { StoryAnalysis, StoryBreakdown } from "@/types";
+
+/**
+ * A problem found in model output, with a JSON path like "$.panels[2].cameraAngle"
+ */
+export interface ValidationIssue {
+	path: string;
+	message: string;
+}
+
+export type ValidationResult<T> =
+	| { success: true; value: T }
+	| { success: false; issues: ValidationIssue[] };
+
+/**
+ * Checks a value and returns the cleaned-up result, or undefined after
+ * recording issues. Schemas trim strings and drop unknown properties.
+ */
+type Schema<T> = (
+	value: unknown,
+	path: string,
+	issues: ValidationIssue[],
+) => T | undefined;
+
+function string(options: { optional?: boolean } = {}): Schema<string> {
+	return (value, path, issues) => {
+		// Models tend to send "" for optional fields (e.g. no dialogue)
+		if (
+			options.optional &&
+			(value === undefined ||
+				value === null ||
+				(typeof value === "string" && value.trim() === ""))
+		) {
+			return undefined;
+		}
+		if (typeof value !== "string" || value.trim() === "") {
+			issues.push({ path, message: "must be a non-empty string" });
+			return undefined;
+		}
+		return value.trim();
+	};
+}
+
+function number(): Schema<number> {
+	return (value, path, issues) => {
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			issues.push({ path, message: "must be a number" });
+			return undefined;
+		}
+		return value;
+	};
+}
+
+function array<T>(
+	items: Schema<T>,
+	bounds: { min?: number; max?: number } = {},
+): Schema<T[]> {
+	return (value, path, issues) => {
+		if (!Array.isArray(value)) {
+			issues.push({ path, message: "must be an array" });
+			return undefined;
+		}
+		if (bounds.min !== undefined && value.length < bounds.min) {
+			issues.push({ path, message: `must have at least ${bounds.min} items` });
+		}
+		if (bounds.max !== undefined && value.length > bounds.max) {
+			issues.push({ path, message: `must have at most ${bounds.max} items` });
+		}
+		const result: T[] = [];
+		for (const [index, item] of value.entries()) {
+			const parsed = items(item, `${path}[${index}]`, issues);
+			if (parsed !== undefined) result.push(parsed);
+		}
+		return result;
+	};
+}
+
+function object<T extends object>(
+	shape: {
+		[K in keyof T]-?: Schema<T[K]>;
+	},
+): Schema<T> {
+	return (value, path, issues) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			issues.push({ path, message: "must be an object" });
+			return undefined;
+		}
+		const record = value as Record<string, unknown>;
+		const result: Record<string, unknown> = {};
+		for (const [key, schema] of Object.entries(shape) as [
+			string,
+			Schema<unknown>,
+		][]) {
+			const parsed = schema(record[key], `${path}.${key}`, issues);
+			if (parsed !== undefined) result[key] = parsed;
+		}
+		return result as T;
+	};
+}
+
+function run<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+	const issues: ValidationIssue[] = [];
+	const parsed = schema(value, "$", issues);
+	return issues.length === 0 && parsed !== undefined
+		? { success: true, value: parsed }
+		: { success: false, issues };
+}
+
+/**
+ * The most characters, locations and props an analysis may have
+ */
+interface AnalysisLimits {
+	characters: number;
+	locations: number;
+	props: number;
+}
+
+const ANALYSIS_LIMITS: AnalysisLimits = {
+	characters: 4,
+	locations: 8,
+	props: 6,
+};
+
+// Long stories are analyzed once for every chapter, so their cast is larger
+const LONG_STORY_ANALYSIS_LIMITS: AnalysisLimits = {
+	characters: 12,
+	locations: 16,
+	props: 10,
+};
+
+const storyAnalysisSchema = (limits: AnalysisLimits) =>
+	object<Omit<StoryAnalysis, "promptTemplate">>({
+		title: string(),
+		characters: array(
+			object<StoryAnalysis["characters"][number]>({
+				name: string(),
+				physicalDescription: string(),
+				personality: string(),
+				role: string(),
+			}),
+			{ min: 1, max: limits.characters },
+		),
+		setting: object<StoryAnalysis["setting"]>({
+			timePeriod: string(),
+			location: string(),
+			mood: string(),
+		}),
+		// Older template versions don't ask for locations
+		locations: (value, path, issues) =>
+			value === undefined || value === null
+				? undefined
+				: array(
+						object<Omit<StoryLocation, "settingReferenceIds">>({
+							// Ids are normalized, so "Rooftop" and "rooftop" are the same
+							id: (id, idPath, idIssues) => {
+								const parsed = string()(id, idPath, idIssues);
+								return parsed === undefined ? undefined : toLocationId(parsed);
+							},
+							name: string(),
+							description: string(),
+						}),
+						{ min: 1, max: limits.locations },
+					)(value, path, issues),
+		// Older template versions don't ask for props either
+		props: (value, path, issues) =>
+			value === undefined || value === null
+				? undefined
+				: array(
+						object<StoryProp>({
+							name: string(),
+							description: string(),
+						}),
+						{ max: limits.props },
+					)(value, path, issues),
+	});
+
+// Chapters are assigned by the client when it joins chapter layouts
+type BreakdownPanel = Omit<StoryBreakdown["panels"][number], "chapter">;
+
+const panelSchema = object<BreakdownPanel>({
+	panelNumber: number(),
+	characters: array(string()),
+	sceneDescription: string(),
+	dialogue: string({ optional: true }),
+	cameraAngle: string(),
+	visualMood: string(),
+	// A missing or unsupported shape isn't worth a repair, it falls back to square
+	aspectRatio: (value) => normalizeAspectRatio(value),
+	locationId: string({ optional: true }),
+	props: (value, path, issues) =>
+		value === undefined || value === null
+			? undefined
+			: array(string())(value, path, issues),
+});
+
+const panelDirectionSchema = object<
+	Pick<
+		BreakdownPanel,
+		"panelNumber" | "cameraAngle" | "visualMood" | "locationId"
+	>
+>({
+	panelNumber: number(),
+	cameraAngle: string(),
+	visualMood: string(),
+	locationId: string({ optional: true }),
+});
+
+/**
+ * Checks a panel's location against the story's location ids and returns
+ * the id in its normalized form. Without locations (an analysis from before
+ * there were several) panels have none.
+ */
+function checkLocationId(
+	locationId: string | undefined,
+	locationIds: string[],
+	path: string,
+	issues: ValidationIssue[],
+): string | undefined {
+	if (locationIds.length === 0) return undefined;
+	const id = locationId === undefined ? undefined : toLocationId(locationId);
+	if (id === undefined || !locationIds.includes(id)) {
+		issues.push({
+			path,
+			message: `must be one of the story's location ids (${locationIds.join(", ")})`,
+		});
+		return undefined;
+	}
+	return id;
+}
+
+/**
+ * Validates a story analysis: a title, 1-4 uniquely named characters with
+ * every field filled in, a complete setting and, from template versions
+ * that ask for them, 1-8 locations with unique ids and up to 6 uniquely
+ * named props. A long story may have up to 12 characters, 16 locations and
+ * 10 props.
+ */
+export function validateStoryAnalysis(
+	value: unknown,
+	longStory = false,
+): ValidationResult<Omit<StoryAnalysis, "promptTemplate">> {
+	const result = run(
+		storyAnalysisSchema(
+			longStory ? LONG_STORY_ANALYSIS_LIMITS : ANALYSIS_LIMITS,
+		),
+		value,
+	);
+	if (!result.success) return result;
+
+	const issues: ValidationIssue[] = [];
+	const seen = new Set<string>();
+	for (const [index, character] of result.value.characters.entries()) {
+		const key = character.name.toLowerCase();
+		if (seen.has(key)) {
+			issues.push({
+				path: `$.characters[${index}].name`,
+				message: `duplicates the character "${character.name}"; each character must appear once`,
+			});
+		}
+		seen.add(key);
+	}
+	const locationIds = new Set<string>();
+	for (const [index, location] of (result.value.locations ?? []).entries()) {
+		if (locationIds.has(location.id)) {
+			issues.push({
+				path: `$.locations[${index}].id`,
+				message: `duplicates the location id "${location.id}"; each location must appear once`,
+			});
+		}
+		locationIds.add(location.id);
+	}
+	const propNames = new Set<string>();
+	for (const [index, prop] of (result.value.props ?? []).entries()) {
+		const key = prop.name.toLowerCase();
+		if (propNames.has(key)) {
+			issues.push({
+				path: `$.props[${index}].name`,
+				message: `duplicates the prop "${prop.name}"; each prop must appear once`,
+			});
+		}
+		propNames.add(key);
+	}
+	return issues.length > 0 ? { success: false, issues } : result;
+}
+
+/**
+ * Validates a story breakdown against the analysis it was made from: panels
+ * numbered 1, 2, 3, ... in order, only characters from the analysis (names
+ * are normalized to the analysis spelling), each panel set in one of the
+ * analysis' locations, only props from the analysis, and every description
+ * filled in
+ */
+export function validateStoryBreakdown(
+	value: unknown,
+	characterNames: string[],
+	locationIds: string[] = [],
+	propNames: string[] = [],
+): ValidationResult<Omit<StoryBreakdown, "promptTemplate">> {
+	const issues: ValidationIssue[] = [];
+	const parsed = object<{ panels: unknown[] }>({
+		panels: array((item) => item, { min: 1, max: 15 }),
+	})(value, "$", issues);
+	if (!parsed) return { success: false, issues };
+
+	const knownNames = new Map(
+		characterNames.map((name) => [name.toLowerCase(), name]),
+	);
+	const knownProps = new Map(
+		propNames.map((name) => [name.toLowerCase(), name]),
+	);
+	const panels: BreakdownPanel[] = [];
+	for (const [index, item] of parsed.panels.entries()) {
+		const path = `$.panels[${index}]`;
+		const panel = panelSchema(item, path, issues);
+		if (!panel) continue;
+
+		if (panel.panelNumber !== index + 1) {
+			issues.push({
+				path: `${path}.panelNumber`,
+				message: `must be ${index + 1}; panels are numbered 1, 2, 3, ... in order`,
+			});
+		}
+
+		const characters: string[] = [];
+		for (const [characterIndex, name] of panel.characters.entries()) {
+			const knownName = knownNames.get(name.toLowerCase());
+			if (knownName) {
+				characters.push(knownName);
+			} else {
+				issues.push({
+					path: `${path}.characters[${characterIndex}]`,
+					message: `"${name}" is not one of the story's characters (${characterNames.join(", ")})`,
+				});
+			}
+		}
+
+		// Without props in the analysis (an older template) panels have none
+		const props: string[] = [];
+		for (const [propIndex, name] of (panel.props ?? []).entries()) {
+			const knownProp = knownProps.get(name.toLowerCase());
+			if (knownProp) {
+				props.push(knownProp);
+			} else if (knownProps.size > 0) {
+				issues.push({
+					path: `${path}.props[${propIndex}]`,
+					message: `"${name}" is not one of the story's props (${propNames.join(", ")})`,
+				});
+			}
+		}
+
+		const { locationId: _locationId, props: _props, ...rest } = panel;
+		const locationId = checkLocationId(
+			panel.locationId,
+			locationIds,
+			`${path}.locationId`,
+			issues,
+		);
+		panels.push({
+			...rest,
+			characters,
+			...(locationId ? { locationId } : {}),
+			...(knownProps.size > 0 ? { props } : {}),
+		});
+	}
+
+	return issues.length > 0
+		? { success: false, issues }
+		: { success: true, value: { panels } };
+}
+
+/**
+ * Validates the camera angles, moods and locations for panels taken from a
+ * screenplay: one per panel, numbered 1, 2, 3, ... in order. The panels'
+ * content is fixed, so the result is the given panels with the directions
+ * merged in.
+ */
+export function validatePanelDirections(
+	value: unknown,
+	panels: Omit<BreakdownPanel, "cameraAngle" | "visualMood">[],
+	locationIds: string[] = [],
+): ValidationResult<Omit<StoryBreakdown, "promptTemplate">> {
+	const issues: ValidationIssue[] = [];
+	const parsed = object<{
+		panels: Pick<
+			BreakdownPanel,
+			"panelNumber" | "cameraAngle" | "visualMood" | "locationId"
+		>[];
+	}>({
+		panels: array(panelDirectionSchema, {
+			min: panels.length,
+			max: panels.length,
+		}),
+	})(value, "$", issues);
+	if (!parsed) return { success: false, issues };
+
+	const locations: (string | undefined)[] = [];
+	for (const [index, direction] of parsed.panels.entries()) {
+		if (direction.panelNumber !== index + 1) {
+			issues.push({
+				path: `$.panels[${index}].panelNumber`,
+				message: `must be ${index + 1}; panels are numbered 1, 2, 3, ... in order`,
+			});
+		}
+		locations.push(
+			checkLocationId(
+				direction.locationId,
+				locationIds,
+				`$.panels[${index}].locationId`,
+				issues,
+			),
+		);
+	}
+
+	return issues.length > 0
+		? { success: false, issues }
+		: {
+				success: true,
+				value: {
+					panels: panels.map((panel, index) => {
+						const locationId = locations[index];
+						return {
+							...panel,
+							cameraAngle: parsed.panels[index]?.cameraAngle ?? "",
+							visualMood: parsed.panels[index]?.visualMood ?? "",
+							...(locationId ? { locationId } : {}),
+						};
+					}),
+				},
+			};
+}
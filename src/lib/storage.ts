@@ -1,7 +1,14 @@
+import {
+	loadImages,
+	storeImages,
+	type WithoutImages,
+	withoutImages,
+} from "@/lib/image-candidates";
 import type {
 	CharacterReference,
 	ComicStyle,
 	GeneratedPanel,
+	PropReference,
 	StoryAnalysis,
 	StoryBreakdown,
 	UploadedCharacterReference,
@@ -25,10 +32,12 @@ interface PersistedState {
 	noDialogue: boolean;
 	storyAnalysis: StoryAnalysis | null;
 	storyBreakdown: StoryBreakdown | null;
-	characterReferences: Omit<CharacterReference, "image">[];
-	generatedPanels: Omit<GeneratedPanel, "image">[];
+	characterReferences: WithoutImages<CharacterReference>[];
+	generatedPanels: WithoutImages<GeneratedPanel>[];
 	uploadedCharacterReferences: Omit<UploadedCharacterReference, "image">[];
 	uploadedSettingReferences: Omit<UploadedSettingReference, "image">[];
+	// Missing from states saved before props were tracked
+	propReferences?: WithoutImages<PropReference>[];
 	timestamp: number;
 }
 
@@ -149,6 +158,7 @@ export async function saveState(
 	generatedPanels: GeneratedPanel[],
 	uploadedCharacterReferences: UploadedCharacterReference[] = [],
 	uploadedSettingReferences: UploadedSettingReference[] = [],
+	propReferences: PropReference[] = [],
 ): Promise<void> {
 	try {
 		// Save text data to localStorage
@@ -159,16 +169,15 @@ export async function saveState(
 			noDialogue,
 			storyAnalysis,
 			storyBreakdown,
-			characterReferences: characterReferences.map(
-				({ image, ...char }) => char,
-			),
-			generatedPanels: generatedPanels.map(({ image, ...panel }) => panel),
+			characterReferences: characterReferences.map(withoutImages),
+			generatedPanels: generatedPanels.map(withoutImages),
 			uploadedCharacterReferences: uploadedCharacterReferences.map(
 				({ image, ...ref }) => ref,
 			),
 			uploadedSettingReferences: uploadedSettingReferences.map(
 				({ image, ...ref }) => ref,
 			),
+			propReferences: propReferences.map(withoutImages),
 			timestamp: Date.now(),
 		};
 
@@ -179,19 +188,17 @@ export async function saveState(
 
 		// Store character images
 		for (const char of characterReferences) {
-			if (char.image) {
-				await imageStorage.storeImage(`char-${char.name}`, char.image);
-			}
+			await storeImages(imageStorage, `char-${char.name}`, char);
+		}
+
+		// Store prop images
+		for (const prop of propReferences) {
+			await storeImages(imageStorage, `prop-${prop.name}`, prop);
 		}
 
 		// Store panel images
 		for (const panel of generatedPanels) {
-			if (panel.image) {
-				await imageStorage.storeImage(
-					`panel-${panel.panelNumber}`,
-					panel.image,
-				);
-			}
+			await storeImages(imageStorage, `panel-${panel.panelNumber}`, panel);
 		}
 
 		// Store uploaded character reference images
@@ -231,6 +238,7 @@ export async function loadState(): Promise<{
 	generatedPanels: GeneratedPanel[];
 	uploadedCharacterReferences: UploadedCharacterReference[];
 	uploadedSettingReferences: UploadedSettingReference[];
+	propReferences: PropReference[];
 } | null> {
 	try {
 		// Load text data from localStorage
@@ -253,22 +261,47 @@ export async function loadState(): Promise<{
 		const characterReferences: CharacterReference[] = [];
 		for (const char of textState.characterReferences) {
 			try {
-				const image = await imageStorage.getImage(`char-${char.name}`);
-				if (image) {
-					characterReferences.push({ ...char, image });
+				const restored = await loadImages<CharacterReference>(
+					imageStorage,
+					`char-${char.name}`,
+					char,
+				);
+				if (restored.image) {
+					characterReferences.push(restored);
 				}
 			} catch (error) {
 				console.warn(`Failed to load image for character ${char.name}:`, error);
 			}
 		}
 
+		// Restore prop images
+		const propReferences: PropReference[] = [];
+		for (const prop of textState.propReferences || []) {
+			try {
+				const restored = await loadImages<PropReference>(
+					imageStorage,
+					`prop-${prop.name}`,
+					prop,
+				);
+				if (restored.image) {
+					propReferences.push(restored);
+				}
+			} catch (error) {
+				console.warn(`Failed to load image for prop ${prop.name}:`, error);
+			}
+		}
+
 		// Restore panel images
 		const generatedPanels: GeneratedPanel[] = [];
 		for (const panel of textState.generatedPanels) {
 			try {
-				const image = await imageStorage.getImage(`panel-${panel.panelNumber}`);
-				if (image) {
-					generatedPanels.push({ ...panel, image });
+				const restored = await loadImages<GeneratedPanel>(
+					imageStorage,
+					`panel-${panel.panelNumber}`,
+					panel,
+				);
+				if (restored.image) {
+					generatedPanels.push(restored);
 				}
 			} catch (error) {
 				console.warn(
@@ -328,6 +361,7 @@ export async function loadState(): Promise<{
 			generatedPanels,
 			uploadedCharacterReferences,
 			uploadedSettingReferences,
+			propReferences,
 		};
 	} catch (error) {
 		console.error("❌ Failed to load state:", error);
@@ -0,0 +1,554 @@
+import JSZip from "jszip";
+import { isChapterHeading } from "@/lib/chapters";
+
+/**
+ * A chapter or section of an imported file
+ */
+interface ImportedSection {
+	title: string;
+	text: string;
+}
+
+export interface ImportedStory {
+	title: string;
+	sections: ImportedSection[];
+	// A Fountain screenplay, imported as written for screenplay mode
+	screenplay?: boolean;
+}
+
+export const STORY_IMPORT_ACCEPT = ".txt,.md,.markdown,.docx,.epub,.fountain";
+const MAX_IMPORT_SIZE_MB = 20;
+
+/**
+ * Document content in reading order, before it is grouped into sections
+ */
+type Block =
+	| { kind: "heading"; text: string }
+	| { kind: "paragraph"; text: string }
+	| { kind: "break" };
+
+// Written between scenes, and understood by the long story chapter split
+const SCENE_BREAK_TEXT = "* * *";
+
+const TABLE_OF_CONTENTS = /^(table of )?contents$/i;
+const SCENE_BREAK =
+	/^(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,}|(?:~\s*){3,}|#)$/;
+
+function collapseWhitespace(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Groups blocks into sections at headings. A chapter label followed by a
+ * title is joined ("Chapter 1" + "The Storm" becomes "Chapter 1: The
+ * Storm"), and tables of contents and sections without text are dropped.
+ */
+function toSections(blocks: Block[], fallbackTitle: string): ImportedSection[] {
+	const sections: { title: string | null; paragraphs: string[] }[] = [
+		{ title: null, paragraphs: [] },
+	];
+	for (const block of blocks) {
+		const current = sections[sections.length - 1] as (typeof sections)[number];
+		if (block.kind === "heading") {
+			const title = collapseWhitespace(block.text);
+			if (!title) continue;
+			if (
+				current.paragraphs.length === 0 &&
+				current.title &&
+				isChapterHeading(current.title) &&
+				!isChapterHeading(title)
+			) {
+				current.title = `${current.title}: ${title}`;
+			} else {
+				sections.push({ title, paragraphs: [] });
+			}
+		} else if (block.kind === "break") {
+			// Only between paragraphs of the same section
+			if (current.paragraphs.length > 0) {
+				current.paragraphs.push(SCENE_BREAK_TEXT);
+			}
+		} else {
+			const text = collapseWhitespace(block.text);
+			if (text) current.paragraphs.push(text);
+		}
+	}
+
+	const hasHeadings = sections.length > 1;
+	return sections
+		.filter((section) => !TABLE_OF_CONTENTS.test(section.title ?? ""))
+		.map((section) => {
+			const paragraphs = [...section.paragraphs];
+			while (paragraphs[paragraphs.length - 1] === SCENE_BREAK_TEXT) {
+				paragraphs.pop();
+			}
+			return {
+				title: section.title ?? (hasHeadings ? "Opening" : fallbackTitle),
+				text: paragraphs.join("\n\n"),
+			};
+		})
+		.filter((section) => section.text.length > 0);
+}
+
+/**
+ * Plain text: paragraphs are separated by blank lines and hard-wrapped
+ * lines are joined. Project Gutenberg headers and licenses are cut, and
+ * lines like "Chapter 3" start a new section.
+ */
+function parsePlainText(text: string): Block[] {
+	let body = text.replace(/\r\n?/g, "\n");
+	const start = /^\*\*\*\s*START OF (THE|THIS) PROJECT GUTENBERG.*$/im.exec(
+		body,
+	);
+	if (start) body = body.slice(start.index + start[0].length);
+	const end = /^\*\*\*\s*END OF (THE|THIS) PROJECT GUTENBERG.*$/im.exec(body);
+	if (end) body = body.slice(0, end.index);
+
+	const blocks: Block[] = [];
+	for (const paragraph of body.split(/\n\s*\n/)) {
+		const lines = paragraph
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0);
+		const [first] = lines;
+		if (!first) continue;
+
+		if (lines.length === 1 && SCENE_BREAK.test(first)) {
+			blocks.push({ kind: "break" });
+		} else if (lines.length === 1 && TABLE_OF_CONTENTS.test(first)) {
+			blocks.push({ kind: "heading", text: first });
+		} else if (lines.length > 1 && lines.every(isChapterHeading)) {
+			// A table of contents listing the chapters
+		} else if (lines.length <= 2 && isChapterHeading(first)) {
+			// A heading may be followed by its title on the next line
+			blocks.push({ kind: "heading", text: lines.join(": ") });
+		} else if (/^\[\d+\]/.test(first)) {
+			// Footnote text, e.g. "[1] See the appendix"
+		} else {
+			blocks.push({
+				kind: "paragraph",
+				text: lines.join(" ").replace(/\[\d+\]/g, ""),
+			});
+		}
+	}
+	return blocks;
+}
+
+/**
+ * Removes inline Markdown (links, images, emphasis, code, HTML tags,
+ * footnote references and escapes), keeping the text
+ */
+function stripInlineMarkdown(text: string): string {
+	return text
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+		.replace(/\[\^[^\]]+\]/g, "")
+		.replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+		.replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+		.replace(/<[^>]+>/g, "")
+		.replace(/`([^`]+)`/g, "$1")
+		.replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+		.replace(/(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, "$1")
+		.replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, "$1")
+		.replace(/~~(.+?)~~/g, "$1")
+		.replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, "$1");
+}
+
+/**
+ * Markdown: front matter, code blocks, tables, footnotes, link definitions
+ * and [TOC] markers are dropped; headings start new sections
+ */
+function parseMarkdown(text: string): Block[] {
+	const body = text
+		.replace(/\r\n?/g, "\n")
+		.replace(/^\uFEFF/, "")
+		.replace(/^---\n[\s\S]*?\n(---|\.\.\.)\n/, "")
+		.replace(/^\+\+\+\n[\s\S]*?\n\+\+\+\n/, "")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/^(```|~~~)[^\n]*\n[\s\S]*?\n\1[^\n]*$/gm, "");
+
+	const blocks: Block[] = [];
+	let paragraph: string[] = [];
+	let inFootnote = false;
+	const endParagraph = () => {
+		if (paragraph.length > 0) {
+			blocks.push({
+				kind: "paragraph",
+				text: stripInlineMarkdown(paragraph.join(" ")),
+			});
+			paragraph = [];
+		}
+	};
+
+	const lines = body.split("\n");
+	for (const [index, rawLine] of lines.entries()) {
+		const line = rawLine.trim();
+		const next = lines[index + 1]?.trim() ?? "";
+
+		// Footnote definitions continue on indented lines
+		if (/^\[\^[^\]]+\]:/.test(line)) {
+			endParagraph();
+			inFootnote = true;
+			continue;
+		}
+		if (inFootnote) {
+			if (line && /^\s/.test(rawLine)) continue;
+			inFootnote = false;
+		}
+
+		if (!line) {
+			endParagraph();
+			continue;
+		}
+		if (
+			/^\[[^\]]+\]:\s+\S/.test(line) ||
+			/^\[(TOC|\[_TOC_\])\]$/i.test(line) ||
+			/^\|.*\|$/.test(line)
+		) {
+			continue;
+		}
+
+		const atxHeading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line);
+		if (atxHeading) {
+			endParagraph();
+			const [, level = "", title = ""] = atxHeading;
+			blocks.push(
+				level.length <= 3
+					? { kind: "heading", text: stripInlineMarkdown(title) }
+					: { kind: "paragraph", text: stripInlineMarkdown(title) },
+			);
+			continue;
+		}
+		// A single line underlined with === or --- is a heading
+		if (paragraph.length === 0 && /^(=+|-+)$/.test(next)) {
+			blocks.push({ kind: "heading", text: stripInlineMarkdown(line) });
+			lines[index + 1] = "";
+			continue;
+		}
+		if (SCENE_BREAK.test(line)) {
+			endParagraph();
+			blocks.push({ kind: "break" });
+			continue;
+		}
+
+		paragraph.push(
+			line.replace(/^(>\s?)+/, "").replace(/^([-*+]|\d+[.)])\s+/, ""),
+		);
+	}
+	endParagraph();
+	return blocks;
+}
+
+function parseXml(source: string, type: DOMParserSupportedType): Document {
+	const document = new DOMParser().parseFromString(source, type);
+	if (document.getElementsByTagName("parsererror").length > 0) {
+		throw new Error("The file is damaged and couldn't be read");
+	}
+	return document;
+}
+
+function childElements(node: Node): Element[] {
+	return Array.from(node.childNodes).filter(
+		(child): child is Element => child.nodeType === Node.ELEMENT_NODE,
+	);
+}
+
+/**
+ * Text of a Word paragraph. Deleted text, field codes (e.g. page numbers)
+ * and footnote references have no w:t of their own, so they are skipped.
+ */
+function docxParagraphText(paragraph: Element): string {
+	let text = "";
+	const visit = (node: Element) => {
+		switch (node.nodeName) {
+			case "w:t":
+				text += node.textContent ?? "";
+				return;
+			case "w:tab":
+				text += " ";
+				return;
+			case "w:br":
+			case "w:cr":
+				text += " ";
+				return;
+			case "w:delText":
+			case "w:instrText":
+			case "w:pPr":
+			case "w:rPr":
+				return;
+		}
+		for (const child of childElements(node)) visit(child);
+	};
+	visit(paragraph);
+	return text;
+}
+
+/**
+ * DOCX: paragraphs of word/document.xml in order. Heading and Title styles
+ * start sections; tables, tables of contents and footnotes are left out.
+ */
+async function parseDocx(zip: JSZip): Promise<Block[]> {
+	const source = await zip.file("word/document.xml")?.async("string");
+	if (!source) {
+		throw new Error("This doesn't look like a Word document");
+	}
+	const document = parseXml(source, "application/xml");
+	const body = document.getElementsByTagName("w:body")[0];
+	if (!body) return [];
+
+	const blocks: Block[] = [];
+	const visit = (element: Element) => {
+		switch (element.nodeName) {
+			case "w:p": {
+				const properties = childElements(element).find(
+					(child) => child.nodeName === "w:pPr",
+				);
+				const style =
+					(properties &&
+						childElements(properties)
+							.find((child) => child.nodeName === "w:pStyle")
+							?.getAttribute("w:val")) ??
+					"";
+				const outlineLevel = properties
+					? childElements(properties)
+							.find((child) => child.nodeName === "w:outlineLvl")
+							?.getAttribute("w:val")
+					: undefined;
+				if (/^TOC/i.test(style)) return;
+
+				const text = docxParagraphText(element);
+				const isHeading =
+					/^(Title|Heading ?[1-3])$/i.test(style) ||
+					(outlineLevel !== undefined && Number(outlineLevel) <= 2);
+				blocks.push(
+					isHeading || isChapterHeading(text.trim())
+						? { kind: "heading", text }
+						: SCENE_BREAK.test(text.trim())
+							? { kind: "break" }
+							: { kind: "paragraph", text },
+				);
+				return;
+			}
+			case "w:sdt": {
+				// Generated tables of contents are wrapped in a content control
+				const gallery = element.getElementsByTagName("w:docPartGallery")[0];
+				if (gallery?.getAttribute("w:val")?.includes("Table of Contents")) {
+					return;
+				}
+				break;
+			}
+			case "w:tbl":
+				return;
+		}
+		for (const child of childElements(element)) visit(child);
+	};
+	visit(body);
+	return blocks;
+}
+
+// epub:type and ARIA roles of content that isn't part of the story
+const EPUB_SKIPPED_TYPES =
+	/\b(footnotes?|endnotes?|rearnotes?|noteref|toc|landmarks|cover|titlepage|copyright-page|index|loi|lot)\b/;
+const EPUB_SKIPPED_ROLES =
+	/\bdoc-(footnote|endnotes?|noteref|toc|cover|index|pagelist)\b/;
+
+function isSkippedEpubElement(element: Element): boolean {
+	const name = element.localName.toLowerCase();
+	if (["script", "style", "nav", "aside", "table", "figure"].includes(name)) {
+		return true;
+	}
+	if (EPUB_SKIPPED_TYPES.test(element.getAttribute("epub:type") ?? "")) {
+		return true;
+	}
+	if (EPUB_SKIPPED_ROLES.test(element.getAttribute("role") ?? "")) {
+		return true;
+	}
+	// Note references like <sup><a href="#fn1">1</a></sup>
+	return name === "sup" && element.querySelector("a[href]") !== null;
+}
+
+function epubElementText(element: Element): string {
+	let text = "";
+	for (const child of Array.from(element.childNodes)) {
+		if (child.nodeType === Node.TEXT_NODE) {
+			text += child.textContent ?? "";
+		} else if (child.nodeType === Node.ELEMENT_NODE) {
+			const childElement = child as Element;
+			if (isSkippedEpubElement(childElement)) continue;
+			text +=
+				childElement.localName.toLowerCase() === "br"
+					? " "
+					: epubElementText(childElement);
+		}
+	}
+	return text;
+}
+
+/**
+ * Blocks of one EPUB content document, in reading order
+ */
+function epubDocumentBlocks(document: Document): Block[] {
+	const blocks: Block[] = [];
+	const visit = (element: Element) => {
+		if (isSkippedEpubElement(element)) return;
+		const name = element.localName.toLowerCase();
+		if (/^h[1-3]$/.test(name)) {
+			blocks.push({ kind: "heading", text: epubElementText(element) });
+		} else if (
+			["p", "li", "dt", "dd", "pre", "h4", "h5", "h6"].includes(name)
+		) {
+			blocks.push({ kind: "paragraph", text: epubElementText(element) });
+		} else if (name === "hr") {
+			blocks.push({ kind: "break" });
+		} else {
+			for (const child of Array.from(element.childNodes)) {
+				if (child.nodeType === Node.ELEMENT_NODE) {
+					visit(child as Element);
+				} else if (child.nodeType === Node.TEXT_NODE) {
+					// Text directly inside a <div> or <section>
+					const text = child.textContent ?? "";
+					if (text.trim()) blocks.push({ kind: "paragraph", text });
+				}
+			}
+		}
+	};
+	const body = document.getElementsByTagName("body")[0];
+	if (body) visit(body);
+	return blocks;
+}
+
+function resolvePath(base: string, href: string): string {
+	const parts = base.split("/").slice(0, -1);
+	for (const segment of decodeURIComponent(href.split("#")[0] ?? "").split(
+		"/",
+	)) {
+		if (segment === "..") parts.pop();
+		else if (segment && segment !== ".") parts.push(segment);
+	}
+	return parts.join("/");
+}
+
+/**
+ * EPUB: the content documents in spine order. Navigation documents, notes,
+ * covers and title and copyright pages are left out. A document without a
+ * heading of its own is titled from its <title>.
+ */
+async function parseEpub(zip: JSZip): Promise<Block[]> {
+	const container = await zip.file("META-INF/container.xml")?.async("string");
+	const packagePath = container
+		? parseXml(container, "application/xml")
+				.getElementsByTagName("rootfile")[0]
+				?.getAttribute("full-path")
+		: undefined;
+	const packageSource = packagePath
+		? await zip.file(packagePath)?.async("string")
+		: undefined;
+	if (!packagePath || !packageSource) {
+		throw new Error("This doesn't look like an EPUB book");
+	}
+
+	const packageDocument = parseXml(packageSource, "application/xml");
+	const manifest = new Map(
+		Array.from(packageDocument.getElementsByTagName("item")).map((item) => [
+			item.getAttribute("id") ?? "",
+			{
+				path: resolvePath(packagePath, item.getAttribute("href") ?? ""),
+				properties: item.getAttribute("properties") ?? "",
+			},
+		]),
+	);
+
+	const blocks: Block[] = [];
+	for (const itemref of Array.from(
+		packageDocument.getElementsByTagName("itemref"),
+	)) {
+		if (itemref.getAttribute("linear") === "no") continue;
+		const item = manifest.get(itemref.getAttribute("idref") ?? "");
+		if (!item || /\bnav\b/.test(item.properties)) continue;
+
+		const source = await zip.file(item.path)?.async("string");
+		if (!source) continue;
+		let document: Document;
+		try {
+			document = parseXml(source, "application/xhtml+xml");
+		} catch {
+			// Some books ship HTML that isn't well-formed XML
+			document = new DOMParser().parseFromString(source, "text/html");
+		}
+
+		const documentBlocks = epubDocumentBlocks(document);
+		const title = collapseWhitespace(
+			document.getElementsByTagName("title")[0]?.textContent ?? "",
+		);
+		if (documentBlocks[0]?.kind !== "heading" && title) {
+			documentBlocks.unshift({ kind: "heading", text: title });
+		}
+		blocks.push(...documentBlocks);
+	}
+	return blocks;
+}
+
+/**
+ * Extracts the prose of a .txt, .md, .docx or .epub file, split into its
+ * chapters or sections. Runs in the browser (DOCX and EPUB are parsed with
+ * DOMParser). A .fountain screenplay is kept as written, since its layout is
+ * its markup.
+ */
+export async function importStoryFile(file: File): Promise<ImportedStory> {
+	if (file.size > MAX_IMPORT_SIZE_MB * 1024 * 1024) {
+		throw new Error(`File size must be less than ${MAX_IMPORT_SIZE_MB}MB`);
+	}
+
+	const title = file.name.replace(/\.[^/.]+$/, "");
+	const extension = file.name.split(".").pop()?.toLowerCase();
+	if (extension === "fountain") {
+		const script = (await file.text()).trim();
+		if (!script) {
+			throw new Error("No story text was found in this file");
+		}
+		return { title, sections: [{ title, text: script }], screenplay: true };
+	}
+
+	let blocks: Block[];
+	switch (extension) {
+		case "txt":
+			blocks = parsePlainText(await file.text());
+			break;
+		case "md":
+		case "markdown":
+			blocks = parseMarkdown(await file.text());
+			break;
+		case "docx":
+		case "epub": {
+			let zip: JSZip;
+			try {
+				zip = await JSZip.loadAsync(await file.arrayBuffer());
+			} catch {
+				throw new Error("The file is damaged and couldn't be read");
+			}
+			blocks =
+				extension === "docx" ? await parseDocx(zip) : await parseEpub(zip);
+			break;
+		}
+		default:
+			throw new Error(
+				"Please select a .txt, .md, .docx, .epub or .fountain file",
+			);
+	}
+
+	const sections = toSections(blocks, title);
+	if (sections.length === 0) {
+		throw new Error("No story text was found in this file");
+	}
+	return { title, sections };
+}
+
+/**
+ * Joins sections back into one story, with a heading per section so Long
+ * Story Mode splits it into the same chapters
+ */
+export function joinSections(sections: ImportedSection[]): string {
+	return sections.length === 1
+		? (sections[0]?.text ?? "")
+		: sections
+				.map((section) => `# ${section.title}\n\n${section.text}`)
+				.join("\n\n");
+}
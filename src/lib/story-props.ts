@@ -0,0 +1,39 @@
+import { escapeRegExp } from "@/lib/regexp";
+import type { StoryAnalysis, StoryBreakdown } from "@/types";
+
+export type StoryProp = NonNullable<StoryAnalysis["props"]>[number];
+
+/**
+ * Whether a text mentions a prop by name, ignoring a leading article, so
+ * "The Silver Key" is found in "she turned the silver key"
+ */
+function mentionsProp(text: string, name: string): boolean {
+	const key = name.trim().replace(/^(the|a|an)\s+/i, "");
+	return (
+		key.length > 0 &&
+		new RegExp(
+			`(^|[^\\p{L}\\p{N}])${escapeRegExp(key)}($|[^\\p{L}\\p{N}])`,
+			"iu",
+		).test(text)
+	);
+}
+
+/**
+ * The props shown in a panel: those the layout lists for it or, for panels
+ * laid out without props (screenplays, older layouts), those its scene
+ * description or dialogue mentions
+ */
+export function findPanelProps(
+	props: StoryProp[],
+	panel: Pick<
+		StoryBreakdown["panels"][number],
+		"props" | "sceneDescription" | "dialogue"
+	>,
+): StoryProp[] {
+	if (panel.props) {
+		const names = panel.props.map((name) => name.toLowerCase());
+		return props.filter(({ name }) => names.includes(name.toLowerCase()));
+	}
+	const text = [panel.sceneDescription, panel.dialogue ?? ""].join("\n");
+	return props.filter(({ name }) => mentionsProp(text, name));
+}
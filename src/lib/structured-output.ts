@@ -0,0 +1,183 @@
+import type { Logger } from "pino";
+import { type RecoveredJSON, recoverJSON } from "@/lib/json-parser";
+import type { ApiResponse, TextGenerationRequest } from "@/lib/providers/types";
+import type { ValidationIssue, ValidationResult } from "@/lib/schemas";
+import { addUsage, EMPTY_USAGE } from "@/lib/usage";
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Long enough for a 15-panel breakdown, short enough to keep repairs cheap
+const MAX_ECHOED_RESPONSE_LENGTH = 20000;
+
+/**
+ * Validated model output along with any syntax repairs its JSON needed
+ */
+export type ValidatedResponse<T> = ApiResponse<T> &
+	Pick<RecoveredJSON<T>, "repairs" | "truncated">;
+
+/**
+ * Thrown when model output still fails validation after every repair attempt
+ */
+export class OutputValidationError extends Error {
+	readonly code = "INVALID_MODEL_OUTPUT";
+	readonly issues: ValidationIssue[];
+	readonly attempts: number;
+
+	constructor(message: string, issues: ValidationIssue[], attempts: number) {
+		super(message);
+		this.name = "OutputValidationError";
+		this.issues = issues;
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Repair attempts after the first response, set with OUTPUT_REPAIR_ATTEMPTS
+ * (0 disables repairs)
+ */
+function readMaxRepairAttempts(): number {
+	const value = Number(process.env["OUTPUT_REPAIR_ATTEMPTS"]);
+	return Number.isInteger(value) && value >= 0
+		? value
+		: DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+function formatIssues(issues: ValidationIssue[]): string {
+	return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
+
+/**
+ * Asks the model to fix its previous response, repeating the original
+ * instructions so the repair is held to the same requirements
+ */
+function buildRepairRequest(
+	request: TextGenerationRequest,
+	responseText: string,
+	issues: ValidationIssue[],
+): TextGenerationRequest {
+	return {
+		...request,
+		prompt: `${request.prompt}
+
+Your previous response was:
+<previous-response>
+${responseText.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}
+</previous-response>
+
+It failed validation with these problems:
+${formatIssues(issues)}
+
+Return the complete corrected JSON, fixing these problems and keeping everything else unchanged.
+`,
+	};
+}
+
+function parseAndValidate<T>(
+	text: string,
+	validate: (value: unknown) => ValidationResult<T>,
+): { result: ValidationResult<T>; recovered?: RecoveredJSON<unknown> } {
+	let recovered: RecoveredJSON<unknown>;
+	try {
+		recovered = recoverJSON<unknown>(text);
+	} catch (error) {
+		return {
+			result: {
+				success: false,
+				issues: [
+					{
+						path: "$",
+						message: `is not valid JSON (${error instanceof Error ? error.message : "parse error"})`,
+					},
+				],
+			},
+		};
+	}
+	return { result: validate(recovered.value), recovered };
+}
+
+/**
+ * Generates JSON and validates it, feeding validation errors back to the
+ * model for a bounded number of repair attempts. Malformed or truncated JSON
+ * is recovered locally first, so a response cut off by the token limit still
+ * passes when its complete part is valid. The returned usage covers every
+ * attempt. generate is given a check for whether a response text is valid,
+ * so that only valid responses are cached. Throws OutputValidationError when
+ * no attempt is valid.
+ */
+export async function generateValidated<T>(
+	request: TextGenerationRequest,
+	generate: (
+		request: TextGenerationRequest,
+		attempt: number,
+		isValid: (text: string) => boolean,
+	) => Promise<ApiResponse<string>>,
+	validate: (value: unknown) => ValidationResult<T>,
+	logger: Logger,
+	context: Record<string, unknown> = {},
+): Promise<ValidatedResponse<T>> {
+	const maxAttempts = readMaxRepairAttempts() + 1;
+	let currentRequest = request;
+	let usage = EMPTY_USAGE;
+	const isValid = (text: string) =>
+		parseAndValidate(text, validate).result.success;
+
+	for (let attempt = 1; ; attempt++) {
+		const response = await generate(currentRequest, attempt, isValid);
+		usage = addUsage(usage, response.usage);
+
+		const { result, recovered } = parseAndValidate(response.result, validate);
+		if (recovered && recovered.repairs.length > 0) {
+			logger.warn(
+				{
+					...context,
+					attempt,
+					repairs: recovered.repairs,
+					truncated: recovered.truncated,
+				},
+				"Recovered malformed JSON in model output",
+			);
+		}
+		if (result.success) {
+			if (attempt > 1) {
+				logger.info(
+					{ ...context, attempt },
+					"Model output repaired successfully",
+				);
+			}
+			return {
+				...response,
+				result: result.value,
+				usage,
+				repairs: recovered?.repairs ?? [],
+				truncated: recovered?.truncated ?? false,
+			};
+		}
+
+		if (attempt >= maxAttempts) {
+			logger.error(
+				{
+					...context,
+					attempts: attempt,
+					issues: result.issues,
+					response_preview: response.result.substring(0, 1000),
+				},
+				"Model output failed validation, giving up",
+			);
+			throw new OutputValidationError(
+				`Model output failed validation after ${attempt} attempt(s):\n${formatIssues(result.issues)}`,
+				result.issues,
+				attempt,
+			);
+		}
+
+		logger.warn(
+			{ ...context, attempt, issues: result.issues },
+			"Model output failed validation, requesting a repair",
+		);
+		currentRequest = buildRepairRequest(
+			request,
+			response.result,
+			result.issues,
+		);
+	}
+}
@@ -0,0 +1,37 @@
+import type { GenerationUsage } from "@/types";
+
+export const EMPTY_USAGE: GenerationUsage = {
+	inputTokens: 0,
+	outputTokens: 0,
+	images: 0,
+	estimatedCostUsd: 0,
+};
+
+/**
+ * Sums usage from several generation calls
+ */
+export function addUsage(
+	...usages: Array<GenerationUsage | undefined>
+): GenerationUsage {
+	return usages.reduce<GenerationUsage>(
+		(total, usage) =>
+			usage
+				? {
+						inputTokens: total.inputTokens + usage.inputTokens,
+						outputTokens: total.outputTokens + usage.outputTokens,
+						images: total.images + usage.images,
+						estimatedCostUsd: total.estimatedCostUsd + usage.estimatedCostUsd,
+					}
+				: total,
+		EMPTY_USAGE,
+	);
+}
+
+/**
+ * Formats an estimated cost in USD, keeping precision for sub-cent amounts
+ */
+export function formatCost(costUsd: number): string {
+	if (costUsd === 0) return "$0.00";
+	if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+	return `$${costUsd.toFixed(2)}`;
+}
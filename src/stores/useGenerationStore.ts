@@ -1,16 +1,52 @@
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
+import {
+	type CharacterEdit,
+	editAnalysisCharacters,
+	editAnalysisLocations,
+	editAnalysisProps,
+	type LocationEdit,
+	type PropEdit,
+} from "@/lib/analysis-editing";
 import {
 	trackError,
 	trackEvent,
 	trackMangaGeneration,
 	trackPerformance,
 } from "@/lib/analytics";
+import {
+	type BreakdownEdit,
+	editBreakdownPanels,
+} from "@/lib/breakdown-editing";
+import {
+	MAX_LONG_STORY_WORDS,
+	MAX_STORY_WORDS,
+	splitIntoChapters,
+} from "@/lib/chapters";
+import { readEventStream } from "@/lib/event-stream";
+import {
+	loadImages,
+	mergeCandidates,
+	selectCandidate,
+	storeImages,
+	withoutImages,
+} from "@/lib/image-candidates";
+import type { PartialJSON } from "@/lib/json-parser";
+import type { StoryLocation } from "@/lib/locations";
+import { ContentBlockedError } from "@/lib/moderation";
+import type { StoryProp } from "@/lib/story-props";
+import { addUsage, EMPTY_USAGE } from "@/lib/usage";
+import { useStoryStore } from "@/stores/useStoryStore";
 import { useUIStore } from "@/stores/useUIStore";
 import type {
 	CharacterReference,
 	ComicStyle,
+	ContentBlockDetails,
 	GeneratedPanel,
+	GenerationUsage,
+	PanelAspectRatio,
+	PromptInjectionWarning,
+	PropReference,
 	StoryAnalysis,
 	StoryBreakdown,
 	UploadedCharacterReference,
@@ -22,8 +58,13 @@ type FailedPanel = {
 	step: "panel";
 	panelNumber: number;
 	panelIndex: number;
+	// Set when the panel was refused for its content, so it can be edited
+	contentBlock?: ContentBlockDetails;
 } | null;
 
+type BreakdownPanel = StoryBreakdown["panels"][number];
+type AnalysisCharacter = StoryAnalysis["characters"][number];
+
 // IndexedDB setup for images
 const DB_NAME = "MangaGeneratorDB";
 const DB_VERSION = 1;
@@ -124,7 +165,14 @@ const generateSingleCharacterWithApi = async (
 	setting: { timePeriod: string; location: string; mood: string },
 	style: ComicStyle,
 	uploadedCharacterReferences: UploadedCharacterReference[],
-): Promise<CharacterReference> => {
+	seed?: number | null,
+	bypassCache = false,
+	candidates = 1,
+): Promise<{
+	characterReference: CharacterReference;
+	usage?: GenerationUsage;
+	warnings?: PromptInjectionWarning[];
+}> => {
 	const response = await fetch("/api/generate-character-refs", {
 		method: "POST",
 		headers: { "Content-Type": "application/json" },
@@ -133,6 +181,9 @@ const generateSingleCharacterWithApi = async (
 			setting,
 			style,
 			uploadedCharacterReferences,
+			seed,
+			candidates,
+			bypassCache,
 		}),
 	});
 
@@ -144,8 +195,8 @@ const generateSingleCharacterWithApi = async (
 		throw new Error(errorMessage);
 	}
 
-	const { characterReferences } = await response.json();
-	return characterReferences[0];
+	const { characterReferences, usage, warnings } = await response.json();
+	return { characterReference: characterReferences[0], usage, warnings };
 };
 
 // Reusable panel generation helper to avoid code duplication
@@ -157,12 +208,25 @@ const generateSinglePanelWithApi = async (
 		dialogue?: string;
 		cameraAngle: string;
 		visualMood: string;
+		aspectRatio?: PanelAspectRatio;
+		locationId?: string;
+		props?: string[];
 	},
 	characterReferences: CharacterReference[],
 	setting: { timePeriod: string; location: string; mood: string },
+	locations: StoryLocation[],
+	props: StoryProp[],
+	propReferences: PropReference[],
 	style: ComicStyle,
 	uploadedSettingReferences: UploadedSettingReference[],
-): Promise<GeneratedPanel> => {
+	seed?: number | null,
+	bypassCache = false,
+	candidates = 1,
+): Promise<{
+	generatedPanel: GeneratedPanel;
+	usage?: GenerationUsage;
+	warnings?: PromptInjectionWarning[];
+}> => {
 	const panelResponse = await fetch("/api/generate-panel", {
 		method: "POST",
 		headers: { "Content-Type": "application/json" },
@@ -170,12 +234,22 @@ const generateSinglePanelWithApi = async (
 			panel: panelData,
 			characterReferences,
 			setting,
+			locations,
+			props,
+			propReferences,
 			style,
 			uploadedSettingReferences,
+			seed,
+			candidates,
+			bypassCache,
 		}),
 	});
 
 	if (!panelResponse.ok) {
+		const contentBlock = await readContentBlock(panelResponse);
+		if (contentBlock) {
+			throw new ContentBlockedError(contentBlock);
+		}
 		const errorMessage = await handleApiError(
 			panelResponse,
 			`Failed to generate panel ${panelData.panelNumber}`,
@@ -183,8 +257,115 @@ const generateSinglePanelWithApi = async (
 		throw new Error(errorMessage);
 	}
 
-	const { generatedPanel } = await panelResponse.json();
-	return generatedPanel;
+	const { generatedPanel, usage, warnings } = await panelResponse.json();
+	return { generatedPanel, usage, warnings };
+};
+
+const generatePropReferenceWithApi = async (
+	prop: StoryProp,
+	setting: { timePeriod: string; location: string; mood: string },
+	style: ComicStyle,
+): Promise<{
+	propReference: PropReference;
+	usage?: GenerationUsage;
+	warnings?: PromptInjectionWarning[];
+}> => {
+	const response = await fetch("/api/generate-prop-ref", {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({
+			prop,
+			setting,
+			style,
+			// Asking again is for a different design
+			bypassCache: true,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorMessage = await handleApiError(
+			response,
+			`Failed to generate a reference for ${prop.name}`,
+		);
+		throw new Error(errorMessage);
+	}
+
+	const { propReference, usage, warnings } = await response.json();
+	return { propReference, usage, warnings };
+};
+
+// Streams a text generation step over SSE. Partial results are reported as
+// they are parsed (null when a fallback provider starts over) and the
+// promise resolves with the same body the non-streaming endpoint returns.
+const streamFromApi = async <TPartial>(
+	url: string,
+	body: Record<string, unknown>,
+	defaultMessage: string,
+	onPartial: (partial: TPartial | null) => void,
+) => {
+	const response = await fetch(url, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ ...body, stream: true }),
+	});
+
+	if (!response.ok) {
+		const contentBlock = await readContentBlock(response);
+		if (contentBlock) {
+			throw new ContentBlockedError(contentBlock);
+		}
+		throw new Error(await handleApiError(response, defaultMessage));
+	}
+
+	let result: Record<string, unknown> | null = null;
+	let errorMessage: string | null = null;
+	let contentBlock: ContentBlockDetails | null = null;
+	await readEventStream(response, (event, data) => {
+		switch (event) {
+			case "partial":
+				onPartial(data as TPartial);
+				break;
+			case "restart":
+				onPartial(null);
+				break;
+			case "complete":
+				result = data as Record<string, unknown>;
+				break;
+			case "error":
+				errorMessage = (data as { error?: string }).error || defaultMessage;
+				contentBlock = toContentBlock(data);
+				break;
+		}
+	});
+
+	if (contentBlock) {
+		throw new ContentBlockedError(contentBlock);
+	}
+	if (errorMessage || !result) {
+		throw new Error(errorMessage || defaultMessage);
+	}
+	return result;
+};
+
+// Blocked content comes back as 422 CONTENT_BLOCKED (or, when streaming, an
+// error event with the same body) with its category and, for the moderation
+// pre-check, the flagged field and excerpt
+const readContentBlock = async (
+	response: Response,
+): Promise<ContentBlockDetails | null> => {
+	if (response.status !== 422) return null;
+	try {
+		return toContentBlock(await response.clone().json());
+	} catch {
+		return null;
+	}
+};
+
+const toContentBlock = (body: unknown): ContentBlockDetails | null => {
+	const { error, code, ...details } = body as Record<string, unknown>;
+	return code === "CONTENT_BLOCKED"
+		? ({ message: error, ...details } as ContentBlockDetails)
+		: null;
 };
 
 // Enhanced API Error Helper with better context
@@ -232,11 +413,25 @@ const handleApiError = async (
 const categorizeError = (
 	error: string,
 ): {
-	category: "network" | "rate_limit" | "validation" | "generation" | "unknown";
+	category:
+		| "network"
+		| "rate_limit"
+		| "safety"
+		| "validation"
+		| "generation"
+		| "unknown";
 	suggestion: string;
 } => {
 	const errorLower = error.toLowerCase();
 
+	if (errorLower.includes("blocked by")) {
+		return {
+			category: "safety",
+			suggestion:
+				"Edit the flagged text to leave out the blocked content, then retry.",
+		};
+	}
+
 	if (errorLower.includes("rate limit") || errorLower.includes("429")) {
 		return {
 			category: "rate_limit",
@@ -289,12 +484,18 @@ const categorizeError = (
 interface GenerationState {
 	storyAnalysis: StoryAnalysis | null;
 	characterReferences: CharacterReference[];
+	// Generated or uploaded images of key props, used in the panels showing them
+	propReferences: PropReference[];
 	storyBreakdown: StoryBreakdown | null;
+	// Characters and panels parsed so far while analysis/layout are streaming
+	partialStoryAnalysis: PartialJSON<StoryAnalysis> | null;
+	partialStoryBreakdown: PartialJSON<StoryBreakdown> | null;
 	generatedPanels: GeneratedPanel[];
 	error: string | null;
 	errorCategory:
 		| "network"
 		| "rate_limit"
+		| "safety"
 		| "validation"
 		| "generation"
 		| "unknown"
@@ -305,10 +506,16 @@ interface GenerationState {
 	isGenerating: boolean;
 	currentStepText: string;
 	openAccordions: Set<string>;
+	// Tokens, images and estimated cost summed over the current comic
+	usage: GenerationUsage;
+	// Story or reference content the server flagged as trying to steer the model
+	promptWarnings: PromptInjectionWarning[];
 	// Store original inputs for retry functionality
 	originalStoryText: string;
 	originalStyle: ComicStyle;
 	originalNoDialogue: boolean;
+	originalLongStoryMode: boolean;
+	originalScreenplayMode: boolean;
 	originalUploadedCharacterReferences: UploadedCharacterReference[];
 	originalUploadedSettingReferences: UploadedSettingReference[];
 }
@@ -316,8 +523,35 @@ interface GenerationState {
 interface GenerationActions {
 	// State setters
 	setStoryAnalysis: (analysis: StoryAnalysis | null) => void;
+	updateAnalysisCharacter: (
+		name: string,
+		changes: Partial<Omit<AnalysisCharacter, "name">>,
+	) => void;
+	updateAnalysisSetting: (changes: Partial<StoryAnalysis["setting"]>) => void;
+	// Adds, removes, renames or merges characters; panels and references
+	// follow renames and merges
+	editCharacters: (edit: CharacterEdit) => Promise<void>;
+	updateAnalysisLocation: (
+		id: string,
+		changes: Partial<Omit<StoryLocation, "id">>,
+	) => void;
+	// Adds or removes a location; panels set in a removed one lose it
+	editLocations: (edit: LocationEdit) => void;
+	updateAnalysisProp: (
+		name: string,
+		changes: Partial<Omit<StoryProp, "name">>,
+	) => void;
+	// Adds, removes or renames props; panels and references follow renames
+	editProps: (edit: PropEdit) => Promise<void>;
 	setCharacterReferences: (references: CharacterReference[]) => Promise<void>;
+	setPropReferences: (references: PropReference[]) => Promise<void>;
 	setStoryBreakdown: (breakdown: StoryBreakdown | null) => void;
+	updateBreakdownPanel: (
+		panelNumber: number,
+		changes: Partial<Omit<BreakdownPanel, "panelNumber">>,
+	) => void;
+	// Adds, removes or reorders panels; generated images follow their panels
+	editBreakdown: (edit: BreakdownEdit) => Promise<void>;
 	setGeneratedPanels: (panels: GeneratedPanel[]) => Promise<void>;
 	addGeneratedPanel: (panel: GeneratedPanel) => Promise<void>;
 	updateGeneratedPanel: (
@@ -336,6 +570,10 @@ interface GenerationActions {
 	setCurrentStepText: (text: string) => void;
 	setOpenAccordions: (accordions: Set<string>) => void;
 	toggleGenerationAccordion: (section: string) => void;
+	recordUsage: (usage: GenerationUsage | undefined) => void;
+	recordPromptWarnings: (
+		warnings: PromptInjectionWarning[] | undefined,
+	) => void;
 	collapseAllGenerationAccordions: () => void;
 	expandAllGenerationAccordions: () => void;
 	// Business logic actions
@@ -347,15 +585,34 @@ interface GenerationActions {
 		uploadedSettingReferences: UploadedSettingReference[],
 		startFromStep?: FailedStep,
 		startFromPanelIndex?: number,
+		// Skip the server's response cache, e.g. when the user asks for a re-run
+		bypassCache?: boolean,
 	) => Promise<void>;
-	retryFromStep: (step: FailedStep) => Promise<void>;
+	retryFromStep: (step: FailedStep, bypassCache?: boolean) => Promise<void>;
 	retryFailedPanel: (panelNumber: number, panelIndex: number) => Promise<void>;
-	regeneratePanel: (panelNumber: number) => Promise<void>;
-	regenerateCharacter: (characterName: string) => Promise<void>;
+	// Generates whatever is still missing (character designs, the layout,
+	// panel images), e.g. after pausing to review the analysis or layout
+	continueGeneration: () => Promise<void>;
+	// reuseSeed regenerates with the seed of the current image instead of a new one
+	regeneratePanel: (panelNumber: number, reuseSeed?: boolean) => Promise<void>;
+	regenerateCharacter: (
+		characterName: string,
+		reuseSeed?: boolean,
+	) => Promise<void>;
 	updateCharacterReference: (
 		characterName: string,
 		newCharacter: CharacterReference,
 	) => Promise<void>;
+	generatePropReference: (propName: string) => Promise<void>;
+	// image is a data URL
+	uploadPropReference: (propName: string, image: string) => Promise<void>;
+	removePropReference: (propName: string) => Promise<void>;
+	// Swap in another generated candidate as the image used for panels and exports
+	selectPanelCandidate: (panelNumber: number, index: number) => Promise<void>;
+	selectCharacterCandidate: (
+		characterName: string,
+		index: number,
+	) => Promise<void>;
 	// Utility actions
 	resetGeneration: () => void;
 	clearResults: () => void;
@@ -369,7 +626,10 @@ interface GenerationActions {
 const initialState: GenerationState = {
 	storyAnalysis: null,
 	characterReferences: [],
+	propReferences: [],
 	storyBreakdown: null,
+	partialStoryAnalysis: null,
+	partialStoryBreakdown: null,
 	generatedPanels: [],
 	error: null,
 	errorCategory: null,
@@ -379,9 +639,13 @@ const initialState: GenerationState = {
 	isGenerating: false,
 	currentStepText: "",
 	openAccordions: new Set<string>(),
+	usage: EMPTY_USAGE,
+	promptWarnings: [],
 	originalStoryText: "",
 	originalStyle: "manga",
 	originalNoDialogue: false,
+	originalLongStoryMode: false,
+	originalScreenplayMode: false,
 	originalUploadedCharacterReferences: [],
 	originalUploadedSettingReferences: [],
 };
@@ -391,31 +655,170 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 		(set, _get) => ({
 			...initialState,
 			setStoryAnalysis: (storyAnalysis) => set({ storyAnalysis }),
+			updateAnalysisCharacter: (name, changes) =>
+				set((state) =>
+					state.storyAnalysis
+						? {
+								storyAnalysis: {
+									...state.storyAnalysis,
+									characters: state.storyAnalysis.characters.map((character) =>
+										character.name === name
+											? { ...character, ...changes }
+											: character,
+									),
+								},
+							}
+						: {},
+				),
+			updateAnalysisSetting: (changes) =>
+				set((state) =>
+					state.storyAnalysis
+						? {
+								storyAnalysis: {
+									...state.storyAnalysis,
+									setting: { ...state.storyAnalysis.setting, ...changes },
+								},
+							}
+						: {},
+				),
+			editCharacters: async (edit) => {
+				const { storyAnalysis, storyBreakdown, characterReferences } = _get();
+				if (!storyAnalysis) return;
+
+				const { analysis, breakdown, references } = editAnalysisCharacters(
+					{
+						analysis: storyAnalysis,
+						breakdown: storyBreakdown,
+						references: characterReferences,
+					},
+					edit,
+				);
+				set({ storyAnalysis: analysis, storyBreakdown: breakdown });
+				await _get().setCharacterReferences(references);
+			},
+			updateAnalysisLocation: (id, changes) =>
+				set((state) =>
+					state.storyAnalysis?.locations
+						? {
+								storyAnalysis: {
+									...state.storyAnalysis,
+									locations: state.storyAnalysis.locations.map((location) =>
+										location.id === id ? { ...location, ...changes } : location,
+									),
+								},
+							}
+						: {},
+				),
+			editLocations: (edit) =>
+				set((state) => {
+					if (!state.storyAnalysis) return {};
+					const { analysis, breakdown } = editAnalysisLocations(
+						{
+							analysis: state.storyAnalysis,
+							breakdown: state.storyBreakdown,
+						},
+						edit,
+					);
+					return { storyAnalysis: analysis, storyBreakdown: breakdown };
+				}),
+			updateAnalysisProp: (name, changes) =>
+				set((state) =>
+					state.storyAnalysis?.props
+						? {
+								storyAnalysis: {
+									...state.storyAnalysis,
+									props: state.storyAnalysis.props.map((prop) =>
+										prop.name === name ? { ...prop, ...changes } : prop,
+									),
+								},
+							}
+						: {},
+				),
+			editProps: async (edit) => {
+				const { storyAnalysis, storyBreakdown, propReferences } = _get();
+				if (!storyAnalysis) return;
+
+				const { analysis, breakdown, references } = editAnalysisProps(
+					{
+						analysis: storyAnalysis,
+						breakdown: storyBreakdown,
+						references: propReferences,
+					},
+					edit,
+				);
+				set({ storyAnalysis: analysis, storyBreakdown: breakdown });
+				await _get().setPropReferences(references);
+			},
 			setCharacterReferences: async (characterReferences) => {
 				set({ characterReferences });
 				try {
 					await imageStorage.init();
 					for (const char of characterReferences) {
-						if (char.image) {
-							await imageStorage.storeImage(`char-${char.name}`, char.image);
-						}
+						await storeImages(imageStorage, `char-${char.name}`, char);
 					}
 				} catch (error) {
 					console.warn("Failed to persist character images:", error);
 				}
 			},
+			setPropReferences: async (propReferences) => {
+				set({ propReferences });
+				try {
+					await imageStorage.init();
+					for (const prop of propReferences) {
+						await storeImages(imageStorage, `prop-${prop.name}`, prop);
+					}
+				} catch (error) {
+					console.warn("Failed to persist prop images:", error);
+				}
+			},
 			setStoryBreakdown: (storyBreakdown) => set({ storyBreakdown }),
+			updateBreakdownPanel: (panelNumber, changes) =>
+				set((state) =>
+					state.storyBreakdown
+						? {
+								storyBreakdown: {
+									...state.storyBreakdown,
+									panels: state.storyBreakdown.panels.map((panel) =>
+										panel.panelNumber === panelNumber
+											? { ...panel, ...changes }
+											: panel,
+									),
+								},
+							}
+						: {},
+				),
+			editBreakdown: async (edit) => {
+				const { storyBreakdown, generatedPanels } = _get();
+				if (!storyBreakdown) return;
+
+				const edited = editBreakdownPanels(storyBreakdown.panels, edit);
+				// Panels that were changed (split, merged or added) lose their image
+				const panels = edited.flatMap(({ panel, previousNumber }) => {
+					const generated = generatedPanels.find(
+						(generatedPanel) => generatedPanel.panelNumber === previousNumber,
+					);
+					return generated
+						? [{ ...generated, panelNumber: panel.panelNumber }]
+						: [];
+				});
+				set({
+					storyBreakdown: {
+						...storyBreakdown,
+						panels: edited.map(({ panel }) => panel),
+					},
+				});
+				await _get().setGeneratedPanels(panels);
+			},
 			setGeneratedPanels: async (generatedPanels) => {
 				set({ generatedPanels });
 				try {
 					await imageStorage.init();
 					for (const panel of generatedPanels) {
-						if (panel.image) {
-							await imageStorage.storeImage(
-								`panel-${panel.panelNumber}`,
-								panel.image,
-							);
-						}
+						await storeImages(
+							imageStorage,
+							`panel-${panel.panelNumber}`,
+							panel,
+						);
 					}
 				} catch (error) {
 					console.warn("Failed to persist panel images:", error);
@@ -428,13 +831,8 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					),
 				}));
 				try {
-					if (panel.image) {
-						await imageStorage.init();
-						await imageStorage.storeImage(
-							`panel-${panel.panelNumber}`,
-							panel.image,
-						);
-					}
+					await imageStorage.init();
+					await storeImages(imageStorage, `panel-${panel.panelNumber}`, panel);
 				} catch (error) {
 					console.warn(
 						`Failed to persist panel ${panel.panelNumber} image:`,
@@ -457,13 +855,8 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					return { generatedPanels: updatedPanels };
 				});
 				try {
-					if (panel.image) {
-						await imageStorage.init();
-						await imageStorage.storeImage(
-							`panel-${panel.panelNumber}`,
-							panel.image,
-						);
-					}
+					await imageStorage.init();
+					await storeImages(imageStorage, `panel-${panel.panelNumber}`, panel);
 				} catch (error) {
 					console.warn(
 						`Failed to persist panel ${panel.panelNumber} image:`,
@@ -513,6 +906,22 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					}
 					return { openAccordions: newAccordions };
 				}),
+			recordUsage: (usage) =>
+				set((state) => ({ usage: addUsage(state.usage, usage) })),
+			recordPromptWarnings: (warnings) => {
+				if (!warnings?.length) return;
+				set((state) => {
+					const seen = new Set(
+						state.promptWarnings.map((w) => `${w.field}|${w.reason}`),
+					);
+					const added = warnings.filter(
+						(w) => !seen.has(`${w.field}|${w.reason}`),
+					);
+					return added.length > 0
+						? { promptWarnings: [...state.promptWarnings, ...added] }
+						: {};
+				});
+			},
 			collapseAllGenerationAccordions: () => set({ openAccordions: new Set() }),
 			expandAllGenerationAccordions: () =>
 				set({
@@ -529,13 +938,18 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 				set({
 					storyAnalysis: null,
 					characterReferences: [],
+					propReferences: [],
 					storyBreakdown: null,
+					partialStoryAnalysis: null,
+					partialStoryBreakdown: null,
 					generatedPanels: [],
 					error: null,
 					errorCategory: null,
 					errorSuggestion: null,
 					failedStep: null,
 					failedPanel: null,
+					usage: EMPTY_USAGE,
+					promptWarnings: [],
 				}),
 
 			// Show error helper
@@ -551,13 +965,10 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					const characterReferences: CharacterReference[] = [];
 					for (const char of state.characterReferences) {
 						try {
-							const image = await imageStorage.getImage(`char-${char.name}`);
-							if (image) {
-								characterReferences.push({ ...char, image });
-							} else {
-								// Keep character without image if image not found
-								characterReferences.push({ ...char, image: "" });
-							}
+							// Keeps the character without an image if it isn't found
+							characterReferences.push(
+								await loadImages(imageStorage, `char-${char.name}`, char),
+							);
 						} catch (error) {
 							console.warn(
 								`Failed to load image for character ${char.name}:`,
@@ -567,19 +978,34 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 						}
 					}
 
+					// Restore prop images
+					const propReferences: PropReference[] = [];
+					for (const prop of state.propReferences) {
+						try {
+							propReferences.push(
+								await loadImages(imageStorage, `prop-${prop.name}`, prop),
+							);
+						} catch (error) {
+							console.warn(
+								`Failed to load image for prop ${prop.name}:`,
+								error,
+							);
+							propReferences.push({ ...prop, image: "" });
+						}
+					}
+
 					// Restore panel images
 					const generatedPanels: GeneratedPanel[] = [];
 					for (const panel of state.generatedPanels) {
 						try {
-							const image = await imageStorage.getImage(
-								`panel-${panel.panelNumber}`,
+							// Keeps the panel without an image if it isn't found
+							generatedPanels.push(
+								await loadImages(
+									imageStorage,
+									`panel-${panel.panelNumber}`,
+									panel,
+								),
 							);
-							if (image) {
-								generatedPanels.push({ ...panel, image });
-							} else {
-								// Keep panel without image if image not found
-								generatedPanels.push({ ...panel, image: "" });
-							}
 						} catch (error) {
 							console.warn(
 								`Failed to load image for panel ${panel.panelNumber}:`,
@@ -589,7 +1015,7 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 						}
 					}
 
-					set({ characterReferences, generatedPanels });
+					set({ characterReferences, propReferences, generatedPanels });
 				} catch (error) {
 					console.error("Failed to hydrate images:", error);
 				}
@@ -602,19 +1028,21 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 
 					// Persist character images
 					for (const char of state.characterReferences) {
-						if (char.image) {
-							await imageStorage.storeImage(`char-${char.name}`, char.image);
-						}
+						await storeImages(imageStorage, `char-${char.name}`, char);
+					}
+
+					// Persist prop images
+					for (const prop of state.propReferences) {
+						await storeImages(imageStorage, `prop-${prop.name}`, prop);
 					}
 
 					// Persist panel images
 					for (const panel of state.generatedPanels) {
-						if (panel.image) {
-							await imageStorage.storeImage(
-								`panel-${panel.panelNumber}`,
-								panel.image,
-							);
-						}
+						await storeImages(
+							imageStorage,
+							`panel-${panel.panelNumber}`,
+							panel,
+						);
 					}
 				} catch (error) {
 					console.error("Failed to persist images:", error);
@@ -641,6 +1069,7 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 				uploadedSettingReferences,
 				startFromStep = null,
 				startFromPanelIndex = 0,
+				bypassCache = false,
 			) => {
 				const state = _get();
 
@@ -649,11 +1078,23 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					return;
 				}
 
+				// A retry keeps the mode the comic was started in
+				const longStoryMode = startFromStep
+					? state.originalLongStoryMode
+					: useStoryStore.getState().longStoryMode;
+				const screenplayMode = startFromStep
+					? state.originalScreenplayMode
+					: useStoryStore.getState().screenplayMode;
+				const wordLimit = longStoryMode
+					? MAX_LONG_STORY_WORDS
+					: MAX_STORY_WORDS;
 				const storyWordCount = storyText
 					.split(/\s+/)
 					.filter((word) => word.length > 0).length;
-				if (storyWordCount > 500) {
-					set({ error: "Story must be 500 words or less" });
+				if (storyWordCount > wordLimit) {
+					set({
+						error: `Story must be ${wordLimit.toLocaleString()} words or less`,
+					});
 					return;
 				}
 
@@ -662,6 +1103,8 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					originalStoryText: storyText,
 					originalStyle: style,
 					originalNoDialogue: noDialogue,
+					originalLongStoryMode: longStoryMode,
+					originalScreenplayMode: screenplayMode,
 					originalUploadedCharacterReferences: uploadedCharacterReferences,
 					originalUploadedSettingReferences: uploadedSettingReferences,
 				});
@@ -691,6 +1134,99 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					failedPanel: null,
 				});
 
+				// Lays out a long story one chapter at a time, numbering panels
+				// across the whole story. Chapters that already have panels in
+				// previous are kept.
+				const layOutChapters = async (
+					analysis: StoryAnalysis,
+					previous: StoryBreakdown | null,
+				): Promise<StoryBreakdown> => {
+					const chapters = splitIntoChapters(storyText);
+					const chapterTitles = chapters.map(({ title }) => ({ title }));
+					let breakdown: StoryBreakdown = previous?.chapters
+						? { ...previous, chapters: chapterTitles }
+						: { panels: [], chapters: chapterTitles };
+
+					for (const [index, chapter] of chapters.entries()) {
+						if (breakdown.panels.some((panel) => panel.chapter === index)) {
+							continue;
+						}
+
+						set({
+							currentStepText: `Planning layout for chapter ${index + 1}/${chapters.length}: ${chapter.title}...`,
+						});
+						const offset = breakdown.panels.length;
+						const inChapter = <T extends { panelNumber?: number }>(
+							panel: T,
+						) => ({
+							...panel,
+							...(panel.panelNumber !== undefined
+								? { panelNumber: panel.panelNumber + offset }
+								: {}),
+							chapter: index,
+						});
+
+						const {
+							storyBreakdown: chapterBreakdown,
+							usage,
+							warnings,
+						} = await streamFromApi<{
+							storyBreakdown: PartialJSON<StoryBreakdown>;
+						}>(
+							"/api/chunk-story",
+							{
+								story: chapter.text,
+								characters: analysis.characters,
+								setting: analysis.setting,
+								locations: analysis.locations ?? [],
+								props: analysis.props ?? [],
+								style,
+								noDialogue,
+								...(screenplayMode ? { screenplay: true } : {}),
+								bypassCache,
+							},
+							`Failed to break down ${chapter.title}`,
+							(partial) => {
+								set({
+									partialStoryBreakdown: partial
+										? {
+												...breakdown,
+												panels: [
+													...breakdown.panels,
+													...(partial.storyBreakdown.panels ?? []).map(
+														inChapter,
+													),
+												],
+											}
+										: null,
+								});
+								if (partial?.storyBreakdown.panels?.length) {
+									set({ openAccordions: new Set(["layout"]) });
+								}
+							},
+						);
+						_get().recordUsage(usage as GenerationUsage);
+						_get().recordPromptWarnings(
+							warnings as PromptInjectionWarning[] | undefined,
+						);
+
+						const { panels, promptTemplate, truncated } =
+							chapterBreakdown as StoryBreakdown;
+						breakdown = {
+							...breakdown,
+							panels: [...breakdown.panels, ...panels.map(inChapter)],
+							...(promptTemplate ? { promptTemplate } : {}),
+							...(truncated ? { truncated } : {}),
+						};
+						set({
+							storyBreakdown: breakdown,
+							partialStoryBreakdown: null,
+							openAccordions: new Set(["layout"]),
+						});
+					}
+					return breakdown;
+				};
+
 				try {
 					let analysis = state.storyAnalysis;
 					let characterReferences = state.characterReferences;
@@ -700,35 +1236,66 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					if (!startFromStep || startFromStep === "analysis" || !analysis) {
 						currentStep = "analysis";
 						set({ currentStepText: "Analyzing your story..." });
-						const analysisResponse = await fetch("/api/analyze-story", {
-							method: "POST",
-							headers: { "Content-Type": "application/json" },
-							body: JSON.stringify({ story: storyText, style }),
-						});
-
-						if (!analysisResponse.ok) {
-							throw new Error(
-								await handleApiError(
-									analysisResponse,
-									"Failed to analyze story",
-								),
-							);
-						}
-
-						const { analysis: newAnalysis } = await analysisResponse.json();
-						analysis = newAnalysis;
+						const {
+							analysis: newAnalysis,
+							usage,
+							warnings,
+						} = await streamFromApi<{
+							analysis: PartialJSON<StoryAnalysis>;
+						}>(
+							"/api/analyze-story",
+							{
+								story: storyText,
+								style,
+								...(longStoryMode ? { longStory: true } : {}),
+								bypassCache,
+							},
+							"Failed to analyze story",
+							(partial) => {
+								set({ partialStoryAnalysis: partial?.analysis ?? null });
+								if (partial?.analysis.characters?.length) {
+									set({ openAccordions: new Set(["analysis"]) });
+								}
+							},
+						);
+						_get().recordUsage(usage as GenerationUsage);
+						_get().recordPromptWarnings(
+							warnings as PromptInjectionWarning[] | undefined,
+						);
+						analysis = newAnalysis as StoryAnalysis;
 						set({
 							storyAnalysis: analysis,
+							partialStoryAnalysis: null,
 							openAccordions: new Set(["analysis"]),
 						});
 					}
 
+					// Stop for the user to review and edit a fresh analysis before
+					// any character designs are generated
+					if (
+						currentStep === "analysis" &&
+						useStoryStore.getState().pauseAfterAnalysis
+					) {
+						set({
+							currentStepText: "Analysis ready for review",
+							isGenerating: false,
+						});
+						return;
+					}
+
 					// Step 2: Generate character references (skip if we already have them and not retrying from this step)
 					if (
 						!startFromStep ||
 						startFromStep === "analysis" ||
 						startFromStep === "characters" ||
-						!characterReferences.length
+						!characterReferences.length ||
+						// Characters added while editing the analysis
+						analysis?.characters.some(
+							({ name }) =>
+								!characterReferences.some(
+									(reference) => reference.name === name,
+								),
+						)
 					) {
 						if (!analysis) {
 							throw new Error(
@@ -738,23 +1305,47 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 
 						currentStep = "characters";
 
+						// Continuing keeps the designs characters already have; a
+						// re-run or a new analysis replaces them
+						const keptReferences =
+							startFromStep && startFromStep !== "analysis" && !bypassCache
+								? characterReferences
+								: [];
+
 						// Generate characters one by one to show progress
 						characterReferences = [];
 						for (let i = 0; i < analysis.characters.length; i++) {
 							const character = analysis.characters[i];
 							if (!character) continue;
 
+							const kept = keptReferences.find(
+								(reference) => reference.name === character.name,
+							);
+							if (kept) {
+								characterReferences.push(kept);
+								continue;
+							}
+
 							set({
 								currentStepText: `Creating character ${i + 1}/${analysis.characters.length}: ${character.name}...`,
 							});
 
 							try {
-								const generatedCharacter = await generateSingleCharacterWithApi(
+								const {
+									characterReference: generatedCharacter,
+									usage,
+									warnings,
+								} = await generateSingleCharacterWithApi(
 									character,
 									analysis.setting,
 									style,
 									uploadedCharacterReferences,
+									null,
+									bypassCache,
+									useStoryStore.getState().candidateCount,
 								);
+								_get().recordUsage(usage);
+								_get().recordPromptWarnings(warnings);
 
 								characterReferences.push(generatedCharacter);
 								await _get().setCharacterReferences([...characterReferences]);
@@ -775,6 +1366,10 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 								throw new Error(errorMessage);
 							}
 						}
+						// Kept designs after the last generated one aren't stored yet
+						if (keptReferences.length > 0) {
+							await _get().setCharacterReferences([...characterReferences]);
+						}
 					}
 
 					// Step 3: Break down story into panels (skip if we already have breakdown and not retrying from this step)
@@ -792,35 +1387,68 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 						}
 
 						currentStep = "layout";
-						set({ currentStepText: "Planning comic layout..." });
-						const storyBreakdownResponse = await fetch("/api/chunk-story", {
-							method: "POST",
-							headers: { "Content-Type": "application/json" },
-							body: JSON.stringify({
-								story: storyText,
-								characters: analysis.characters,
-								setting: analysis.setting,
-								style,
-								noDialogue,
-							}),
-						});
-
-						if (!storyBreakdownResponse.ok) {
-							throw new Error(
-								await handleApiError(
-									storyBreakdownResponse,
-									"Failed to break down story",
-								),
+						if (longStoryMode) {
+							breakdown = await layOutChapters(
+								analysis,
+								// A failed layout resumes after the chapters already laid
+								// out; a re-run (bypassing the cache) starts over
+								startFromStep === "layout" && !bypassCache ? breakdown : null,
+							);
+						} else {
+							set({ currentStepText: "Planning comic layout..." });
+							const {
+								storyBreakdown: newBreakdown,
+								usage,
+								warnings,
+							} = await streamFromApi<{
+								storyBreakdown: PartialJSON<StoryBreakdown>;
+							}>(
+								"/api/chunk-story",
+								{
+									story: storyText,
+									characters: analysis.characters,
+									setting: analysis.setting,
+									locations: analysis.locations ?? [],
+									props: analysis.props ?? [],
+									style,
+									noDialogue,
+									...(screenplayMode ? { screenplay: true } : {}),
+									bypassCache,
+								},
+								"Failed to break down story",
+								(partial) => {
+									set({
+										partialStoryBreakdown: partial?.storyBreakdown ?? null,
+									});
+									if (partial?.storyBreakdown.panels?.length) {
+										set({ openAccordions: new Set(["layout"]) });
+									}
+								},
+							);
+							_get().recordUsage(usage as GenerationUsage);
+							_get().recordPromptWarnings(
+								warnings as PromptInjectionWarning[] | undefined,
 							);
+							breakdown = newBreakdown as StoryBreakdown;
+							set({
+								storyBreakdown: breakdown,
+								partialStoryBreakdown: null,
+								openAccordions: new Set(["layout"]),
+							});
 						}
+					}
 
-						const { storyBreakdown: newBreakdown } =
-							await storyBreakdownResponse.json();
-						breakdown = newBreakdown;
+					// Stop for the user to review and edit a freshly planned layout
+					// before any panel images are generated
+					if (
+						currentStep === "layout" &&
+						useStoryStore.getState().pauseAfterLayout
+					) {
 						set({
-							storyBreakdown: breakdown,
-							openAccordions: new Set(["layout"]),
+							currentStepText: "Layout ready for review",
+							isGenerating: false,
 						});
+						return;
 					}
 
 					// Step 4: Generate comic panels
@@ -852,18 +1480,36 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 
 						for (let i = startIndex; i < breakdown!.panels.length; i++) {
 							const panel = breakdown!.panels[i];
+							// Continuing a layout keeps the images its panels already
+							// have; a re-run replaces them
+							if (
+								startFromStep === "panels" &&
+								!bypassCache &&
+								panels.some((p) => p.panelNumber === panel?.panelNumber)
+							) {
+								continue;
+							}
 							set({
 								currentStepText: `Generating panel ${i + 1}/${breakdown!.panels.length}...`,
 							});
 
 							try {
-								const generatedPanel = await generateSinglePanelWithApi(
-									panel!,
-									characterReferences,
-									analysis.setting,
-									style,
-									uploadedSettingReferences,
-								);
+								const { generatedPanel, usage, warnings } =
+									await generateSinglePanelWithApi(
+										panel!,
+										characterReferences,
+										analysis.setting,
+										analysis.locations ?? [],
+										analysis.props ?? [],
+										_get().propReferences,
+										style,
+										uploadedSettingReferences,
+										null,
+										bypassCache,
+										useStoryStore.getState().candidateCount,
+									);
+								_get().recordUsage(usage);
+								_get().recordPromptWarnings(warnings);
 
 								// Replace existing panel or add new one
 								const existingIndex = panels.findIndex(
@@ -898,6 +1544,9 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 										step: "panel",
 										panelNumber: i + 1,
 										panelIndex: i,
+										...(error instanceof ContentBlockedError
+											? { contentBlock: error.details }
+											: {}),
 									},
 								});
 								throw error;
@@ -933,12 +1582,14 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					set({
 						isGenerating: false,
 						failedStep: currentStep,
+						partialStoryAnalysis: null,
+						partialStoryBreakdown: null,
 					});
 				}
 			},
 
 			// Retry functions
-			retryFromStep: async (step) => {
+			retryFromStep: async (step, bypassCache = false) => {
 				if (!step) return;
 
 				const state = _get();
@@ -982,6 +1633,8 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 						state.originalUploadedCharacterReferences || [],
 						state.originalUploadedSettingReferences || [],
 						step,
+						0,
+						bypassCache,
 					);
 				} finally {
 					// Clear loading state regardless of success or failure
@@ -1039,7 +1692,35 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 				}
 			},
 
-			regenerateCharacter: async (characterName) => {
+			continueGeneration: async () => {
+				const state = _get();
+				if (!state.originalStoryText || !state.storyAnalysis) {
+					_get().setErrorWithContext(
+						"No story analysis found. Please start generation from the beginning.",
+						"Generation Failed",
+					);
+					return;
+				}
+
+				// Missing character designs are generated on the way to either step
+				const step = state.storyBreakdown ? "panels" : "characters";
+				trackEvent({
+					action: "continue_generation",
+					category: "user_interaction",
+					label: step,
+				});
+
+				await _get().generateComic(
+					state.originalStoryText,
+					state.originalStyle,
+					state.originalNoDialogue,
+					state.originalUploadedCharacterReferences || [],
+					state.originalUploadedSettingReferences || [],
+					step,
+				);
+			},
+
+			regenerateCharacter: async (characterName, reuseSeed = false) => {
 				const state = _get();
 
 				// Validate we have all required data
@@ -1069,19 +1750,38 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					label: `character_${characterName}`,
 				});
 
+				const seed = reuseSeed
+					? state.characterReferences.find((c) => c.name === characterName)
+							?.generation?.seed
+					: undefined;
+
 				try {
 					// Generate the new character using our reusable helper
-					const generatedCharacter = await generateSingleCharacterWithApi(
+					const {
+						characterReference: generatedCharacter,
+						usage,
+						warnings,
+					} = await generateSingleCharacterWithApi(
 						characterData,
 						state.storyAnalysis.setting,
 						state.originalStyle,
 						state.originalUploadedCharacterReferences || [],
+						seed,
+						// A cached image would be returned for a new-seed request
+						!reuseSeed,
+						// The same seed reproduces a single image
+						reuseSeed ? 1 : useStoryStore.getState().candidateCount,
 					);
+					_get().recordUsage(usage);
+					_get().recordPromptWarnings(warnings);
 
-					// Update the character in the store
+					// Update the character in the store, keeping earlier candidates
 					await _get().updateCharacterReference(
 						characterName,
-						generatedCharacter,
+						mergeCandidates(
+							_get().characterReferences.find((c) => c.name === characterName),
+							generatedCharacter,
+						),
 					);
 
 					trackEvent({
@@ -1098,7 +1798,7 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					_get().setErrorWithContext(
 						errorMessage,
 						"Character Regeneration Failed",
-						() => _get().regenerateCharacter(characterName),
+						() => _get().regenerateCharacter(characterName, reuseSeed),
 					);
 
 					trackError(
@@ -1122,13 +1822,12 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					return { characterReferences: updatedCharacters };
 				});
 				try {
-					if (newCharacter.image) {
-						await imageStorage.init();
-						await imageStorage.storeImage(
-							`char-${newCharacter.name}`,
-							newCharacter.image,
-						);
-					}
+					await imageStorage.init();
+					await storeImages(
+						imageStorage,
+						`char-${newCharacter.name}`,
+						newCharacter,
+					);
 				} catch (error) {
 					console.warn(
 						`Failed to persist character ${newCharacter.name} image:`,
@@ -1137,7 +1836,100 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 				}
 			},
 
-			regeneratePanel: async (panelNumber) => {
+			generatePropReference: async (propName) => {
+				const state = _get();
+				const prop = state.storyAnalysis?.props?.find(
+					(p) => p.name === propName,
+				);
+				if (!state.storyAnalysis || !prop) {
+					_get().setErrorWithContext(
+						`Prop ${propName} not found in story analysis.`,
+						"Prop Reference Failed",
+					);
+					return;
+				}
+
+				trackEvent({
+					action: "generate_prop_reference",
+					category: "user_interaction",
+					label: `prop_${propName}`,
+				});
+
+				try {
+					const { propReference, usage, warnings } =
+						await generatePropReferenceWithApi(
+							prop,
+							state.storyAnalysis.setting,
+							state.originalStyle,
+						);
+					_get().recordUsage(usage);
+					_get().recordPromptWarnings(warnings);
+					await _get().setPropReferences([
+						..._get().propReferences.filter((p) => p.name !== propName),
+						propReference,
+					]);
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: `Failed to generate a reference for ${propName}`;
+
+					_get().setErrorWithContext(
+						errorMessage,
+						"Prop Reference Failed",
+						() => _get().generatePropReference(propName),
+					);
+
+					trackError(
+						"prop_reference_failed",
+						`Prop ${propName}: ${errorMessage}`,
+					);
+				}
+			},
+
+			uploadPropReference: async (propName, image) => {
+				const prop = _get().storyAnalysis?.props?.find(
+					(p) => p.name === propName,
+				);
+				if (!prop) return;
+				const reference: PropReference = {
+					name: propName,
+					description: prop.description,
+					image,
+				};
+				const others = _get().propReferences.filter((p) => p.name !== propName);
+				await _get().setPropReferences([...others, reference]);
+			},
+
+			removePropReference: async (propName) => {
+				await _get().setPropReferences(
+					_get().propReferences.filter((p) => p.name !== propName),
+				);
+			},
+
+			selectPanelCandidate: async (panelNumber, index) => {
+				const panel = _get().generatedPanels.find(
+					(p) => p.panelNumber === panelNumber,
+				);
+				if (!panel) return;
+				await _get().updateGeneratedPanel(
+					panelNumber,
+					selectCandidate(panel, index),
+				);
+			},
+
+			selectCharacterCandidate: async (characterName, index) => {
+				const character = _get().characterReferences.find(
+					(c) => c.name === characterName,
+				);
+				if (!character) return;
+				await _get().updateCharacterReference(
+					characterName,
+					selectCandidate(character, index),
+				);
+			},
+
+			regeneratePanel: async (panelNumber, reuseSeed = false) => {
 				const state = _get();
 
 				// Validate we have all required data
@@ -1172,18 +1964,47 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					label: `panel_${panelNumber}`,
 				});
 
+				const seed = reuseSeed
+					? state.generatedPanels.find((p) => p.panelNumber === panelNumber)
+							?.generation?.seed
+					: undefined;
+
 				try {
 					// Generate the new panel using our reusable helper
-					const generatedPanel = await generateSinglePanelWithApi(
-						panelData!,
-						state.characterReferences,
-						state.storyAnalysis.setting,
-						state.originalStyle,
-						state.originalUploadedSettingReferences || [],
+					const { generatedPanel, usage, warnings } =
+						await generateSinglePanelWithApi(
+							panelData!,
+							state.characterReferences,
+							state.storyAnalysis.setting,
+							state.storyAnalysis.locations ?? [],
+							state.storyAnalysis.props ?? [],
+							state.propReferences,
+							state.originalStyle,
+							state.originalUploadedSettingReferences || [],
+							seed,
+							!reuseSeed,
+							// The same seed reproduces a single image
+							reuseSeed ? 1 : useStoryStore.getState().candidateCount,
+						);
+					_get().recordUsage(usage);
+					_get().recordPromptWarnings(warnings);
+
+					// Update the panel in the store, keeping earlier candidates
+					await _get().updateGeneratedPanel(
+						panelNumber,
+						mergeCandidates(
+							_get().generatedPanels.find((p) => p.panelNumber === panelNumber),
+							generatedPanel,
+						),
 					);
-
-					// Update the panel in the store
-					await _get().updateGeneratedPanel(panelNumber, generatedPanel);
+					if (_get().failedPanel?.panelNumber === panelNumber) {
+						set({
+							failedPanel: null,
+							error: null,
+							errorCategory: null,
+							errorSuggestion: null,
+						});
+					}
 
 					trackEvent({
 						action: "regenerate_panel_success",
@@ -1199,8 +2020,18 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 					_get().setErrorWithContext(
 						errorMessage,
 						"Panel Regeneration Failed",
-						() => _get().regeneratePanel(panelNumber),
+						() => _get().regeneratePanel(panelNumber, reuseSeed),
 					);
+					if (error instanceof ContentBlockedError) {
+						set({
+							failedPanel: {
+								step: "panel",
+								panelNumber,
+								panelIndex: state.storyBreakdown.panels.indexOf(panelData),
+								contentBlock: error.details,
+							},
+						});
+					}
 
 					trackError(
 						"panel_regeneration_failed",
@@ -1213,13 +2044,12 @@ export const useGenerationStore = create<GenerationState & GenerationActions>()(
 			name: "generation-store",
 			partialize: (state) => ({
 				storyAnalysis: state.storyAnalysis,
-				characterReferences: state.characterReferences.map(
-					({ image, ...char }) => char,
-				),
+				characterReferences: state.characterReferences.map(withoutImages),
+				propReferences: state.propReferences.map(withoutImages),
 				storyBreakdown: state.storyBreakdown,
-				generatedPanels: state.generatedPanels.map(
-					({ image, ...panel }) => panel,
-				),
+				generatedPanels: state.generatedPanels.map(withoutImages),
+				usage: state.usage,
+				promptWarnings: state.promptWarnings,
 			}),
 			storage: createJSONStorage(() => ({
 				getItem: (name: string) => {
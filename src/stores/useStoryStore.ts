@@ -6,6 +6,16 @@ interface StoryState {
 	story: string;
 	style: ComicStyle;
 	noDialogue: boolean;
+	// Images generated per panel and character reference to pick from
+	candidateCount: number;
+	// Lifts the word limit and lays the story out chapter by chapter
+	longStoryMode: boolean;
+	// The story is a Fountain screenplay, laid out scene by scene as written
+	screenplayMode: boolean;
+	// Stop after the analysis or the layout so they can be reviewed (and
+	// edited) before generating images
+	pauseAfterAnalysis: boolean;
+	pauseAfterLayout: boolean;
 	hasLoadedReddit: boolean;
 	isLoadingReddit: boolean;
 }
@@ -14,6 +24,11 @@ interface StoryActions {
 	setStory: (story: string) => void;
 	setStyle: (style: ComicStyle) => void;
 	setNoDialogue: (noDialogue: boolean) => void;
+	setCandidateCount: (candidateCount: number) => void;
+	setLongStoryMode: (longStoryMode: boolean) => void;
+	setScreenplayMode: (screenplayMode: boolean) => void;
+	setPauseAfterAnalysis: (pauseAfterAnalysis: boolean) => void;
+	setPauseAfterLayout: (pauseAfterLayout: boolean) => void;
 	setHasLoadedReddit: (hasLoaded: boolean) => void;
 	setIsLoadingReddit: (isLoading: boolean) => void;
 	resetStory: () => void;
@@ -23,6 +38,11 @@ const initialState: StoryState = {
 	story: "",
 	style: "manga",
 	noDialogue: false,
+	candidateCount: 1,
+	longStoryMode: false,
+	screenplayMode: false,
+	pauseAfterAnalysis: false,
+	pauseAfterLayout: false,
 	hasLoadedReddit: false,
 	isLoadingReddit: false,
 };
@@ -34,6 +54,12 @@ export const useStoryStore = create<StoryState & StoryActions>()(
 			setStory: (story) => set({ story }),
 			setStyle: (style) => set({ style }),
 			setNoDialogue: (noDialogue) => set({ noDialogue }),
+			setCandidateCount: (candidateCount) => set({ candidateCount }),
+			setLongStoryMode: (longStoryMode) => set({ longStoryMode }),
+			setScreenplayMode: (screenplayMode) => set({ screenplayMode }),
+			setPauseAfterAnalysis: (pauseAfterAnalysis) =>
+				set({ pauseAfterAnalysis }),
+			setPauseAfterLayout: (pauseAfterLayout) => set({ pauseAfterLayout }),
 			setHasLoadedReddit: (hasLoadedReddit) => set({ hasLoadedReddit }),
 			setIsLoadingReddit: (isLoadingReddit) => set({ isLoadingReddit }),
 			resetStory: () => set(initialState),
@@ -44,6 +70,11 @@ export const useStoryStore = create<StoryState & StoryActions>()(
 				story: state.story,
 				style: state.style,
 				noDialogue: state.noDialogue,
+				candidateCount: state.candidateCount,
+				longStoryMode: state.longStoryMode,
+				screenplayMode: state.screenplayMode,
+				pauseAfterAnalysis: state.pauseAfterAnalysis,
+				pauseAfterLayout: state.pauseAfterLayout,
 			}),
 		},
 	),
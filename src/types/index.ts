@@ -2,6 +2,9 @@
 
 export type ComicStyle = "manga" | "comic";
 
+// Panel shapes supported by every image backend
+export type PanelAspectRatio = "1:1" | "3:2" | "2:3" | "16:9" | "9:16" | "21:9";
+
 // === Domain Types ===
 
 interface Character {
@@ -13,36 +16,133 @@ interface Character {
 
 interface Setting {
 	timePeriod: string;
-	location: string;
+	location: string; // where most of the story takes place
 	mood: string;
 }
 
+// A place scenes are set in, which panels refer to by id
+interface StoryLocation {
+	id: string; // short slug, e.g. "rooftop"
+	name: string;
+	description: string; // what the place looks like
+	// Uploaded setting references that show this location. References that
+	// aren't bound to any location are used for every panel.
+	settingReferenceIds?: string[];
+}
+
+// An object that recurs or matters to the plot, e.g. a sword or a letter
+interface Prop {
+	name: string;
+	description: string; // what it looks like
+}
+
 export interface StoryAnalysis {
 	title: string;
 	characters: Character[];
 	setting: Setting;
+	// Missing from analyses made before stories had several locations
+	locations?: StoryLocation[];
+	// Missing from analyses made before props were tracked
+	props?: Prop[];
+	promptTemplate?: PromptTemplateRef;
 }
 
 export interface CharacterReference {
 	name: string;
 	image: string; // base64 data URL
 	description: string;
+	generation?: ImageGenerationMetadata;
+	// Every image generated for the character; image is the selected one
+	candidates?: ImageCandidate[];
+	selectedCandidate?: number;
+}
+
+export interface PropReference {
+	name: string;
+	image: string; // base64 data URL
+	description: string;
+	generation?: ImageGenerationMetadata; // missing for uploaded images
 }
 
 export interface StoryBreakdown {
 	panels: {
 		panelNumber: number;
 		characters: string[];
+		// Props shown in the panel; without it, the props its scene mentions
+		props?: string[];
 		sceneDescription: string;
 		dialogue?: string;
 		cameraAngle: string;
 		visualMood: string;
+		aspectRatio?: PanelAspectRatio;
+		locationId?: string; // one of the analysis' locations
+		chapter?: number; // index into chapters, for long stories
 	}[];
+	// Long stories are laid out chapter by chapter, with panels numbered
+	// across the whole story
+	chapters?: { title: string }[];
+	promptTemplate?: PromptTemplateRef;
+	// The model's output was cut off and only its complete panels were kept
+	truncated?: boolean;
 }
 
 export interface GeneratedPanel {
 	panelNumber: number;
 	image: string; // base64 data URL
+	generation?: ImageGenerationMetadata;
+	// Every image generated for the panel; image is the selected one
+	candidates?: ImageCandidate[];
+	selectedCandidate?: number;
+}
+
+// One of several images generated from the same prompt
+export interface ImageCandidate {
+	image: string; // base64 data URL
+	generation?: ImageGenerationMetadata;
+}
+
+// Everything needed to reproduce a generated image
+export interface ImageGenerationMetadata {
+	provider: string;
+	model: string;
+	seed: number | null; // null when the provider doesn't accept a seed
+	prompt: string;
+	parameters: Record<string, unknown>;
+	createdAt: string; // ISO timestamp
+	promptTemplate?: PromptTemplateRef;
+}
+
+// Kind of content refused by the moderation pre-check or a provider's safety filter
+export type ContentSafetyCategory =
+	| "sexual"
+	| "minors"
+	| "violence"
+	| "self-harm"
+	| "hate"
+	| "harassment"
+	| "dangerous"
+	| "unspecified";
+
+// Why a generation was blocked, as returned with a CONTENT_BLOCKED error
+export interface ContentBlockDetails {
+	message: string;
+	category: ContentSafetyCategory;
+	source: string; // "moderation" for the pre-check, otherwise the provider id
+	field?: string; // moderation only, e.g. "panel 3 scene"
+	excerpt?: string;
+}
+
+// User-controlled prompt content that reads like instructions to the model
+export interface PromptInjectionWarning {
+	field: string; // e.g. "story" or "panel 3 dialogue"
+	reason: string;
+	excerpt: string;
+}
+
+// Identifies the prompt template version an output was generated from
+export interface PromptTemplateRef {
+	id: string;
+	version: number;
 }
 
 // === Uploaded Reference Types ===
@@ -60,3 +160,12 @@ export interface UploadedSettingReference {
 	image: string; // base64 data URL
 	fileName: string; // original file name
 }
+
+// === Usage Types ===
+
+export interface GenerationUsage {
+	inputTokens: number;
+	outputTokens: number;
+	images: number;
+	estimatedCostUsd: number;
+}